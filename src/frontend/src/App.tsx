@@ -4,6 +4,7 @@ import Footer from './components/Footer';
 import WelcomeScreen from './components/WelcomeScreen';
 import ChatRoom from './components/ChatRoom';
 import { normalizeRoomId } from './utils/roomId';
+import { clearRoomKey } from './utils/roomCrypto';
 
 export default function App() {
   const [currentRoom, setCurrentRoom] = useState<string | null>(null);
@@ -17,6 +18,9 @@ export default function App() {
   };
 
   const handleLeaveRoom = () => {
+    if (currentRoom) {
+      clearRoomKey(currentRoom);
+    }
     setCurrentRoom(null);
     setNickname('');
   };
@@ -13,50 +13,173 @@ export class ExternalBlob {
     static fromURL(url: string): ExternalBlob;
     static fromBytes(blob: Uint8Array<ArrayBuffer>): ExternalBlob;
     withUploadProgress(onProgress: (percentage: number) => void): ExternalBlob;
+    withAbortSignal(signal: AbortSignal): ExternalBlob;
+    withResumeKey(resumeKey: string): ExternalBlob;
 }
 export type Time = bigint;
+export interface Attachment {
+    blob: ExternalBlob;
+    height?: bigint;
+    kind: AttachmentKind;
+    size: bigint;
+    mimeType: string;
+    fileName?: string;
+    width?: bigint;
+    durationMs?: bigint;
+}
+export type SelfDestruct = {
+    __kind__: "viewOnce";
+    viewOnce: null;
+} | {
+    __kind__: "afterSeconds";
+    afterSeconds: bigint;
+};
 export interface MessageView {
     id: bigint;
     content: string;
     nickname: string;
     owner: string;
-    audioUrl?: ExternalBlob;
-    imageUrl?: ExternalBlob;
+    attachments: Array<Attachment>;
     isEdited: boolean;
     nonce?: string;
+    mediaKey?: string;
+    selfDestruct?: SelfDestruct;
+    firstViewedAt?: Time;
+    isConsumed: boolean;
     timestamp: Time;
     replyToId?: bigint;
-    videoUrl?: ExternalBlob;
     reactions: Array<Reaction>;
 }
+export interface MessagesPage {
+    hasMore: boolean;
+    messages: Array<MessageView>;
+}
+export interface RoomEventView {
+    seq: bigint;
+    kind: RoomEventKind;
+    messageId: bigint;
+    message?: MessageView;
+}
+export interface RoomSettings {
+    encryption?: RoomEncryption;
+    maxFileSize: bigint;
+    messageTTL: Time;
+}
+export interface TransformationInput {
+    context: Uint8Array;
+    response: http_request_result;
+}
+export interface TransformationOutput {
+    status: bigint;
+    body: Uint8Array;
+    headers: Array<http_header>;
+}
+export interface http_header {
+    value: string;
+    name: string;
+}
+export interface http_request_result {
+    status: bigint;
+    body: Uint8Array;
+    headers: Array<http_header>;
+}
+export interface CustomEmoji {
+    shortcode: string;
+    blob: ExternalBlob;
+    addedAt: Time;
+    addedBy: string;
+    mimeType: string;
+}
+export interface SharedStickerPack {
+    id: bigint;
+    name: string;
+    sharedAt: Time;
+    stickers: Array<Sticker>;
+    sharedBy: string;
+}
+export interface Sticker {
+    id: bigint;
+    expiresAt?: Time;
+    blob: ExternalBlob;
+    mimeType: string;
+}
+export interface StickerPack {
+    id: bigint;
+    name: string;
+    stickers: Array<Sticker>;
+}
 export interface UserProfile {
     nickname: string;
 }
+export interface RoomEventsPage {
+    latestSeq: bigint;
+    events: Array<RoomEventView>;
+}
+export interface RoomEncryption {
+    salt: string;
+    keyCheck: string;
+}
 export interface Reaction {
     userId: string;
     emoji: string;
 }
+export enum AttachmentKind {
+    audio = "audio",
+    video = "video",
+    file = "file",
+    image = "image"
+}
+export enum RoomEventKind {
+    created = "created",
+    edited = "edited",
+    deleted = "deleted",
+    reacted = "reacted",
+    viewed = "viewed"
+}
 export enum UserRole {
     admin = "admin",
     user = "user",
     guest = "guest"
 }
 export interface backendInterface {
-    addReaction(roomId: string, messageId: bigint, userId: string, emoji: string): Promise<boolean>;
+    addCustomEmoji(roomId: string, shortcode: string, blob: ExternalBlob, mimeType: string, size: bigint): Promise<void>;
+    addReaction(roomId: string, messageId: bigint, emoji: string): Promise<boolean>;
+    addSticker(packId: bigint, blob: ExternalBlob, mimeType: string, size: bigint, lifetime: Time | null): Promise<bigint>;
     assignCallerUserRole(user: Principal, role: UserRole): Promise<void>;
-    createRoom(joinCode: string): Promise<string>;
-    deleteMessage(roomId: string, messageId: bigint, userId: string): Promise<boolean>;
-    editMessage(roomId: string, messageId: bigint, userId: string, newContent: string, newImage: ExternalBlob | null, newVideo: ExternalBlob | null, newAudio: ExternalBlob | null): Promise<boolean>;
+    createRoom(joinCode: string, settings: RoomSettings): Promise<string>;
+    createStickerPack(name: string): Promise<bigint>;
+    deleteMessage(roomId: string, messageId: bigint): Promise<boolean>;
+    deleteStickerPack(packId: bigint): Promise<void>;
+    editMessage(roomId: string, messageId: bigint, newContent: string, newAttachments: Array<Attachment>, newMediaKey: string | null): Promise<boolean>;
+    fetchExternalImage(roomId: string, messageId: bigint, url: string): Promise<Uint8Array>;
     fetchMessagesAfterId(roomId: string, lastId: bigint): Promise<Array<MessageView>>;
+    getCachedExternalImage(roomId: string, messageId: bigint, url: string): Promise<Uint8Array | null>;
     getCallerUserProfile(): Promise<UserProfile | null>;
     getCallerUserRole(): Promise<UserRole>;
-    getMessageTTL(): Promise<Time>;
+    getMessageTTL(roomId: string): Promise<Time>;
     getMessages(roomId: string): Promise<Array<MessageView>>;
+    getMessagesBefore(roomId: string, beforeId: bigint | null, limit: bigint): Promise<MessagesPage>;
+    getMyPseudonym(roomId: string): Promise<string>;
+    getMyStickerPacks(): Promise<Array<StickerPack>>;
+    getRoomCustomEmoji(roomId: string): Promise<Array<CustomEmoji>>;
+    getRoomEventSeq(roomId: string): Promise<bigint>;
+    getRoomEvents(roomId: string, sinceSeq: bigint): Promise<RoomEventsPage>;
+    getRoomSettings(roomId: string): Promise<RoomSettings | null>;
+    getRoomStickerPacks(roomId: string): Promise<Array<SharedStickerPack>>;
     getUserProfile(user: Principal): Promise<UserProfile | null>;
+    importStickerPack(roomId: string, sharedPackId: bigint): Promise<bigint>;
     isCallerAdmin(): Promise<boolean>;
+    markMessageViewed(roomId: string, messageId: bigint): Promise<MessageView | null>;
     pruneExpiredMessages(): Promise<void>;
-    removeReaction(roomId: string, messageId: bigint, userId: string, emoji: string): Promise<boolean>;
+    removeCustomEmoji(roomId: string, shortcode: string): Promise<void>;
+    removeReaction(roomId: string, messageId: bigint, emoji: string): Promise<boolean>;
+    removeSticker(packId: bigint, stickerId: bigint): Promise<void>;
+    renameStickerPack(packId: bigint, name: string): Promise<void>;
     roomExists(roomId: string): Promise<boolean>;
     saveCallerUserProfile(profile: UserProfile): Promise<void>;
-    sendMessage(roomId: string, content: string, nickname: string, userId: string, replyToId: bigint | null, image: ExternalBlob | null, video: ExternalBlob | null, audio: ExternalBlob | null, nonce: string): Promise<bigint>;
+    sendMessage(roomId: string, content: string, nickname: string, replyToId: bigint | null, attachments: Array<Attachment>, mediaKey: string | null, selfDestruct: SelfDestruct | null, nonce: string): Promise<bigint>;
+    setStickerLifetime(packId: bigint, stickerId: bigint, lifetime: Time | null): Promise<void>;
+    shareStickerPack(roomId: string, packId: bigint): Promise<bigint>;
+    transform(input: TransformationInput): Promise<TransformationOutput>;
+    unshareStickerPack(roomId: string, sharedPackId: bigint): Promise<void>;
 }
@@ -55,6 +55,8 @@ export class ExternalBlob {
     _blob?: Uint8Array<ArrayBuffer> | null;
     directURL: string;
     onProgress?: (percentage: number) => void = undefined;
+    signal?: AbortSignal = undefined;
+    resumeKey?: string = undefined;
     private constructor(directURL: string, blob: Uint8Array<ArrayBuffer> | null){
         if (blob) {
             this._blob = blob;
@@ -88,12 +90,37 @@ export class ExternalBlob {
         this.onProgress = onProgress;
         return this;
     }
+    public withAbortSignal(signal: AbortSignal): ExternalBlob {
+        this.signal = signal;
+        return this;
+    }
+    public withResumeKey(resumeKey: string): ExternalBlob {
+        this.resumeKey = resumeKey;
+        return this;
+    }
 }
 export interface _CaffeineStorageRefillResult {
     success?: boolean;
     topped_up_amount?: bigint;
 }
 export type Time = bigint;
+export interface Attachment {
+    blob: ExternalBlob;
+    height?: bigint;
+    kind: AttachmentKind;
+    size: bigint;
+    mimeType: string;
+    fileName?: string;
+    width?: bigint;
+    durationMs?: bigint;
+}
+export type SelfDestruct = {
+    __kind__: "viewOnce";
+    viewOnce: null;
+} | {
+    __kind__: "afterSeconds";
+    afterSeconds: bigint;
+};
 export interface _CaffeineStorageRefillInformation {
     proposed_top_up_amount?: bigint;
 }
@@ -102,26 +129,107 @@ export interface MessageView {
     content: string;
     nickname: string;
     owner: string;
-    audioUrl?: ExternalBlob;
-    imageUrl?: ExternalBlob;
+    attachments: Array<Attachment>;
     isEdited: boolean;
     nonce?: string;
+    mediaKey?: string;
+    selfDestruct?: SelfDestruct;
+    firstViewedAt?: Time;
+    isConsumed: boolean;
     timestamp: Time;
     replyToId?: bigint;
-    videoUrl?: ExternalBlob;
     reactions: Array<Reaction>;
 }
 export interface _CaffeineStorageCreateCertificateResult {
     method: string;
     blob_hash: string;
 }
+export interface MessagesPage {
+    hasMore: boolean;
+    messages: Array<MessageView>;
+}
+export interface RoomEventView {
+    seq: bigint;
+    kind: RoomEventKind;
+    messageId: bigint;
+    message?: MessageView;
+}
+export interface RoomSettings {
+    encryption?: RoomEncryption;
+    maxFileSize: bigint;
+    messageTTL: Time;
+}
+export interface TransformationInput {
+    context: Uint8Array;
+    response: http_request_result;
+}
+export interface TransformationOutput {
+    status: bigint;
+    body: Uint8Array;
+    headers: Array<http_header>;
+}
+export interface http_header {
+    value: string;
+    name: string;
+}
+export interface http_request_result {
+    status: bigint;
+    body: Uint8Array;
+    headers: Array<http_header>;
+}
+export interface CustomEmoji {
+    shortcode: string;
+    blob: ExternalBlob;
+    addedAt: Time;
+    addedBy: string;
+    mimeType: string;
+}
+export interface SharedStickerPack {
+    id: bigint;
+    name: string;
+    sharedAt: Time;
+    stickers: Array<Sticker>;
+    sharedBy: string;
+}
+export interface Sticker {
+    id: bigint;
+    expiresAt?: Time;
+    blob: ExternalBlob;
+    mimeType: string;
+}
+export interface StickerPack {
+    id: bigint;
+    name: string;
+    stickers: Array<Sticker>;
+}
 export interface UserProfile {
     nickname: string;
 }
+export interface RoomEventsPage {
+    latestSeq: bigint;
+    events: Array<RoomEventView>;
+}
+export interface RoomEncryption {
+    salt: string;
+    keyCheck: string;
+}
 export interface Reaction {
     userId: string;
     emoji: string;
 }
+export enum AttachmentKind {
+    audio = "audio",
+    video = "video",
+    file = "file",
+    image = "image"
+}
+export enum RoomEventKind {
+    created = "created",
+    edited = "edited",
+    deleted = "deleted",
+    reacted = "reacted",
+    viewed = "viewed"
+}
 export enum UserRole {
     admin = "admin",
     user = "user",
@@ -135,25 +243,48 @@ export interface backendInterface {
     _caffeineStorageRefillCashier(refillInformation: _CaffeineStorageRefillInformation | null): Promise<_CaffeineStorageRefillResult>;
     _caffeineStorageUpdateGatewayPrincipals(): Promise<void>;
     _initializeAccessControlWithSecret(userSecret: string): Promise<void>;
-    addReaction(roomId: string, messageId: bigint, userId: string, emoji: string): Promise<boolean>;
+    addCustomEmoji(roomId: string, shortcode: string, blob: ExternalBlob, mimeType: string, size: bigint): Promise<void>;
+    addReaction(roomId: string, messageId: bigint, emoji: string): Promise<boolean>;
+    addSticker(packId: bigint, blob: ExternalBlob, mimeType: string, size: bigint, lifetime: Time | null): Promise<bigint>;
     assignCallerUserRole(user: Principal, role: UserRole): Promise<void>;
-    createRoom(joinCode: string): Promise<string>;
-    deleteMessage(roomId: string, messageId: bigint, userId: string): Promise<boolean>;
-    editMessage(roomId: string, messageId: bigint, userId: string, newContent: string, newImage: ExternalBlob | null, newVideo: ExternalBlob | null, newAudio: ExternalBlob | null): Promise<boolean>;
+    createRoom(joinCode: string, settings: RoomSettings): Promise<string>;
+    createStickerPack(name: string): Promise<bigint>;
+    deleteMessage(roomId: string, messageId: bigint): Promise<boolean>;
+    deleteStickerPack(packId: bigint): Promise<void>;
+    editMessage(roomId: string, messageId: bigint, newContent: string, newAttachments: Array<Attachment>, newMediaKey: string | null): Promise<boolean>;
+    fetchExternalImage(roomId: string, messageId: bigint, url: string): Promise<Uint8Array>;
     fetchMessagesAfterId(roomId: string, lastId: bigint): Promise<Array<MessageView>>;
+    getCachedExternalImage(roomId: string, messageId: bigint, url: string): Promise<Uint8Array | null>;
     getCallerUserProfile(): Promise<UserProfile | null>;
     getCallerUserRole(): Promise<UserRole>;
-    getMessageTTL(): Promise<Time>;
+    getMessageTTL(roomId: string): Promise<Time>;
     getMessages(roomId: string): Promise<Array<MessageView>>;
+    getMessagesBefore(roomId: string, beforeId: bigint | null, limit: bigint): Promise<MessagesPage>;
+    getMyPseudonym(roomId: string): Promise<string>;
+    getMyStickerPacks(): Promise<Array<StickerPack>>;
+    getRoomCustomEmoji(roomId: string): Promise<Array<CustomEmoji>>;
+    getRoomEventSeq(roomId: string): Promise<bigint>;
+    getRoomEvents(roomId: string, sinceSeq: bigint): Promise<RoomEventsPage>;
+    getRoomSettings(roomId: string): Promise<RoomSettings | null>;
+    getRoomStickerPacks(roomId: string): Promise<Array<SharedStickerPack>>;
     getUserProfile(user: Principal): Promise<UserProfile | null>;
+    importStickerPack(roomId: string, sharedPackId: bigint): Promise<bigint>;
     isCallerAdmin(): Promise<boolean>;
+    markMessageViewed(roomId: string, messageId: bigint): Promise<MessageView | null>;
     pruneExpiredMessages(): Promise<void>;
-    removeReaction(roomId: string, messageId: bigint, userId: string, emoji: string): Promise<boolean>;
+    removeCustomEmoji(roomId: string, shortcode: string): Promise<void>;
+    removeReaction(roomId: string, messageId: bigint, emoji: string): Promise<boolean>;
+    removeSticker(packId: bigint, stickerId: bigint): Promise<void>;
+    renameStickerPack(packId: bigint, name: string): Promise<void>;
     roomExists(roomId: string): Promise<boolean>;
     saveCallerUserProfile(profile: UserProfile): Promise<void>;
-    sendMessage(roomId: string, content: string, nickname: string, userId: string, replyToId: bigint | null, image: ExternalBlob | null, video: ExternalBlob | null, audio: ExternalBlob | null, nonce: string): Promise<bigint>;
+    sendMessage(roomId: string, content: string, nickname: string, replyToId: bigint | null, attachments: Array<Attachment>, mediaKey: string | null, selfDestruct: SelfDestruct | null, nonce: string): Promise<bigint>;
+    setStickerLifetime(packId: bigint, stickerId: bigint, lifetime: Time | null): Promise<void>;
+    shareStickerPack(roomId: string, packId: bigint): Promise<bigint>;
+    transform(input: TransformationInput): Promise<TransformationOutput>;
+    unshareStickerPack(roomId: string, sharedPackId: bigint): Promise<void>;
 }
-import type { ExternalBlob as _ExternalBlob, MessageView as _MessageView, Reaction as _Reaction, Time as _Time, UserProfile as _UserProfile, UserRole as _UserRole, _CaffeineStorageRefillInformation as __CaffeineStorageRefillInformation, _CaffeineStorageRefillResult as __CaffeineStorageRefillResult } from "./declarations/backend.did.d.ts";
+import type { Attachment as _Attachment, AttachmentKind as _AttachmentKind, CustomEmoji as _CustomEmoji, ExternalBlob as _ExternalBlob, MessageView as _MessageView, MessagesPage as _MessagesPage, Reaction as _Reaction, RoomEventKind as _RoomEventKind, RoomEncryption as _RoomEncryption, RoomEventView as _RoomEventView, RoomEventsPage as _RoomEventsPage, RoomSettings as _RoomSettings, SelfDestruct as _SelfDestruct, SharedStickerPack as _SharedStickerPack, Sticker as _Sticker, StickerPack as _StickerPack, Time as _Time, UserProfile as _UserProfile, UserRole as _UserRole, _CaffeineStorageRefillInformation as __CaffeineStorageRefillInformation, _CaffeineStorageRefillResult as __CaffeineStorageRefillResult } from "./declarations/backend.did.d.ts";
 export class Backend implements backendInterface {
     constructor(private actor: ActorSubclass<_SERVICE>, private _uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, private _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, private processError?: (error: unknown) => never){}
     async _caffeineStorageBlobIsLive(arg0: Uint8Array): Promise<boolean> {
@@ -254,17 +385,45 @@ export class Backend implements backendInterface {
             return result;
         }
     }
-    async addReaction(arg0: string, arg1: bigint, arg2: string, arg3: string): Promise<boolean> {
+    async addCustomEmoji(arg0: string, arg1: string, arg2: ExternalBlob, arg3: string, arg4: bigint): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.addReaction(arg0, arg1, arg2, arg3);
+                const result = await this.actor.addCustomEmoji(arg0, arg1, await to_candid_ExternalBlob_n11(this._uploadFile, this._downloadFile, arg2), arg3, arg4);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.addReaction(arg0, arg1, arg2, arg3);
+            const result = await this.actor.addCustomEmoji(arg0, arg1, await to_candid_ExternalBlob_n11(this._uploadFile, this._downloadFile, arg2), arg3, arg4);
+            return result;
+        }
+    }
+    async addReaction(arg0: string, arg1: bigint, arg2: string): Promise<boolean> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.addReaction(arg0, arg1, arg2);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.addReaction(arg0, arg1, arg2);
+            return result;
+        }
+    }
+    async addSticker(arg0: bigint, arg1: ExternalBlob, arg2: string, arg3: bigint, arg4: Time | null): Promise<bigint> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.addSticker(arg0, await to_candid_ExternalBlob_n11(this._uploadFile, this._downloadFile, arg1), arg2, arg3, to_candid_opt_n21(this._uploadFile, this._downloadFile, arg4));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.addSticker(arg0, await to_candid_ExternalBlob_n11(this._uploadFile, this._downloadFile, arg1), arg2, arg3, to_candid_opt_n21(this._uploadFile, this._downloadFile, arg4));
             return result;
         }
     }
@@ -282,45 +441,87 @@ export class Backend implements backendInterface {
             return result;
         }
     }
-    async createRoom(arg0: string): Promise<string> {
+    async createRoom(arg0: string, arg1: RoomSettings): Promise<string> {
         if (this.processError) {
             try {
-                const result = await this.actor.createRoom(arg0);
+                const result = await this.actor.createRoom(arg0, to_candid_RoomSettings_n32(this._uploadFile, this._downloadFile, arg1));
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.createRoom(arg0);
+            const result = await this.actor.createRoom(arg0, to_candid_RoomSettings_n32(this._uploadFile, this._downloadFile, arg1));
             return result;
         }
     }
-    async deleteMessage(arg0: string, arg1: bigint, arg2: string): Promise<boolean> {
+    async createStickerPack(arg0: string): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.deleteMessage(arg0, arg1, arg2);
+                const result = await this.actor.createStickerPack(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.deleteMessage(arg0, arg1, arg2);
+            const result = await this.actor.createStickerPack(arg0);
             return result;
         }
     }
-    async editMessage(arg0: string, arg1: bigint, arg2: string, arg3: string, arg4: ExternalBlob | null, arg5: ExternalBlob | null, arg6: ExternalBlob | null): Promise<boolean> {
+    async deleteMessage(arg0: string, arg1: bigint): Promise<boolean> {
         if (this.processError) {
             try {
-                const result = await this.actor.editMessage(arg0, arg1, arg2, arg3, await to_candid_opt_n10(this._uploadFile, this._downloadFile, arg4), await to_candid_opt_n10(this._uploadFile, this._downloadFile, arg5), await to_candid_opt_n10(this._uploadFile, this._downloadFile, arg6));
+                const result = await this.actor.deleteMessage(arg0, arg1);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.editMessage(arg0, arg1, arg2, arg3, await to_candid_opt_n10(this._uploadFile, this._downloadFile, arg4), await to_candid_opt_n10(this._uploadFile, this._downloadFile, arg5), await to_candid_opt_n10(this._uploadFile, this._downloadFile, arg6));
+            const result = await this.actor.deleteMessage(arg0, arg1);
+            return result;
+        }
+    }
+    async deleteStickerPack(arg0: bigint): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.deleteStickerPack(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.deleteStickerPack(arg0);
+            return result;
+        }
+    }
+    async editMessage(arg0: string, arg1: bigint, arg2: string, arg3: Array<Attachment>, arg4: string | null): Promise<boolean> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.editMessage(arg0, arg1, arg2, await to_candid_vec_n50(this._uploadFile, this._downloadFile, arg3), to_candid_opt_n38(this._uploadFile, this._downloadFile, arg4));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.editMessage(arg0, arg1, arg2, await to_candid_vec_n50(this._uploadFile, this._downloadFile, arg3), to_candid_opt_n38(this._uploadFile, this._downloadFile, arg4));
+            return result;
+        }
+    }
+    async fetchExternalImage(arg0: string, arg1: bigint, arg2: string): Promise<Uint8Array> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.fetchExternalImage(arg0, arg1, arg2);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.fetchExternalImage(arg0, arg1, arg2);
             return result;
         }
     }
@@ -338,6 +539,20 @@ export class Backend implements backendInterface {
             return from_candid_vec_n12(this._uploadFile, this._downloadFile, result);
         }
     }
+    async getCachedExternalImage(arg0: string, arg1: bigint, arg2: string): Promise<Uint8Array | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getCachedExternalImage(arg0, arg1, arg2);
+                return from_candid_opt_n55(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getCachedExternalImage(arg0, arg1, arg2);
+            return from_candid_opt_n55(this._uploadFile, this._downloadFile, result);
+        }
+    }
     async getCallerUserProfile(): Promise<UserProfile | null> {
         if (this.processError) {
             try {
@@ -366,17 +581,17 @@ export class Backend implements backendInterface {
             return from_candid_UserRole_n19(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getMessageTTL(): Promise<Time> {
+    async getMessageTTL(arg0: string): Promise<Time> {
         if (this.processError) {
             try {
-                const result = await this.actor.getMessageTTL();
+                const result = await this.actor.getMessageTTL(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getMessageTTL();
+            const result = await this.actor.getMessageTTL(arg0);
             return result;
         }
     }
@@ -394,6 +609,118 @@ export class Backend implements backendInterface {
             return from_candid_vec_n12(this._uploadFile, this._downloadFile, result);
         }
     }
+    async getMessagesBefore(arg0: string, arg1: bigint | null, arg2: bigint): Promise<MessagesPage> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getMessagesBefore(arg0, to_candid_opt_n21(this._uploadFile, this._downloadFile, arg1), arg2);
+                return from_candid_MessagesPage_n30(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getMessagesBefore(arg0, to_candid_opt_n21(this._uploadFile, this._downloadFile, arg1), arg2);
+            return from_candid_MessagesPage_n30(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getMyPseudonym(arg0: string): Promise<string> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getMyPseudonym(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getMyPseudonym(arg0);
+            return result;
+        }
+    }
+    async getMyStickerPacks(): Promise<Array<StickerPack>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getMyStickerPacks();
+                return await from_candid_vec_n56(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getMyStickerPacks();
+            return await from_candid_vec_n56(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getRoomCustomEmoji(arg0: string): Promise<Array<CustomEmoji>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getRoomCustomEmoji(arg0);
+                return await from_candid_vec_n65(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getRoomCustomEmoji(arg0);
+            return await from_candid_vec_n65(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getRoomEventSeq(arg0: string): Promise<bigint> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getRoomEventSeq(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getRoomEventSeq(arg0);
+            return result;
+        }
+    }
+    async getRoomEvents(arg0: string, arg1: bigint): Promise<RoomEventsPage> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getRoomEvents(arg0, arg1);
+                return from_candid_RoomEventsPage_n22(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getRoomEvents(arg0, arg1);
+            return from_candid_RoomEventsPage_n22(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getRoomSettings(arg0: string): Promise<RoomSettings | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getRoomSettings(arg0);
+                return from_candid_opt_n34(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getRoomSettings(arg0);
+            return from_candid_opt_n34(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getRoomStickerPacks(arg0: string): Promise<Array<SharedStickerPack>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getRoomStickerPacks(arg0);
+                return await from_candid_vec_n62(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getRoomStickerPacks(arg0);
+            return await from_candid_vec_n62(this._uploadFile, this._downloadFile, result);
+        }
+    }
     async getUserProfile(arg0: Principal): Promise<UserProfile | null> {
         if (this.processError) {
             try {
@@ -408,6 +735,20 @@ export class Backend implements backendInterface {
             return from_candid_opt_n18(this._uploadFile, this._downloadFile, result);
         }
     }
+    async importStickerPack(arg0: string, arg1: bigint): Promise<bigint> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.importStickerPack(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.importStickerPack(arg0, arg1);
+            return result;
+        }
+    }
     async isCallerAdmin(): Promise<boolean> {
         if (this.processError) {
             try {
@@ -422,6 +763,20 @@ export class Backend implements backendInterface {
             return result;
         }
     }
+    async markMessageViewed(arg0: string, arg1: bigint): Promise<MessageView | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.markMessageViewed(arg0, arg1);
+                return await from_candid_opt_n28(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.markMessageViewed(arg0, arg1);
+            return await from_candid_opt_n28(this._uploadFile, this._downloadFile, result);
+        }
+    }
     async pruneExpiredMessages(): Promise<void> {
         if (this.processError) {
             try {
@@ -436,17 +791,59 @@ export class Backend implements backendInterface {
             return result;
         }
     }
-    async removeReaction(arg0: string, arg1: bigint, arg2: string, arg3: string): Promise<boolean> {
+    async removeCustomEmoji(arg0: string, arg1: string): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.removeReaction(arg0, arg1, arg2, arg3);
+                const result = await this.actor.removeCustomEmoji(arg0, arg1);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.removeReaction(arg0, arg1, arg2, arg3);
+            const result = await this.actor.removeCustomEmoji(arg0, arg1);
+            return result;
+        }
+    }
+    async removeReaction(arg0: string, arg1: bigint, arg2: string): Promise<boolean> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.removeReaction(arg0, arg1, arg2);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.removeReaction(arg0, arg1, arg2);
+            return result;
+        }
+    }
+    async removeSticker(arg0: bigint, arg1: bigint): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.removeSticker(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.removeSticker(arg0, arg1);
+            return result;
+        }
+    }
+    async renameStickerPack(arg0: bigint, arg1: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.renameStickerPack(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.renameStickerPack(arg0, arg1);
             return result;
         }
     }
@@ -478,17 +875,73 @@ export class Backend implements backendInterface {
             return result;
         }
     }
-    async sendMessage(arg0: string, arg1: string, arg2: string, arg3: string, arg4: bigint | null, arg5: ExternalBlob | null, arg6: ExternalBlob | null, arg7: ExternalBlob | null, arg8: string): Promise<bigint> {
+    async sendMessage(arg0: string, arg1: string, arg2: string, arg3: bigint | null, arg4: Array<Attachment>, arg5: string | null, arg6: SelfDestruct | null, arg7: string): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.sendMessage(arg0, arg1, arg2, arg3, to_candid_opt_n21(this._uploadFile, this._downloadFile, arg4), await to_candid_opt_n10(this._uploadFile, this._downloadFile, arg5), await to_candid_opt_n10(this._uploadFile, this._downloadFile, arg6), await to_candid_opt_n10(this._uploadFile, this._downloadFile, arg7), arg8);
+                const result = await this.actor.sendMessage(arg0, arg1, arg2, to_candid_opt_n21(this._uploadFile, this._downloadFile, arg3), await to_candid_vec_n50(this._uploadFile, this._downloadFile, arg4), to_candid_opt_n38(this._uploadFile, this._downloadFile, arg5), to_candid_opt_n42(this._uploadFile, this._downloadFile, arg6), arg7);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.sendMessage(arg0, arg1, arg2, arg3, to_candid_opt_n21(this._uploadFile, this._downloadFile, arg4), await to_candid_opt_n10(this._uploadFile, this._downloadFile, arg5), await to_candid_opt_n10(this._uploadFile, this._downloadFile, arg6), await to_candid_opt_n10(this._uploadFile, this._downloadFile, arg7), arg8);
+            const result = await this.actor.sendMessage(arg0, arg1, arg2, to_candid_opt_n21(this._uploadFile, this._downloadFile, arg3), await to_candid_vec_n50(this._uploadFile, this._downloadFile, arg4), to_candid_opt_n38(this._uploadFile, this._downloadFile, arg5), to_candid_opt_n42(this._uploadFile, this._downloadFile, arg6), arg7);
+            return result;
+        }
+    }
+    async setStickerLifetime(arg0: bigint, arg1: bigint, arg2: Time | null): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setStickerLifetime(arg0, arg1, to_candid_opt_n21(this._uploadFile, this._downloadFile, arg2));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setStickerLifetime(arg0, arg1, to_candid_opt_n21(this._uploadFile, this._downloadFile, arg2));
+            return result;
+        }
+    }
+    async shareStickerPack(arg0: string, arg1: bigint): Promise<bigint> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.shareStickerPack(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.shareStickerPack(arg0, arg1);
+            return result;
+        }
+    }
+    async transform(arg0: TransformationInput): Promise<TransformationOutput> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.transform(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.transform(arg0);
+            return result;
+        }
+    }
+    async unshareStickerPack(arg0: string, arg1: bigint): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.unshareStickerPack(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.unshareStickerPack(arg0, arg1);
             return result;
         }
     }
@@ -499,24 +952,73 @@ async function from_candid_ExternalBlob_n16(_uploadFile: (file: ExternalBlob) =>
 async function from_candid_MessageView_n13(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _MessageView): Promise<MessageView> {
     return await from_candid_record_n14(_uploadFile, _downloadFile, value);
 }
+async function from_candid_MessagesPage_n30(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _MessagesPage): Promise<MessagesPage> {
+    return await from_candid_record_n31(_uploadFile, _downloadFile, value);
+}
+function from_candid_RoomEventKind_n27(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _RoomEventKind): RoomEventKind {
+    return from_candid_variant_n29(_uploadFile, _downloadFile, value);
+}
+async function from_candid_RoomEventView_n25(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _RoomEventView): Promise<RoomEventView> {
+    return await from_candid_record_n26(_uploadFile, _downloadFile, value);
+}
+async function from_candid_RoomEventsPage_n22(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _RoomEventsPage): Promise<RoomEventsPage> {
+    return await from_candid_record_n23(_uploadFile, _downloadFile, value);
+}
+function from_candid_RoomSettings_n35(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _RoomSettings): RoomSettings {
+    return from_candid_record_n36(_uploadFile, _downloadFile, value);
+}
 function from_candid_UserRole_n19(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserRole): UserRole {
     return from_candid_variant_n20(_uploadFile, _downloadFile, value);
 }
 function from_candid__CaffeineStorageRefillResult_n4(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: __CaffeineStorageRefillResult): _CaffeineStorageRefillResult {
     return from_candid_record_n5(_uploadFile, _downloadFile, value);
 }
-async function from_candid_opt_n15(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_ExternalBlob]): Promise<ExternalBlob | null> {
-    return value.length === 0 ? null : await from_candid_ExternalBlob_n16(_uploadFile, _downloadFile, value[0]);
-}
 function from_candid_opt_n17(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [string]): string | null {
     return value.length === 0 ? null : value[0];
 }
 function from_candid_opt_n18(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_UserProfile]): UserProfile | null {
     return value.length === 0 ? null : value[0];
 }
+async function from_candid_opt_n28(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_MessageView]): Promise<MessageView | null> {
+    return value.length === 0 ? null : await from_candid_MessageView_n13(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n34(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_RoomSettings]): RoomSettings | null {
+    return value.length === 0 ? null : from_candid_RoomSettings_n35(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n37(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_RoomEncryption]): RoomEncryption | null {
+    return value.length === 0 ? null : value[0];
+}
 function from_candid_opt_n6(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [boolean]): boolean | null {
     return value.length === 0 ? null : value[0];
 }
+function from_candid_SelfDestruct_n40(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _SelfDestruct): SelfDestruct {
+    return from_candid_variant_n41(_uploadFile, _downloadFile, value);
+}
+function from_candid_opt_n39(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_SelfDestruct]): SelfDestruct | null {
+    return value.length === 0 ? null : from_candid_SelfDestruct_n40(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_variant_n41(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    viewOnce: null;
+} | {
+    afterSeconds: bigint;
+}): {
+    __kind__: "viewOnce";
+    viewOnce: null;
+} | {
+    __kind__: "afterSeconds";
+    afterSeconds: bigint;
+} {
+    return "viewOnce" in value ? {
+        __kind__: "viewOnce",
+        viewOnce: value.viewOnce
+    } : "afterSeconds" in value ? {
+        __kind__: "afterSeconds",
+        afterSeconds: value.afterSeconds
+    } : value;
+}
+function from_candid_opt_n55(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [Uint8Array]): Uint8Array | null {
+    return value.length === 0 ? null : value[0];
+}
 function from_candid_opt_n7(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [bigint]): bigint | null {
     return value.length === 0 ? null : value[0];
 }
@@ -525,26 +1027,30 @@ async function from_candid_record_n14(_uploadFile: (file: ExternalBlob) => Promi
     content: string;
     nickname: string;
     owner: string;
-    audioUrl: [] | [_ExternalBlob];
-    imageUrl: [] | [_ExternalBlob];
+    attachments: Array<_Attachment>;
     isEdited: boolean;
     nonce: [] | [string];
+    mediaKey: [] | [string];
+    selfDestruct: [] | [_SelfDestruct];
+    firstViewedAt: [] | [_Time];
+    isConsumed: boolean;
     timestamp: _Time;
     replyToId: [] | [bigint];
-    videoUrl: [] | [_ExternalBlob];
     reactions: Array<_Reaction>;
 }): Promise<{
     id: bigint;
     content: string;
     nickname: string;
     owner: string;
-    audioUrl?: ExternalBlob;
-    imageUrl?: ExternalBlob;
+    attachments: Array<Attachment>;
     isEdited: boolean;
     nonce?: string;
+    mediaKey?: string;
+    selfDestruct?: SelfDestruct;
+    firstViewedAt?: Time;
+    isConsumed: boolean;
     timestamp: Time;
     replyToId?: bigint;
-    videoUrl?: ExternalBlob;
     reactions: Array<Reaction>;
 }> {
     return {
@@ -552,16 +1058,75 @@ async function from_candid_record_n14(_uploadFile: (file: ExternalBlob) => Promi
         content: value.content,
         nickname: value.nickname,
         owner: value.owner,
-        audioUrl: record_opt_to_undefined(await from_candid_opt_n15(_uploadFile, _downloadFile, value.audioUrl)),
-        imageUrl: record_opt_to_undefined(await from_candid_opt_n15(_uploadFile, _downloadFile, value.imageUrl)),
+        attachments: await from_candid_vec_n45(_uploadFile, _downloadFile, value.attachments),
         isEdited: value.isEdited,
         nonce: record_opt_to_undefined(from_candid_opt_n17(_uploadFile, _downloadFile, value.nonce)),
+        mediaKey: record_opt_to_undefined(from_candid_opt_n17(_uploadFile, _downloadFile, value.mediaKey)),
+        selfDestruct: record_opt_to_undefined(from_candid_opt_n39(_uploadFile, _downloadFile, value.selfDestruct)),
+        firstViewedAt: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.firstViewedAt)),
+        isConsumed: value.isConsumed,
         timestamp: value.timestamp,
         replyToId: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.replyToId)),
-        videoUrl: record_opt_to_undefined(await from_candid_opt_n15(_uploadFile, _downloadFile, value.videoUrl)),
         reactions: value.reactions
     };
 }
+async function from_candid_record_n23(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    latestSeq: bigint;
+    events: Array<_RoomEventView>;
+}): Promise<{
+    latestSeq: bigint;
+    events: Array<RoomEventView>;
+}> {
+    return {
+        latestSeq: value.latestSeq,
+        events: await from_candid_vec_n24(_uploadFile, _downloadFile, value.events)
+    };
+}
+async function from_candid_record_n26(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    seq: bigint;
+    kind: _RoomEventKind;
+    messageId: bigint;
+    message: [] | [_MessageView];
+}): Promise<{
+    seq: bigint;
+    kind: RoomEventKind;
+    messageId: bigint;
+    message?: MessageView;
+}> {
+    return {
+        seq: value.seq,
+        kind: from_candid_RoomEventKind_n27(_uploadFile, _downloadFile, value.kind),
+        messageId: value.messageId,
+        message: record_opt_to_undefined(await from_candid_opt_n28(_uploadFile, _downloadFile, value.message))
+    };
+}
+async function from_candid_record_n31(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    hasMore: boolean;
+    messages: Array<_MessageView>;
+}): Promise<{
+    hasMore: boolean;
+    messages: Array<MessageView>;
+}> {
+    return {
+        hasMore: value.hasMore,
+        messages: await from_candid_vec_n12(_uploadFile, _downloadFile, value.messages)
+    };
+}
+function from_candid_record_n36(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    encryption: [] | [_RoomEncryption];
+    maxFileSize: bigint;
+    messageTTL: _Time;
+}): {
+    encryption?: RoomEncryption;
+    maxFileSize: bigint;
+    messageTTL: Time;
+} {
+    return {
+        encryption: record_opt_to_undefined(from_candid_opt_n37(_uploadFile, _downloadFile, value.encryption)),
+        maxFileSize: value.maxFileSize,
+        messageTTL: value.messageTTL
+    };
+}
 function from_candid_record_n5(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     success: [] | [boolean];
     topped_up_amount: [] | [bigint];
@@ -583,12 +1148,31 @@ function from_candid_variant_n20(_uploadFile: (file: ExternalBlob) => Promise<Ui
 }): UserRole {
     return "admin" in value ? UserRole.admin : "user" in value ? UserRole.user : "guest" in value ? UserRole.guest : value;
 }
+function from_candid_variant_n29(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    created: null;
+} | {
+    edited: null;
+} | {
+    deleted: null;
+} | {
+    reacted: null;
+} | {
+    viewed: null;
+}): RoomEventKind {
+    return "created" in value ? RoomEventKind.created : "edited" in value ? RoomEventKind.edited : "deleted" in value ? RoomEventKind.deleted : "reacted" in value ? RoomEventKind.reacted : "viewed" in value ? RoomEventKind.viewed : value;
+}
 async function from_candid_vec_n12(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_MessageView>): Promise<Array<MessageView>> {
     return await Promise.all(value.map(async (x)=>await from_candid_MessageView_n13(_uploadFile, _downloadFile, x)));
 }
+async function from_candid_vec_n24(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_RoomEventView>): Promise<Array<RoomEventView>> {
+    return await Promise.all(value.map(async (x)=>await from_candid_RoomEventView_n25(_uploadFile, _downloadFile, x)));
+}
 async function to_candid_ExternalBlob_n11(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ExternalBlob): Promise<_ExternalBlob> {
     return await _uploadFile(value);
 }
+function to_candid_RoomSettings_n32(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: RoomSettings): _RoomSettings {
+    return to_candid_record_n33(_uploadFile, _downloadFile, value);
+}
 function to_candid_UserRole_n8(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserRole): _UserRole {
     return to_candid_variant_n9(_uploadFile, _downloadFile, value);
 }
@@ -598,12 +1182,50 @@ function to_candid__CaffeineStorageRefillInformation_n2(_uploadFile: (file: Exte
 function to_candid_opt_n1(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _CaffeineStorageRefillInformation | null): [] | [__CaffeineStorageRefillInformation] {
     return value === null ? candid_none() : candid_some(to_candid__CaffeineStorageRefillInformation_n2(_uploadFile, _downloadFile, value));
 }
-async function to_candid_opt_n10(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ExternalBlob | null): Promise<[] | [_ExternalBlob]> {
-    return value === null ? candid_none() : candid_some(await to_candid_ExternalBlob_n11(_uploadFile, _downloadFile, value));
-}
 function to_candid_opt_n21(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: bigint | null): [] | [bigint] {
     return value === null ? candid_none() : candid_some(value);
 }
+function to_candid_record_n33(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    encryption?: RoomEncryption;
+    maxFileSize: bigint;
+    messageTTL: Time;
+}): {
+    encryption: [] | [_RoomEncryption];
+    maxFileSize: bigint;
+    messageTTL: _Time;
+} {
+    return {
+        encryption: value.encryption ? candid_some(value.encryption) : candid_none(),
+        maxFileSize: value.maxFileSize,
+        messageTTL: value.messageTTL
+    };
+}
+function to_candid_SelfDestruct_n43(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: SelfDestruct): _SelfDestruct {
+    return to_candid_variant_n44(_uploadFile, _downloadFile, value);
+}
+function to_candid_opt_n42(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: SelfDestruct | null): [] | [_SelfDestruct] {
+    return value === null ? candid_none() : candid_some(to_candid_SelfDestruct_n43(_uploadFile, _downloadFile, value));
+}
+function to_candid_variant_n44(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    __kind__: "viewOnce";
+    viewOnce: null;
+} | {
+    __kind__: "afterSeconds";
+    afterSeconds: bigint;
+}): {
+    viewOnce: null;
+} | {
+    afterSeconds: bigint;
+} {
+    return value.__kind__ === "viewOnce" ? {
+        viewOnce: value.viewOnce
+    } : value.__kind__ === "afterSeconds" ? {
+        afterSeconds: value.afterSeconds
+    } : value;
+}
+function to_candid_opt_n38(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: string | null): [] | [string] {
+    return value === null ? candid_none() : candid_some(value);
+}
 function to_candid_record_n3(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     proposed_top_up_amount?: bigint;
 }): {
@@ -628,6 +1250,213 @@ function to_candid_variant_n9(_uploadFile: (file: ExternalBlob) => Promise<Uint8
         guest: null
     } : value;
 }
+async function from_candid_vec_n45(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Attachment>): Promise<Array<Attachment>> {
+    return await Promise.all(value.map(async (x)=>await from_candid_Attachment_n46(_uploadFile, _downloadFile, x)));
+}
+async function from_candid_Attachment_n46(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Attachment): Promise<Attachment> {
+    return await from_candid_record_n47(_uploadFile, _downloadFile, value);
+}
+async function from_candid_record_n47(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    blob: _ExternalBlob;
+    height: [] | [bigint];
+    kind: _AttachmentKind;
+    size: bigint;
+    mimeType: string;
+    fileName: [] | [string];
+    width: [] | [bigint];
+    durationMs: [] | [bigint];
+}): Promise<{
+    blob: ExternalBlob;
+    height?: bigint;
+    kind: AttachmentKind;
+    size: bigint;
+    mimeType: string;
+    fileName?: string;
+    width?: bigint;
+    durationMs?: bigint;
+}> {
+    return {
+        blob: await from_candid_ExternalBlob_n16(_uploadFile, _downloadFile, value.blob),
+        height: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.height)),
+        kind: from_candid_AttachmentKind_n48(_uploadFile, _downloadFile, value.kind),
+        size: value.size,
+        mimeType: value.mimeType,
+        fileName: record_opt_to_undefined(from_candid_opt_n17(_uploadFile, _downloadFile, value.fileName)),
+        width: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.width)),
+        durationMs: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.durationMs))
+    };
+}
+function from_candid_AttachmentKind_n48(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _AttachmentKind): AttachmentKind {
+    return from_candid_variant_n49(_uploadFile, _downloadFile, value);
+}
+function from_candid_variant_n49(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    audio: null;
+} | {
+    video: null;
+} | {
+    file: null;
+} | {
+    image: null;
+}): AttachmentKind {
+    return "audio" in value ? AttachmentKind.audio : "video" in value ? AttachmentKind.video : "file" in value ? AttachmentKind.file : "image" in value ? AttachmentKind.image : value;
+}
+async function to_candid_vec_n50(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<Attachment>): Promise<Array<_Attachment>> {
+    return await Promise.all(value.map(async (x)=>await to_candid_Attachment_n51(_uploadFile, _downloadFile, x)));
+}
+async function to_candid_Attachment_n51(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Attachment): Promise<_Attachment> {
+    return await to_candid_record_n52(_uploadFile, _downloadFile, value);
+}
+async function to_candid_record_n52(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    blob: ExternalBlob;
+    height?: bigint;
+    kind: AttachmentKind;
+    size: bigint;
+    mimeType: string;
+    fileName?: string;
+    width?: bigint;
+    durationMs?: bigint;
+}): Promise<{
+    blob: _ExternalBlob;
+    height: [] | [bigint];
+    kind: _AttachmentKind;
+    size: bigint;
+    mimeType: string;
+    fileName: [] | [string];
+    width: [] | [bigint];
+    durationMs: [] | [bigint];
+}> {
+    return {
+        blob: await to_candid_ExternalBlob_n11(_uploadFile, _downloadFile, value.blob),
+        height: value.height ? candid_some(value.height) : candid_none(),
+        kind: to_candid_AttachmentKind_n53(_uploadFile, _downloadFile, value.kind),
+        size: value.size,
+        mimeType: value.mimeType,
+        fileName: value.fileName ? candid_some(value.fileName) : candid_none(),
+        width: value.width ? candid_some(value.width) : candid_none(),
+        durationMs: value.durationMs ? candid_some(value.durationMs) : candid_none()
+    };
+}
+function to_candid_AttachmentKind_n53(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: AttachmentKind): _AttachmentKind {
+    return to_candid_variant_n54(_uploadFile, _downloadFile, value);
+}
+function to_candid_variant_n54(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: AttachmentKind): {
+    audio: null;
+} | {
+    video: null;
+} | {
+    file: null;
+} | {
+    image: null;
+} {
+    return value == AttachmentKind.audio ? {
+        audio: null
+    } : value == AttachmentKind.video ? {
+        video: null
+    } : value == AttachmentKind.file ? {
+        file: null
+    } : value == AttachmentKind.image ? {
+        image: null
+    } : value;
+}
+async function from_candid_vec_n56(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_StickerPack>): Promise<Array<StickerPack>> {
+    return await Promise.all(value.map(async (x)=>await from_candid_StickerPack_n57(_uploadFile, _downloadFile, x)));
+}
+async function from_candid_StickerPack_n57(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _StickerPack): Promise<StickerPack> {
+    return await from_candid_record_n58(_uploadFile, _downloadFile, value);
+}
+async function from_candid_record_n58(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: bigint;
+    name: string;
+    stickers: Array<_Sticker>;
+}): Promise<{
+    id: bigint;
+    name: string;
+    stickers: Array<Sticker>;
+}> {
+    return {
+        id: value.id,
+        name: value.name,
+        stickers: await from_candid_vec_n59(_uploadFile, _downloadFile, value.stickers)
+    };
+}
+async function from_candid_vec_n59(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Sticker>): Promise<Array<Sticker>> {
+    return await Promise.all(value.map(async (x)=>await from_candid_Sticker_n60(_uploadFile, _downloadFile, x)));
+}
+async function from_candid_Sticker_n60(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Sticker): Promise<Sticker> {
+    return await from_candid_record_n61(_uploadFile, _downloadFile, value);
+}
+async function from_candid_record_n61(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: bigint;
+    expiresAt: [] | [_Time];
+    blob: _ExternalBlob;
+    mimeType: string;
+}): Promise<{
+    id: bigint;
+    expiresAt?: Time;
+    blob: ExternalBlob;
+    mimeType: string;
+}> {
+    return {
+        id: value.id,
+        expiresAt: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.expiresAt)),
+        blob: await from_candid_ExternalBlob_n16(_uploadFile, _downloadFile, value.blob),
+        mimeType: value.mimeType
+    };
+}
+async function from_candid_vec_n62(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_SharedStickerPack>): Promise<Array<SharedStickerPack>> {
+    return await Promise.all(value.map(async (x)=>await from_candid_SharedStickerPack_n63(_uploadFile, _downloadFile, x)));
+}
+async function from_candid_SharedStickerPack_n63(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _SharedStickerPack): Promise<SharedStickerPack> {
+    return await from_candid_record_n64(_uploadFile, _downloadFile, value);
+}
+async function from_candid_record_n64(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: bigint;
+    name: string;
+    sharedAt: _Time;
+    stickers: Array<_Sticker>;
+    sharedBy: string;
+}): Promise<{
+    id: bigint;
+    name: string;
+    sharedAt: Time;
+    stickers: Array<Sticker>;
+    sharedBy: string;
+}> {
+    return {
+        id: value.id,
+        name: value.name,
+        sharedAt: value.sharedAt,
+        stickers: await from_candid_vec_n59(_uploadFile, _downloadFile, value.stickers),
+        sharedBy: value.sharedBy
+    };
+}
+async function from_candid_vec_n65(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_CustomEmoji>): Promise<Array<CustomEmoji>> {
+    return await Promise.all(value.map(async (x)=>await from_candid_CustomEmoji_n66(_uploadFile, _downloadFile, x)));
+}
+async function from_candid_CustomEmoji_n66(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _CustomEmoji): Promise<CustomEmoji> {
+    return await from_candid_record_n67(_uploadFile, _downloadFile, value);
+}
+async function from_candid_record_n67(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    shortcode: string;
+    blob: _ExternalBlob;
+    addedAt: _Time;
+    addedBy: string;
+    mimeType: string;
+}): Promise<{
+    shortcode: string;
+    blob: ExternalBlob;
+    addedAt: Time;
+    addedBy: string;
+    mimeType: string;
+}> {
+    return {
+        shortcode: value.shortcode,
+        blob: await from_candid_ExternalBlob_n16(_uploadFile, _downloadFile, value.blob),
+        addedAt: value.addedAt,
+        addedBy: value.addedBy,
+        mimeType: value.mimeType
+    };
+}
 export interface CreateActorOptions {
     agent?: Agent;
     agentOptions?: HttpAgentOptions;
@@ -0,0 +1,311 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog';
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious, type CarouselApi } from '@/components/ui/carousel';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { Copy, Download, KeyRound, Loader2, MessageSquare, ShieldCheck, ZoomIn, ZoomOut } from 'lucide-react';
+import { toast } from 'sonner';
+import { AttachmentKind } from '../backend';
+import { useDecryptedMedia } from '../hooks/useDecryptedMedia';
+import { selectExternalMediaSource, useExternalMedia, useExternalMediaStore } from '../hooks/useExternalMedia';
+import { getTransformStyle, useZoomPan, ZOOM_STEP } from '../hooks/useZoomPan';
+import { copyImageToClipboard, downloadAttachment, downloadImageAsPNG } from '../utils/downloadMedia';
+import { getLinkDomain, getViewerFileName, type ExternalLink, type ViewerItem } from '../utils/mediaGallery';
+
+type ZoomPan = ReturnType<typeof useZoomPan>;
+
+// Slides this far from the visible one are loaded ahead; the rest stay empty, as a room can hold many images
+const PRELOAD_DISTANCE = 1;
+
+interface AlbumViewerProps {
+  items: ViewerItem[];
+  // Item shown first when the viewer opens
+  startIndex: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Offered when the items come from more than one message, e.g. the whole room
+  onJumpToMessage?: (messageId: bigint) => void;
+}
+
+function isVideo(item: ViewerItem): boolean {
+  return 'attachment' in item && item.attachment.kind === AttachmentKind.video;
+}
+
+function getMediaKey(item: ViewerItem): CryptoKey | undefined {
+  return 'attachment' in item && item.isEncrypted ? item.mediaCryptoKey : undefined;
+}
+
+function SlideMedia({ url, index, isVideoItem, isActive, zoom }: {
+  url: string;
+  index: number;
+  isVideoItem: boolean;
+  isActive: boolean;
+  // Only the visible image can be zoomed
+  zoom?: ZoomPan;
+}) {
+  if (isVideoItem) {
+    return (
+      <div className="flex h-[70vh] items-center justify-center">
+        {/* Only the visible slide keeps playing */}
+        <video
+          key={isActive ? 'active' : 'inactive'}
+          src={url}
+          controls
+          playsInline
+          preload="metadata"
+          className="max-h-full max-w-full"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={zoom?.containerRef}
+      {...zoom?.handlers}
+      className={`flex h-[70vh] items-center justify-center overflow-hidden touch-none ${
+        zoom && zoom.canZoomOut ? 'cursor-grab active:cursor-grabbing' : ''
+      }`}
+    >
+      <img
+        ref={zoom?.imageRef}
+        src={url}
+        alt={`Image ${index + 1}`}
+        className="max-h-full max-w-full object-contain select-none transition-transform duration-75 ease-out"
+        style={zoom ? getTransformStyle(zoom.transform) : undefined}
+        draggable={false}
+      />
+    </div>
+  );
+}
+
+function AttachmentSlide({ item, index, isActive, zoom }: {
+  item: Extract<ViewerItem, { attachment: unknown }>;
+  index: number;
+  isActive: boolean;
+  zoom?: ZoomPan;
+}) {
+  const { attachment, isEncrypted, mediaCryptoKey } = item;
+  const { url, isDecrypting } = useDecryptedMedia(attachment.blob, isEncrypted, mediaCryptoKey);
+  const isVideoItem = attachment.kind === AttachmentKind.video;
+
+  if (url) {
+    return <SlideMedia url={url} index={index} isVideoItem={isVideoItem} isActive={isActive} zoom={zoom} />;
+  }
+
+  return (
+    <div className="flex h-[70vh] items-center justify-center">
+      {isDecrypting ? (
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      ) : (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <KeyRound className="h-4 w-4" />
+          <span>This {isVideoItem ? 'video' : 'image'} could not be decrypted</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Linked images follow the privacy setting here too, so swiping never loads one the reader held back
+function ExternalSlide({ link, index, isActive, zoom }: { link: ExternalLink; index: number; isActive: boolean; zoom?: ZoomPan }) {
+  const { src, isLoading, loadDirectly } = useExternalMedia(link);
+
+  if (src) {
+    return <SlideMedia url={src} index={index} isVideoItem={false} isActive={isActive} zoom={zoom} />;
+  }
+
+  return (
+    <div className="flex h-[70vh] flex-col items-center justify-center gap-3 text-sm text-muted-foreground">
+      {isLoading ? (
+        <Loader2 className="h-6 w-6 animate-spin" />
+      ) : (
+        <>
+          <ShieldCheck className="h-6 w-6" />
+          <span>Image from {getLinkDomain(link.url)} not loaded to protect your privacy</span>
+          <Button variant="secondary" size="sm" onClick={loadDirectly}>
+            Load image
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
+
+function ToolbarButton({ label, onClick, disabled, children }: {
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClick} disabled={disabled} aria-label={label}>
+          {children}
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent>
+        <p>{label}</p>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+/**
+ * Full-size viewer for images and videos. Items are swiped through on touch
+ * screens, and changed with the arrow buttons or keys elsewhere. Images zoom
+ * with pinch, the mouse wheel, a double click or the +/- keys, and pan by
+ * dragging while zoomed.
+ */
+export default function AlbumViewer({ items, startIndex, open, onOpenChange, onJumpToMessage }: AlbumViewerProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [currentIndex, setCurrentIndex] = useState(startIndex);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const zoom = useZoomPan();
+  const { reset: resetZoom, isZoomed } = zoom;
+  const current = items[currentIndex];
+  const isCurrentImage = !!current && !isVideo(current);
+  // Linked images are downloaded and copied from where they were loaded, and not before
+  const currentExternalSource = useExternalMediaStore((state) =>
+    current && 'url' in current ? selectExternalMediaSource(state, current.url) : null
+  );
+  const canSaveCurrent = !!current && (!('url' in current) || currentExternalSource !== null);
+
+  // Swiping while zoomed would fight with panning the image
+  const canSwipe = useCallback(() => !isZoomed(), [isZoomed]);
+
+  useEffect(() => {
+    if (!api) return;
+    const handleSelect = () => {
+      setCurrentIndex(api.selectedScrollSnap());
+      resetZoom();
+    };
+    handleSelect();
+    api.on('select', handleSelect);
+    return () => {
+      api.off('select', handleSelect);
+    };
+  }, [api, resetZoom]);
+
+  // The carousel only reacts to arrow keys while it has focus, which the dialog's close button takes
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.defaultPrevented) return;
+    if (e.key === 'ArrowLeft') {
+      e.preventDefault();
+      api?.scrollPrev();
+    } else if (e.key === 'ArrowRight') {
+      e.preventDefault();
+      api?.scrollNext();
+    } else if (isCurrentImage && (e.key === '+' || e.key === '=')) {
+      e.preventDefault();
+      zoom.zoomBy(ZOOM_STEP);
+    } else if (isCurrentImage && e.key === '-') {
+      e.preventDefault();
+      zoom.zoomBy(1 / ZOOM_STEP);
+    } else if (isCurrentImage && e.key === '0') {
+      e.preventDefault();
+      resetZoom();
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!current) return;
+    setIsDownloading(true);
+    try {
+      if ('url' in current) {
+        if (currentExternalSource) await downloadImageAsPNG(currentExternalSource, getViewerFileName(current));
+      } else {
+        await downloadAttachment(current.attachment, getViewerFileName(current), getMediaKey(current));
+      }
+    } catch (error) {
+      console.error('Failed to download media:', error);
+      toast.error('Failed to download. Please try again.');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!current) return;
+    const source = 'url' in current ? currentExternalSource : current.attachment.blob;
+    if (!source) return;
+    try {
+      await copyImageToClipboard(source, getMediaKey(current));
+      toast.success('Image copied');
+    } catch (error) {
+      console.error('Failed to copy image:', error);
+      toast.error('This image could not be copied');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl p-4 sm:p-12" onKeyDown={handleKeyDown}>
+        <DialogTitle className="sr-only">Media</DialogTitle>
+        <DialogDescription className="sr-only">
+          Swipe or use the arrow keys to see the other items, and pinch, scroll or use +/- to zoom
+        </DialogDescription>
+        <Carousel setApi={setApi} opts={{ startIndex, watchDrag: canSwipe }} className="w-full">
+          <CarouselContent>
+            {items.map((item, index) => {
+              const isActive = index === currentIndex;
+              const slideZoom = isActive ? zoom : undefined;
+              return (
+                <CarouselItem key={item.key}>
+                  {Math.abs(index - currentIndex) > PRELOAD_DISTANCE ? (
+                    <div className="h-[70vh]" />
+                  ) : 'url' in item ? (
+                    <ExternalSlide link={item} index={index} isActive={isActive} zoom={slideZoom} />
+                  ) : (
+                    <AttachmentSlide item={item} index={index} isActive={isActive} zoom={slideZoom} />
+                  )}
+                </CarouselItem>
+              );
+            })}
+          </CarouselContent>
+          {items.length > 1 && (
+            <>
+              <CarouselPrevious className="hidden sm:flex" />
+              <CarouselNext className="hidden sm:flex" />
+            </>
+          )}
+        </Carousel>
+        <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+          <span className="tabular-nums">
+            {items.length > 1 ? `${currentIndex + 1} / ${items.length}` : ''}
+          </span>
+          <TooltipProvider>
+            <div className="flex items-center gap-1">
+              {isCurrentImage && (
+                <>
+                  <ToolbarButton label="Zoom out" onClick={() => zoom.zoomBy(1 / ZOOM_STEP)} disabled={!zoom.canZoomOut}>
+                    <ZoomOut className="h-4 w-4" />
+                  </ToolbarButton>
+                  <ToolbarButton label="Zoom in" onClick={() => zoom.zoomBy(ZOOM_STEP)} disabled={!zoom.canZoomIn}>
+                    <ZoomIn className="h-4 w-4" />
+                  </ToolbarButton>
+                  <ToolbarButton label="Copy image" onClick={handleCopy} disabled={!canSaveCurrent}>
+                    <Copy className="h-4 w-4" />
+                  </ToolbarButton>
+                </>
+              )}
+              {onJumpToMessage && current && (
+                <ToolbarButton label="Show in chat" onClick={() => onJumpToMessage(current.messageId)}>
+                  <MessageSquare className="h-4 w-4" />
+                </ToolbarButton>
+              )}
+              <ToolbarButton
+                label={isCurrentImage ? 'Download as PNG' : 'Download as MP4'}
+                onClick={handleDownload}
+                disabled={isDownloading || !canSaveCurrent}
+              >
+                {isDownloading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+              </ToolbarButton>
+            </div>
+          </TooltipProvider>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,9 +3,11 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Mic, Square, Play, Pause, X, Send, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
+import UploadProgressBar from './UploadProgressBar';
+import type { UploadProgress } from '../utils/uploadProgress';
 
 interface AudioRecorderProps {
-  onSend: (audioBlob: Blob) => void;
+  onSend: (audioBlob: Blob, onUploadProgress: (progress: UploadProgress) => void) => Promise<void>;
   onClose: () => void;
 }
 
@@ -18,6 +20,8 @@ export default function AudioRecorder({ onSend, onClose }: AudioRecorderProps) {
   const [duration, setDuration] = useState(0);
   const [permissionDenied, setPermissionDenied] = useState(false);
   const [isInitializing, setIsInitializing] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
@@ -185,10 +189,17 @@ export default function AudioRecorder({ onSend, onClose }: AudioRecorderProps) {
     }
   };
 
-  const handleSend = () => {
-    if (recordedBlob) {
-      onSend(recordedBlob);
-      onClose();
+  const handleSend = async () => {
+    if (!recordedBlob) return;
+
+    pausePreview();
+    setIsSending(true);
+    setUploadProgress(null);
+    try {
+      await onSend(recordedBlob, setUploadProgress);
+    } finally {
+      setIsSending(false);
+      setUploadProgress(null);
     }
   };
 
@@ -272,6 +283,8 @@ export default function AudioRecorder({ onSend, onClose }: AudioRecorderProps) {
               )}
             </div>
 
+            {isSending && <UploadProgressBar progress={uploadProgress} />}
+
             {/* Controls */}
             <div className="flex items-center justify-center gap-2">
               {!recordedBlob ? (
@@ -311,6 +324,7 @@ export default function AudioRecorder({ onSend, onClose }: AudioRecorderProps) {
                     onClick={handleCancel}
                     variant="outline"
                     size="icon"
+                    disabled={isSending}
                   >
                     <X className="h-4 w-4" />
                   </Button>
@@ -318,6 +332,7 @@ export default function AudioRecorder({ onSend, onClose }: AudioRecorderProps) {
                     onClick={isPreviewing ? pausePreview : playPreview}
                     variant="outline"
                     size="icon"
+                    disabled={isSending}
                   >
                     {isPreviewing ? (
                       <Pause className="h-4 w-4" />
@@ -327,10 +342,20 @@ export default function AudioRecorder({ onSend, onClose }: AudioRecorderProps) {
                   </Button>
                   <Button
                     onClick={handleSend}
+                    disabled={isSending}
                     className="gap-2"
                   >
-                    <Send className="h-4 w-4" />
-                    Send
+                    {isSending ? (
+                      <>
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        Sending...
+                      </>
+                    ) : (
+                      <>
+                        <Send className="h-4 w-4" />
+                        Send
+                      </>
+                    )}
                   </Button>
                 </>
               )}
@@ -1,7 +1,19 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useLayoutEffect, useRef, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { useQueryClient } from '@tanstack/react-query';
 import { 
   Send, 
   Image as ImageIcon, 
@@ -10,43 +22,67 @@ import {
   Mic, 
   Video,
   X,
-  AlertCircle
+  AlertCircle,
+  Lock,
+  Timer,
+  ImagePlus,
+  Paperclip,
+  Images
 } from 'lucide-react';
 import { 
   useMessages, 
+  useMyPseudonym,
+  useRoomSettings,
   useSendMessage, 
   useEditMessage, 
   useDeleteMessage,
   useAddReaction,
-  useRemoveReaction
+  useRemoveReaction,
+  useMarkMessageViewed
 } from '../hooks/useQueries';
+import { isTemporaryId, useMessageStore, useRoomMessages } from '../hooks/useMessageStore';
+import { useOutbox } from '../hooks/useOutbox';
+import { useRoomCustomEmoji } from '../hooks/useCustomEmoji';
+import { useEmojiAutocomplete } from '../hooks/useEmojiAutocomplete';
+import { formatRetention, getExpiryCutoff, ttlToMs } from '../utils/messageExpiry';
 import MessageBubble from './MessageBubble';
 import EmojiPicker from './EmojiPicker';
+import EmojiSuggestions from './EmojiSuggestions';
 import MediaPicker from './MediaPicker';
 import AudioRecorder from './AudioRecorder';
 import VideoRecorder from './VideoRecorder';
 import VideoUploader from './VideoUploader';
-import type { MessageView } from '../backend';
-import { ExternalBlob } from '../backend';
+import RoomUnlockPrompt from './RoomUnlockPrompt';
+import SelfDestructMenu from './SelfDestructMenu';
+import ComposerAttachments from './ComposerAttachments';
+import RoomGallery from './RoomGallery';
+import MediaPrivacyMenu from './MediaPrivacyMenu';
+import AlbumViewer from './AlbumViewer';
+import type { Attachment, MessageView, SelfDestruct } from '../backend';
+import { AttachmentKind, ExternalBlob } from '../backend';
 import { toast } from 'sonner';
 import { useVisualViewportOffset } from '../hooks/useVisualViewportOffset';
 import { normalizeRoomId } from '../utils/roomId';
 import { generateMessageNonce } from '../utils/messageNonce';
+import { getRoomKey, type DecryptedMessageView } from '../utils/roomCrypto';
+import { MessageCancelledError, MessageQueuedError } from '../utils/outbox';
+import { formatFileSize, type UploadProgress } from '../utils/uploadProgress';
+import {
+  describeRemovedMetadata,
+  isScrubbableMedia,
+  scrubMediaMetadata,
+  type ScrubbedMedia,
+} from '../utils/mediaMetadata';
+import { processImage } from '../utils/imagePipeline';
+import { collectRoomImages, type ViewerItem } from '../utils/mediaGallery';
+import { createAttachment, createFileAttachment, DEFAULT_FILE_SIZE_LIMIT, MAX_ATTACHMENTS } from '../utils/attachments';
+import { getCustomEmojiUrls } from '../utils/emoji';
 
 interface ChatRoomProps {
   roomId: string;
   nickname: string;
 }
 
-// Generate a unique user ID for the session (stored in localStorage)
-function getUserId(): string {
-  const stored = localStorage.getItem('chatUserId');
-  if (stored) return stored;
-  const newId = `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  localStorage.setItem('chatUserId', newId);
-  return newId;
-}
-
 export default function ChatRoom({ roomId, nickname }: ChatRoomProps) {
   // Normalize roomId for all operations
   const normalizedRoomId = normalizeRoomId(roomId);
@@ -59,29 +95,137 @@ export default function ChatRoom({ roomId, nickname }: ChatRoomProps) {
   const [showVideoUploader, setShowVideoUploader] = useState(false);
   const [replyingTo, setReplyingTo] = useState<MessageView | null>(null);
   const [editingMessage, setEditingMessage] = useState<MessageView | null>(null);
-  const [selectedImage, setSelectedImage] = useState<ExternalBlob | null>(null);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [preparingCount, setPreparingCount] = useState(0);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [selfDestruct, setSelfDestruct] = useState<SelfDestruct | null>(null);
   const [isSending, setIsSending] = useState(false);
-  const [currentNonce, setCurrentNonce] = useState<string | null>(null);
+  const [showGallery, setShowGallery] = useState(false);
+  // Images shown in the lightbox, and the message it was opened from
+  const [lightbox, setLightbox] = useState<{
+    items: ViewerItem[];
+    startIndex: number;
+    originId: bigint;
+    isRoomWide: boolean;
+  } | null>(null);
+  // Media whose metadata could not be removed waits for the sender to attach it as it is, or not
+  const [unscrubbedMedia, setUnscrubbedMedia] = useState<{
+    count: number;
+    resolve: (isConfirmed: boolean) => void;
+  } | null>(null);
   
   const scrollAreaRef = useRef<HTMLDivElement>(null);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const viewportState = useVisualViewportOffset();
   const keyboardOffset = viewportState.keyboardOffset;
   
-  const currentUserId = getUserId();
+  // Ownership is decided by the backend from the caller principal; the pseudonym only drives the UI
+  const { data: currentUserId = null } = useMyPseudonym(normalizedRoomId);
+
+  const queryClient = useQueryClient();
+  const { data: roomSettings, isLoading: isLoadingSettings } = useRoomSettings(normalizedRoomId);
+  const [isUnlocked, setIsUnlocked] = useState(() => !!getRoomKey(normalizedRoomId));
+  const isEncrypted = !!roomSettings?.encryption;
+  const messageTTL = roomSettings?.messageTTL ?? null;
+  const maxFileSize = roomSettings ? Number(roomSettings.maxFileSize) : DEFAULT_FILE_SIZE_LIMIT;
+
+  const { data: customEmoji } = useRoomCustomEmoji(normalizedRoomId);
+  const customEmojiUrls = useMemo(() => getCustomEmojiUrls(customEmoji ?? []), [customEmoji]);
+  const emojiAutocomplete = useEmojiAutocomplete({
+    inputRef,
+    value: messageInput,
+    onChange: setMessageInput,
+    customEmoji: customEmoji ?? [],
+  });
   
-  const { data: messages = [], isLoading, error: messagesError } = useMessages(normalizedRoomId);
+  const {
+    data: loadedPages,
+    isLoading,
+    error: messagesError,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useMessages(normalizedRoomId);
+  const { byId: messagesById, order: messageIds } = useRoomMessages(normalizedRoomId);
+
+  // Position of each loaded message in the list, used for jumping to a message
+  const messageIndexById = useMemo(() => {
+    const index = new Map<bigint, number>();
+    messageIds.forEach((id, i) => index.set(id, i));
+    return index;
+  }, [messageIds]);
+  const loadedMessages = useMemo(
+    () => messageIds.map((id) => messagesById.get(id)!),
+    [messageIds, messagesById]
+  );
+  const roomImages = useMemo(() => collectRoomImages(normalizedRoomId, loadedMessages), [normalizedRoomId, loadedMessages]);
   const sendMessageMutation = useSendMessage();
   const editMessageMutation = useEditMessage();
   const deleteMessageMutation = useDeleteMessage();
   const addReactionMutation = useAddReaction();
   const removeReactionMutation = useRemoveReaction();
+  const markMessageViewedMutation = useMarkMessageViewed();
+  const outbox = useOutbox(normalizedRoomId, currentUserId, !isLoadingSettings && (!isEncrypted || isUnlocked));
+
+  // Scroll height before older messages were prepended, used to keep the view anchored
+  const prependAnchorRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+  const newestMessageId = messageIds.length > 0 ? messageIds[messageIds.length - 1].toString() : null;
+
+  const getViewport = () =>
+    scrollAreaRef.current?.querySelector<HTMLDivElement>('[data-slot="scroll-area-viewport"]') ?? null;
+
+  // Only the bubbles near the viewport are mounted; heights are measured as media loads
+  const virtualizer = useVirtualizer({
+    count: messageIds.length,
+    getScrollElement: getViewport,
+    estimateSize: () => 96,
+    getItemKey: (index) => messageIds[index].toString(),
+    overscan: 8,
+  });
+
+  // Expired messages are no longer served and produce no change events, so drop them locally
+  useEffect(() => {
+    if (messageTTL === null) return;
+
+    const pruneExpired = () =>
+      useMessageStore.getState().pruneExpired(normalizedRoomId, getExpiryCutoff(messageTTL));
+    pruneExpired();
+    const timer = setInterval(pruneExpired, 1000);
+    return () => clearInterval(timer);
+  }, [normalizedRoomId, messageTTL]);
+
+  // Auto-scroll to bottom only when a newer message arrives, not when history is prepended
+  useEffect(() => {
+    if (newestMessageId === null) return;
+    virtualizer.scrollToIndex(messageIds.length - 1, { align: 'end' });
+  }, [newestMessageId]);
 
-  // Auto-scroll to bottom when new messages arrive
+  // Load older messages when the user scrolls near the top of the history
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages.length]);
+    const viewport = getViewport();
+    if (!viewport) return;
+
+    const handleScroll = () => {
+      if (viewport.scrollTop > 200 || !hasNextPage || isFetchingNextPage) return;
+      prependAnchorRef.current = { scrollHeight: viewport.scrollHeight, scrollTop: viewport.scrollTop };
+      fetchNextPage();
+    };
+
+    viewport.addEventListener('scroll', handleScroll, { passive: true });
+    return () => viewport.removeEventListener('scroll', handleScroll);
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Keep the visible messages in place after an older page is prepended
+  useLayoutEffect(() => {
+    const anchor = prependAnchorRef.current;
+    const viewport = getViewport();
+    if (!anchor || !viewport || isFetchingNextPage) return;
+
+    viewport.scrollTop = viewport.scrollHeight - anchor.scrollHeight + anchor.scrollTop;
+    prependAnchorRef.current = null;
+  }, [loadedPages?.pages.length, isFetchingNextPage]);
 
   // Focus input on mount
   useEffect(() => {
@@ -98,99 +242,272 @@ export default function ChatRoom({ roomId, nickname }: ChatRoomProps) {
     
     const trimmedMessage = messageInput.trim();
     
-    if (!trimmedMessage && !selectedImage) {
+    if ((!trimmedMessage && attachments.length === 0) || preparingCount > 0) {
       return;
     }
 
-    // Generate nonce once per send action
-    const nonce = generateMessageNonce();
-    setCurrentNonce(nonce);
     setIsSending(true);
-
     try {
-      await sendMessageMutation.mutateAsync({
-        roomId: normalizedRoomId,
-        content: trimmedMessage,
-        nickname,
-        replyToId: replyingTo?.id ?? null,
-        image: selectedImage,
-        video: null,
-        audio: null,
-        nonce,
-      });
-
       // Clear input and state only on success
-      setMessageInput('');
-      setSelectedImage(null);
-      setReplyingTo(null);
-      setShowEmojiPicker(false);
-      inputRef.current?.focus();
-    } catch (error) {
-      // Error is already logged and toasted by the mutation
-      const errorMessage = error instanceof Error ? error.message : 'Failed to send message';
-      toast.error(errorMessage);
+      if (await sendComposedMessage([], undefined, 'Failed to send message')) {
+        clearComposer();
+      }
     } finally {
       setIsSending(false);
-      setCurrentNonce(null);
     }
   };
 
-  const handleSendAudio = async (audioBlob: Blob) => {
-    // Convert Blob to ExternalBlob
-    const arrayBuffer = await audioBlob.arrayBuffer();
-    const uint8Array = new Uint8Array(arrayBuffer);
-    const externalBlob = ExternalBlob.fromBytes(uint8Array);
-    
-    // Generate nonce for audio message
+  /**
+   * Send the composer's text, reply and images as one message, together with
+   * `extraAttachments` such as a recording. Resolves true when the composer can
+   * be cleared: the message was sent, or kept in the outbox for a retry.
+   */
+  const sendComposedMessage = async (
+    extraAttachments: Attachment[],
+    onUploadProgress: ((progress: UploadProgress) => void) | undefined,
+    fallbackErrorMessage: string
+  ): Promise<boolean> => {
+    if (attachments.length + extraAttachments.length > MAX_ATTACHMENTS) {
+      toast.error(`A message can have up to ${MAX_ATTACHMENTS} attachments`);
+      return false;
+    }
+
+    // Generate nonce once per send action
     const nonce = generateMessageNonce();
-    
     try {
       await sendMessageMutation.mutateAsync({
         roomId: normalizedRoomId,
-        content: '',
+        content: messageInput.trim(),
         nickname,
         replyToId: replyingTo?.id ?? null,
-        image: null,
-        video: null,
-        audio: externalBlob,
+        attachments: [...attachments, ...extraAttachments],
+        selfDestruct,
         nonce,
+        onUploadProgress,
       });
+      return true;
+    } catch (error) {
+      // Queued messages stay in the list for a retry, so the composer can move on
+      return reportSendError(error, fallbackErrorMessage);
+    }
+  };
 
-      setReplyingTo(null);
-      setShowAudioRecorder(false);
+  const clearComposer = () => {
+    setMessageInput('');
+    setAttachments([]);
+    setReplyingTo(null);
+    setSelfDestruct(null);
+    setShowEmojiPicker(false);
+    inputRef.current?.focus();
+  };
+
+  // Toast a failed send; returns true if the message was kept in the outbox
+  const reportSendError = (error: unknown, fallbackMessage: string): boolean => {
+    // Cancelled from the message itself, so there is nothing to report
+    if (error instanceof MessageCancelledError) {
+      return false;
+    }
+    if (error instanceof MessageQueuedError) {
+      toast.error(
+        error.isWaitingForConnection
+          ? 'You are offline. The message will be sent when the connection returns.'
+          : 'Message failed to send. Tap it to retry.'
+      );
+      return true;
+    }
+    const errorMessage = error instanceof Error ? error.message : fallbackMessage;
+    toast.error(errorMessage);
+    return false;
+  };
+
+  /**
+   * Tell the sender what metadata was removed. Media that could not be checked
+   * is only used once the sender confirms it may go out as it is; resolves
+   * false if they decline.
+   */
+  const confirmScrubbedMetadata = async (results: ScrubbedMedia[]): Promise<boolean> => {
+    const unscrubbedCount = results.filter((result) => !result.isScrubbed).length;
+    if (unscrubbedCount > 0) {
+      return new Promise((resolve) => setUnscrubbedMedia({ count: unscrubbedCount, resolve }));
+    }
+    const summary = describeRemovedMetadata(Array.from(new Set(results.flatMap((result) => result.removed))));
+    if (summary) {
+      toast.info(`${summary} before sending`);
+    }
+    return true;
+  };
+
+  const handleUnscrubbedMediaChoice = (isConfirmed: boolean) => {
+    unscrubbedMedia?.resolve(isConfirmed);
+    setUnscrubbedMedia(null);
+  };
+
+  // Strip identifying metadata before media leaves the device; null if the sender declined unchecked media
+  const toScrubbedAttachments = async (blobs: Blob[], kind: AttachmentKind): Promise<Attachment[] | null> => {
+    const results = await Promise.all(
+      blobs.map(async (blob) => scrubMediaMetadata(new Uint8Array(await blob.arrayBuffer())))
+    );
+    if (!(await confirmScrubbedMetadata(results))) return null;
+    return Promise.all(
+      results.map((result, index) => createAttachment(kind, ExternalBlob.fromBytes(result.bytes), blobs[index].type))
+    );
+  };
+
+  // Resize and scrub images one after another, as the pipeline worker handles one at a time anyway
+  const prepareImages = async (blobs: Blob[]): Promise<Attachment[] | null> => {
+    const processed: Blob[] = [];
+    for (const blob of blobs) {
+      const image = await processImage(blob);
+      processed.push(new Blob([image.bytes], { type: image.type }));
+    }
+    return toScrubbedAttachments(processed, AttachmentKind.image);
+  };
+
+  // Attach images from the file picker, the clipboard or a drop
+  const handleAddImages = async (files: File[]) => {
+    const imageFiles = files.filter((file) => file.type.startsWith('image/'));
+    if (imageFiles.length === 0) {
+      toast.error('Only images can be attached here');
+      return;
+    }
+
+    const remaining = MAX_ATTACHMENTS - attachments.length - preparingCount;
+    if (remaining <= 0) {
+      toast.error(`You can attach up to ${MAX_ATTACHMENTS} images`);
+      return;
+    }
+    if (imageFiles.length > remaining) {
+      toast.error(`Only the first ${remaining} of these images were attached`);
+    }
+
+    const accepted = imageFiles.slice(0, remaining);
+    setPreparingCount((count) => count + accepted.length);
+    try {
+      const prepared = await prepareImages(accepted);
+      if (prepared) {
+        setAttachments((current) => [...current, ...prepared]);
+      }
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to send audio';
-      toast.error(errorMessage);
+      console.error('Error preparing images:', error);
+      toast.error('Failed to load image');
+    } finally {
+      setPreparingCount((count) => count - accepted.length);
     }
   };
 
-  const handleSendVideo = async (videoBlob: Blob) => {
-    // Convert Blob to ExternalBlob
-    const arrayBuffer = await videoBlob.arrayBuffer();
-    const uint8Array = new Uint8Array(arrayBuffer);
-    const externalBlob = ExternalBlob.fromBytes(uint8Array);
-    
-    // Generate nonce for video message
-    const nonce = generateMessageNonce();
-    
+  // Attach documents, archives and any other file, up to the room's size limit
+  const handleAddDocuments = async (files: File[]) => {
+    const oversized = files.filter((file) => file.size > maxFileSize);
+    if (oversized.length > 0) {
+      toast.error(
+        oversized.length === 1
+          ? `${oversized[0].name} is larger than the ${formatFileSize(maxFileSize)} this room allows`
+          : `${oversized.length} files are larger than the ${formatFileSize(maxFileSize)} this room allows`
+      );
+    }
+
+    const allowed = files.filter((file) => file.size <= maxFileSize);
+    const remaining = MAX_ATTACHMENTS - attachments.length - preparingCount;
+    if (allowed.length > remaining) {
+      toast.error(`A message can have up to ${MAX_ATTACHMENTS} attachments`);
+    }
+
+    const accepted = allowed.slice(0, Math.max(remaining, 0));
+    if (accepted.length === 0) return;
+    setPreparingCount((count) => count + accepted.length);
     try {
-      await sendMessageMutation.mutateAsync({
-        roomId: normalizedRoomId,
-        content: '',
-        nickname,
-        replyToId: replyingTo?.id ?? null,
-        image: null,
-        video: externalBlob,
-        audio: null,
-        nonce,
-      });
+      const prepared: Attachment[] = [];
+      const scrubbed: ScrubbedMedia[] = [];
+      for (const file of accepted) {
+        // Photos, videos and recordings sent as files lose their metadata like any other media
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        const media = isScrubbableMedia(bytes) ? scrubMediaMetadata(bytes) : null;
+        if (media) scrubbed.push(media);
+        prepared.push(createFileAttachment(file.name, media?.bytes ?? bytes));
+      }
+      if (await confirmScrubbedMetadata(scrubbed)) {
+        setAttachments((current) => [...current, ...prepared]);
+      }
+    } catch (error) {
+      console.error('Error reading files:', error);
+      toast.error('Failed to read file');
+    } finally {
+      setPreparingCount((count) => count - accepted.length);
+    }
+  };
+
+  // Images are resized and scrubbed as photos; everything else is attached as a file
+  const handleAddFiles = (files: File[]) => {
+    const images = files.filter((file) => file.type.startsWith('image/'));
+    const documents = files.filter((file) => !file.type.startsWith('image/'));
+    if (images.length > 0) handleAddImages(images);
+    if (documents.length > 0) handleAddDocuments(documents);
+  };
+
+  const handleImageInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Reset so picking the same file again still fires a change
+    e.target.value = '';
+    if (files.length > 0) {
+      handleAddImages(files);
+    }
+  };
+
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length > 0) {
+      handleAddFiles(files);
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0 || editingMessage) return;
+    // Keep the file's name out of the text field
+    e.preventDefault();
+    handleAddFiles(files);
+  };
+
+  const hasDraggedFiles = (e: React.DragEvent) => e.dataTransfer.types.includes('Files');
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!hasDraggedFiles(e) || editingMessage) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    // Leaving for a child element still counts as being over the composer
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDraggingFiles(false);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!hasDraggedFiles(e) || editingMessage) return;
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    handleAddFiles(Array.from(e.dataTransfer.files));
+  };
+
+  // Recordings go out with whatever is in the composer, e.g. photos and a caption
+  const handleSendAudio = async (audioBlob: Blob, onUploadProgress?: (progress: UploadProgress) => void) => {
+    const recording = await toScrubbedAttachments([audioBlob], AttachmentKind.audio);
+    if (!recording) return;
+    if (await sendComposedMessage(recording, onUploadProgress, 'Failed to send audio')) {
+      clearComposer();
+      setShowAudioRecorder(false);
+    }
+  };
 
-      setReplyingTo(null);
+  const handleSendVideo = async (videoBlob: Blob, onUploadProgress?: (progress: UploadProgress) => void) => {
+    const video = await toScrubbedAttachments([videoBlob], AttachmentKind.video);
+    if (!video) return;
+    if (await sendComposedMessage(video, onUploadProgress, 'Failed to send video')) {
+      clearComposer();
       setShowVideoRecorder(false);
       setShowVideoUploader(false);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to send video';
-      toast.error(errorMessage);
     }
   };
 
@@ -198,7 +515,7 @@ export default function ChatRoom({ roomId, nickname }: ChatRoomProps) {
     if (!editingMessage) return;
 
     const trimmedContent = messageInput.trim();
-    if (!trimmedContent && !selectedImage) {
+    if (!trimmedContent && attachments.length === 0) {
       toast.error('Message cannot be empty');
       return;
     }
@@ -208,13 +525,11 @@ export default function ChatRoom({ roomId, nickname }: ChatRoomProps) {
         roomId: normalizedRoomId,
         messageId: editingMessage.id,
         newContent: trimmedContent,
-        newImage: selectedImage,
-        newVideo: null,
-        newAudio: null,
+        newAttachments: attachments,
       });
 
       setMessageInput('');
-      setSelectedImage(null);
+      setAttachments([]);
       setEditingMessage(null);
       inputRef.current?.focus();
     } catch (error) {
@@ -225,7 +540,7 @@ export default function ChatRoom({ roomId, nickname }: ChatRoomProps) {
 
   const handleDeleteMessage = async (message: MessageView) => {
     // Don't allow deleting optimistic messages
-    if ((message as any).isOptimistic) {
+    if (isTemporaryId(message.id)) {
       return;
     }
 
@@ -241,8 +556,8 @@ export default function ChatRoom({ roomId, nickname }: ChatRoomProps) {
   };
 
   const handleReaction = async (messageId: bigint, emoji: string) => {
-    const message = messages.find(m => m.id === messageId);
-    if (!message) return;
+    const message = messagesById.get(messageId);
+    if (!message || isTemporaryId(messageId)) return;
 
     const existingReaction = message.reactions.find(
       r => r.userId === currentUserId && r.emoji === emoji
@@ -268,7 +583,56 @@ export default function ChatRoom({ roomId, nickname }: ChatRoomProps) {
     }
   };
 
+  // Opens a self-destructing message for this reader; null once it can no longer be read
+  const handleOpenSelfDestruct = async (message: MessageView): Promise<MessageView | null> => {
+    try {
+      const opened = await markMessageViewedMutation.mutateAsync({
+        roomId: normalizedRoomId,
+        messageId: message.id,
+      });
+      if (!opened) {
+        toast.error('This message has already been opened');
+      }
+      return opened;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to open message';
+      toast.error(errorMessage);
+      return null;
+    }
+  };
+
+  const handleConsumed = (messageId: bigint) => {
+    useMessageStore.getState().consumeMessage(normalizedRoomId, messageId);
+  };
+
+  const handleRetrySend = async (message: MessageView) => {
+    if (!message.nonce) return;
+
+    try {
+      if (!(await outbox.retry(message.nonce))) {
+        toast.error('Message failed to send again');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to send message';
+      toast.error(errorMessage);
+    }
+  };
+
+  const handleCancelSend = async (message: MessageView) => {
+    if (!message.nonce) return;
+
+    try {
+      await outbox.cancel(message.nonce);
+    } catch (error) {
+      console.error('Failed to cancel queued message:', error);
+      toast.error('Failed to cancel message');
+    }
+  };
+
   const handleReply = (message: MessageView) => {
+    // Unconfirmed messages have no backend id to reply to yet
+    if (isTemporaryId(message.id)) return;
+
     setReplyingTo(message);
     inputRef.current?.focus();
   };
@@ -276,16 +640,14 @@ export default function ChatRoom({ roomId, nickname }: ChatRoomProps) {
   const handleEdit = (message: MessageView) => {
     setEditingMessage(message);
     setMessageInput(message.content);
-    if (message.imageUrl) {
-      setSelectedImage(message.imageUrl);
-    }
+    setAttachments(message.attachments);
     inputRef.current?.focus();
   };
 
   const handleCancelEdit = () => {
     setEditingMessage(null);
     setMessageInput('');
-    setSelectedImage(null);
+    setAttachments([]);
     inputRef.current?.focus();
   };
 
@@ -299,12 +661,10 @@ export default function ChatRoom({ roomId, nickname }: ChatRoomProps) {
     try {
       // Convert URL to ExternalBlob
       const response = await fetch(url);
-      const blob = await response.blob();
-      const arrayBuffer = await blob.arrayBuffer();
-      const uint8Array = new Uint8Array(arrayBuffer);
-      const externalBlob = ExternalBlob.fromBytes(uint8Array);
-      
-      setSelectedImage(externalBlob);
+      const prepared = await prepareImages([await response.blob()]);
+      if (!prepared) return;
+
+      setAttachments((current) => [...current, ...prepared].slice(0, MAX_ATTACHMENTS));
       setShowMediaPicker(false);
       inputRef.current?.focus();
     } catch (error) {
@@ -314,17 +674,51 @@ export default function ChatRoom({ roomId, nickname }: ChatRoomProps) {
   };
 
   const handleJumpToMessage = (messageId: bigint) => {
-    const messageElement = document.getElementById(`message-${messageId}`);
-    if (messageElement) {
-      messageElement.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const index = messageIndexById.get(messageId);
+    if (index === undefined) return;
+
+    // The target may not be mounted yet, so scroll the virtualizer first and
+    // highlight once the bubble has been rendered
+    virtualizer.scrollToIndex(index, { align: 'center' });
+    requestAnimationFrame(() => {
+      const messageElement = document.getElementById(`message-${messageId}`);
+      if (!messageElement) return;
       messageElement.classList.add('highlight-message');
       setTimeout(() => {
         messageElement.classList.remove('highlight-message');
       }, 2000);
-    }
+    });
+  };
+
+  // Swipes through every image of the room, or only the message's own when it is
+  // left out of the room's images, like an opened self-destructing message
+  const handleOpenImage = (messageImages: ViewerItem[], index: number) => {
+    const item = messageImages[index];
+    if (!item) return;
+    const roomIndex = roomImages.findIndex((image) => image.key === item.key);
+    setLightbox(
+      roomIndex === -1
+        ? { items: messageImages, startIndex: index, originId: item.messageId, isRoomWide: false }
+        : { items: roomImages, startIndex: roomIndex, originId: item.messageId, isRoomWide: true }
+    );
+  };
+
+  // Swiping through the room leaves the chat where it was, so bring the originating message back into view
+  const handleCloseLightbox = () => {
+    if (!lightbox) return;
+    const index = messageIndexById.get(lightbox.originId);
+    setLightbox(null);
+    if (index !== undefined) virtualizer.scrollToIndex(index, { align: 'auto' });
+  };
+
+  const handleJumpFromLightbox = (messageId: bigint) => {
+    setLightbox(null);
+    handleJumpToMessage(messageId);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (emojiAutocomplete.handleKeyDown(e)) return;
+
     // Prevent double submission on Enter
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -338,7 +732,7 @@ export default function ChatRoom({ roomId, nickname }: ChatRoomProps) {
     }
   };
 
-  if (isLoading) {
+  if (isLoading || isLoadingSettings) {
     return (
       <div className="flex-1 flex items-center justify-center">
         <div className="text-center space-y-4">
@@ -349,6 +743,20 @@ export default function ChatRoom({ roomId, nickname }: ChatRoomProps) {
     );
   }
 
+  if (roomSettings?.encryption && !isUnlocked) {
+    return (
+      <RoomUnlockPrompt
+        roomId={normalizedRoomId}
+        encryption={roomSettings.encryption}
+        onUnlocked={() => {
+          setIsUnlocked(true);
+          // History loaded while locked could not be decrypted, so load it again with the key
+          queryClient.resetQueries({ queryKey: ['messages', normalizedRoomId] });
+        }}
+      />
+    );
+  }
+
   if (messagesError) {
     return (
       <div className="flex-1 flex items-center justify-center p-4">
@@ -370,46 +778,144 @@ export default function ChatRoom({ roomId, nickname }: ChatRoomProps) {
 
   return (
     <div className="flex-1 flex flex-col min-h-0 relative">
+      {/* Room Header */}
+      <div className="border-b border-border/40 px-4 py-2">
+        <div className="max-w-4xl mx-auto flex items-center justify-between gap-2">
+          <span className="text-sm font-medium text-muted-foreground truncate">Room {normalizedRoomId}</span>
+          <div className="flex items-center gap-1">
+            <MediaPrivacyMenu isEncrypted={isEncrypted} />
+            <Button variant="ghost" size="sm" className="gap-1" onClick={() => setShowGallery(true)}>
+              <Images className="h-4 w-4" />
+              Media
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <RoomGallery
+        messages={loadedMessages}
+        open={showGallery}
+        onOpenChange={setShowGallery}
+        onJumpToMessage={handleJumpToMessage}
+      />
+
+      {lightbox && (
+        <AlbumViewer
+          items={lightbox.items}
+          startIndex={lightbox.startIndex}
+          open
+          onOpenChange={(open) => !open && handleCloseLightbox()}
+          onJumpToMessage={lightbox.isRoomWide ? handleJumpFromLightbox : undefined}
+        />
+      )}
+
+      <AlertDialog open={!!unscrubbedMedia} onOpenChange={(open) => !open && handleUnscrubbedMediaChoice(false)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Attach without removing metadata?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {unscrubbedMedia?.count === 1 ? 'This file' : `${unscrubbedMedia?.count} files`} could not be checked
+              for identifying metadata. Sent as they are, they may reveal where and with which device they were made.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => handleUnscrubbedMediaChoice(true)}>Attach anyway</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Messages Area */}
       <ScrollArea 
         ref={scrollAreaRef}
         className="flex-1 px-4 py-4"
       >
-        <div className="max-w-4xl mx-auto space-y-4">
-          {messages.length === 0 ? (
+        <div className="max-w-4xl mx-auto">
+          {isFetchingNextPage && (
+            <div className="flex justify-center py-2">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
+          {messageIds.length === 0 ? (
             <div className="text-center py-12 text-muted-foreground">
               <p className="text-lg mb-2">No messages yet</p>
               <p className="text-sm">Be the first to send a message!</p>
             </div>
           ) : (
-            messages.map((message) => (
-              <div key={message.id.toString()} id={`message-${message.id}`}>
-                <MessageBubble
-                  message={message}
-                  currentNickname={nickname}
-                  currentUserId={currentUserId}
-                  onReply={handleReply}
-                  onEdit={handleEdit}
-                  onDelete={handleDeleteMessage}
-                  onReaction={handleReaction}
-                  onJumpToMessage={handleJumpToMessage}
-                  allMessages={messages}
-                />
-              </div>
-            ))
+            <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+              {virtualizer.getVirtualItems().map((virtualItem) => {
+                const message = messagesById.get(messageIds[virtualItem.index])!;
+                return (
+                  <div
+                    key={virtualItem.key}
+                    id={`message-${message.id}`}
+                    data-index={virtualItem.index}
+                    ref={virtualizer.measureElement}
+                    className="absolute left-0 top-0 w-full pb-4"
+                    style={{ transform: `translateY(${virtualItem.start}px)` }}
+                  >
+                    <MessageBubble
+                      roomId={normalizedRoomId}
+                      message={message}
+                      currentNickname={nickname}
+                      currentUserId={currentUserId}
+                      onReply={handleReply}
+                      onEdit={handleEdit}
+                      onDelete={handleDeleteMessage}
+                      onReaction={handleReaction}
+                      onJumpToMessage={handleJumpToMessage}
+                      onOpenImage={handleOpenImage}
+                      onOpenSelfDestruct={handleOpenSelfDestruct}
+                      onConsumed={handleConsumed}
+                      onRetrySend={handleRetrySend}
+                      onCancelSend={handleCancelSend}
+                      repliedToMessage={message.replyToId != null ? messagesById.get(message.replyToId) : null}
+                      messageTTL={messageTTL}
+                      customEmojiUrls={customEmojiUrls}
+                    />
+                  </div>
+                );
+              })}
+            </div>
           )}
-          <div ref={messagesEndRef} />
         </div>
       </ScrollArea>
 
       {/* Input Area */}
       <div 
-        className="border-t bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/80"
+        className={`relative border-t bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/80 ${
+          isDraggingFiles ? 'ring-2 ring-inset ring-primary' : ''
+        }`}
         style={{ 
           paddingBottom: keyboardOffset > 0 ? `${keyboardOffset}px` : 'env(safe-area-inset-bottom, 0px)'
         }}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
       >
+        {isDraggingFiles && (
+          <div className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center bg-primary/10 text-sm font-medium text-primary">
+            Drop files to attach them
+          </div>
+        )}
         <div className="max-w-4xl mx-auto p-4 space-y-3">
+          {(isEncrypted || messageTTL !== null) && (
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+              {isEncrypted && (
+                <span className="flex items-center gap-1">
+                  <Lock className="h-3 w-3" />
+                  Messages in this room are end-to-end encrypted
+                </span>
+              )}
+              {messageTTL !== null && (
+                <span className="flex items-center gap-1">
+                  <Timer className="h-3 w-3" />
+                  Messages auto-delete after {formatRetention(ttlToMs(messageTTL))}
+                </span>
+              )}
+            </div>
+          )}
+
           {/* Reply Preview */}
           {replyingTo && (
             <div className="flex items-center gap-2 p-2 bg-muted/50 rounded-lg text-sm">
@@ -440,30 +946,54 @@ export default function ChatRoom({ roomId, nickname }: ChatRoomProps) {
             </div>
           )}
 
-          {/* Selected Image Preview */}
-          {selectedImage && (
-            <div className="relative inline-block">
-              <img
-                src={selectedImage.getDirectURL()}
-                alt="Selected"
-                className="h-20 w-20 object-cover rounded-lg"
-              />
-              <Button
-                variant="destructive"
-                size="icon"
-                className="absolute -top-2 -right-2 h-6 w-6 rounded-full"
-                onClick={() => setSelectedImage(null)}
-              >
-                <X className="h-4 w-4" />
-              </Button>
-            </div>
-          )}
+          {/* Attachments Preview */}
+          <ComposerAttachments
+            attachments={attachments}
+            pendingCount={preparingCount}
+            onRemove={(index) => setAttachments((current) => current.filter((_, i) => i !== index))}
+            mediaCryptoKey={(editingMessage as DecryptedMessageView | null)?.mediaCryptoKey}
+          />
 
           {/* Input Form */}
           <form onSubmit={handleSendMessage} className="flex items-end gap-2">
             <div className="flex-1 flex items-end gap-2">
               {/* Media Buttons */}
               <div className="flex gap-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => imageInputRef.current?.click()}
+                  disabled={isSending || editingMessage !== null}
+                  aria-label="Attach photos"
+                >
+                  <ImagePlus className="h-5 w-5" />
+                </Button>
+                <input
+                  ref={imageInputRef}
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  onChange={handleImageInputChange}
+                  className="hidden"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isSending || editingMessage !== null}
+                  aria-label="Attach files"
+                >
+                  <Paperclip className="h-5 w-5" />
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  onChange={handleFileInputChange}
+                  className="hidden"
+                />
                 <Button
                   type="button"
                   variant="ghost"
@@ -491,6 +1021,11 @@ export default function ChatRoom({ roomId, nickname }: ChatRoomProps) {
                 >
                   <Video className="h-5 w-5" />
                 </Button>
+                <SelfDestructMenu
+                  value={selfDestruct}
+                  onChange={setSelfDestruct}
+                  disabled={isSending || editingMessage !== null}
+                />
                 <Button
                   type="button"
                   variant="ghost"
@@ -503,22 +1038,36 @@ export default function ChatRoom({ roomId, nickname }: ChatRoomProps) {
               </div>
 
               {/* Message Input */}
-              <Input
-                ref={inputRef}
-                value={messageInput}
-                onChange={(e) => setMessageInput(e.target.value)}
-                onKeyDown={handleKeyDown}
-                placeholder={editingMessage ? "Edit your message..." : "Type a message..."}
-                className="flex-1"
-                disabled={isSending}
-              />
+              <div className="relative flex-1">
+                {emojiAutocomplete.suggestions.length > 0 && (
+                  <EmojiSuggestions
+                    suggestions={emojiAutocomplete.suggestions}
+                    activeIndex={emojiAutocomplete.activeIndex}
+                    onSelect={emojiAutocomplete.complete}
+                  />
+                )}
+                <Input
+                  ref={inputRef}
+                  value={messageInput}
+                  onChange={(e) => {
+                    setMessageInput(e.target.value);
+                    emojiAutocomplete.updateQuery(e.target);
+                  }}
+                  onSelect={(e) => emojiAutocomplete.updateQuery(e.currentTarget)}
+                  onBlur={emojiAutocomplete.dismiss}
+                  onKeyDown={handleKeyDown}
+                  onPaste={handlePaste}
+                  placeholder={editingMessage ? "Edit your message..." : "Type a message..."}
+                  disabled={isSending}
+                />
+              </div>
             </div>
 
             {/* Send/Edit Button */}
             <Button 
               type="submit" 
               size="icon"
-              disabled={isSending || (!messageInput.trim() && !selectedImage)}
+              disabled={isSending || preparingCount > 0 || (!messageInput.trim() && attachments.length === 0)}
               onClick={editingMessage ? handleEditMessage : undefined}
             >
               {isSending ? (
@@ -535,6 +1084,7 @@ export default function ChatRoom({ roomId, nickname }: ChatRoomProps) {
       {showEmojiPicker && (
         <div className="absolute bottom-20 left-4 z-50">
           <EmojiPicker
+            roomId={normalizedRoomId}
             onSelect={handleEmojiSelect}
             onClose={() => setShowEmojiPicker(false)}
           />
@@ -545,6 +1095,7 @@ export default function ChatRoom({ roomId, nickname }: ChatRoomProps) {
       {showMediaPicker && (
         <div className="absolute bottom-20 left-4 z-50">
           <MediaPicker
+            roomId={normalizedRoomId}
             onSelect={handleMediaSelect}
             onClose={() => setShowMediaPicker(false)}
           />
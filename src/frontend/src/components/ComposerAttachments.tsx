@@ -0,0 +1,75 @@
+import { Button } from '@/components/ui/button';
+import { File, Film, Loader2, Music, X } from 'lucide-react';
+import { AttachmentKind, type Attachment } from '../backend';
+import { useDecryptedMedia } from '../hooks/useDecryptedMedia';
+
+interface ComposerAttachmentsProps {
+  attachments: Attachment[];
+  // Images being resized and scrubbed, or files being read, shown as placeholders
+  pendingCount: number;
+  onRemove: (index: number) => void;
+  // Key of the message being edited, whose attachments are already uploaded and sealed
+  mediaCryptoKey?: CryptoKey;
+}
+
+function AttachmentThumbnail({ attachment, index, mediaCryptoKey }: {
+  attachment: Attachment;
+  index: number;
+  mediaCryptoKey?: CryptoKey;
+}) {
+  const { url } = useDecryptedMedia(attachment.blob, mediaCryptoKey !== undefined, mediaCryptoKey);
+
+  if (attachment.kind === AttachmentKind.image && url) {
+    return <img src={url} alt={`Attachment ${index + 1}`} className="h-20 w-20 object-cover rounded-lg" />;
+  }
+
+  if (attachment.kind === AttachmentKind.file) {
+    return (
+      <div className="h-20 w-20 rounded-lg bg-muted flex flex-col items-center justify-center gap-1 p-1" title={attachment.fileName}>
+        <File className="h-5 w-5 text-muted-foreground" />
+        <span className="w-full truncate text-center text-[10px] text-muted-foreground">{attachment.fileName}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-20 w-20 rounded-lg bg-muted flex items-center justify-center">
+      {attachment.kind === AttachmentKind.video ? (
+        <Film className="h-5 w-5 text-muted-foreground" />
+      ) : attachment.kind === AttachmentKind.audio ? (
+        <Music className="h-5 w-5 text-muted-foreground" />
+      ) : (
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      )}
+    </div>
+  );
+}
+
+export default function ComposerAttachments({ attachments, pendingCount, onRemove, mediaCryptoKey }: ComposerAttachmentsProps) {
+  if (attachments.length === 0 && pendingCount === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-3">
+      {attachments.map((attachment, index) => (
+        <div key={index} className="relative">
+          <AttachmentThumbnail attachment={attachment} index={index} mediaCryptoKey={mediaCryptoKey} />
+          <Button
+            type="button"
+            variant="destructive"
+            size="icon"
+            className="absolute -top-2 -right-2 h-6 w-6 rounded-full"
+            onClick={() => onRemove(index)}
+            aria-label="Remove attachment"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      {Array.from({ length: pendingCount }, (_, index) => (
+        <div key={`pending-${index}`} className="h-20 w-20 rounded-lg bg-muted flex items-center justify-center">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,20 +1,106 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { ImagePlus, Loader2, Plus, X } from 'lucide-react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import type { CustomEmoji } from '../backend';
+import { useAddCustomEmoji, useRemoveCustomEmoji, useRoomCustomEmoji } from '../hooks/useCustomEmoji';
+import { useMyPseudonym } from '../hooks/useQueries';
+import { CUSTOM_EMOJI_MIME_TYPES, EMOJI_CATEGORIES, formatShortcode, suggestShortcode } from '../utils/emoji';
 
 interface EmojiPickerProps {
+  roomId: string;
   onSelect: (emoji: string) => void;
   onClose: () => void;
 }
 
-const EMOJI_CATEGORIES = {
-  'Smileys': ['😀', '😃', '😄', '😁', '😅', '😂', '🤣', '😊', '😇', '🙂', '🙃', '😉', '😌', '😍', '🥰', '😘', '😗', '😙', '😚', '😋'],
-  'Gestures': ['👍', '👎', '👌', '✌️', '🤞', '🤟', '🤘', '🤙', '👈', '👉', '👆', '👇', '☝️', '👏', '🙌', '👐', '🤲', '🤝', '🙏', '✍️'],
-  'Hearts': ['❤️', '🧡', '💛', '💚', '💙', '💜', '🖤', '🤍', '🤎', '💔', '❣️', '💕', '💞', '💓', '💗', '💖', '💘', '💝', '💟', '♥️'],
-  'Objects': ['🎉', '🎊', '🎈', '🎁', '🏆', '🥇', '🥈', '🥉', '⚽', '🏀', '🏈', '⚾', '🎾', '🏐', '🏉', '🎱', '🎮', '🎯', '🎲', '🎰'],
-};
+function AddCustomEmojiForm({ roomId, onDone }: { roomId: string; onDone: () => void }) {
+  const [file, setFile] = useState<File | null>(null);
+  const [shortcode, setShortcode] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const addCustomEmoji = useAddCustomEmoji();
+  const previewUrl = useMemo(() => (file ? URL.createObjectURL(file) : null), [file]);
+
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    setFile(selected);
+    if (!shortcode) setShortcode(suggestShortcode(selected.name));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    try {
+      await addCustomEmoji.mutateAsync({ roomId, shortcode, file });
+      toast.success(`Added ${formatShortcode(shortcode)}`);
+      onDone();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add emoji');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-center gap-1 mb-2">
+      <Button
+        type="button"
+        variant="outline"
+        size="icon"
+        className="h-8 w-8 shrink-0 overflow-hidden"
+        onClick={() => fileInputRef.current?.click()}
+        title="Choose an image"
+      >
+        {previewUrl ? (
+          <img src={previewUrl} alt="" className="h-6 w-6 object-contain" />
+        ) : (
+          <ImagePlus className="h-4 w-4" />
+        )}
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={CUSTOM_EMOJI_MIME_TYPES.join(',')}
+        onChange={handleFileChange}
+        className="hidden"
+      />
+      <Input
+        value={shortcode}
+        onChange={(e) => setShortcode(e.target.value.toLowerCase())}
+        placeholder="shortcode"
+        maxLength={32}
+        className="h-8 flex-1"
+        autoFocus
+      />
+      <Button type="submit" size="sm" className="h-8" disabled={!file || !shortcode || addCustomEmoji.isPending}>
+        {addCustomEmoji.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Add'}
+      </Button>
+    </form>
+  );
+}
+
+export default function EmojiPicker({ roomId, onSelect, onClose }: EmojiPickerProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const { data: customEmoji = [] } = useRoomCustomEmoji(roomId);
+  const { data: myPseudonym = null } = useMyPseudonym(roomId);
+  const removeCustomEmoji = useRemoveCustomEmoji();
+
+  // Only the participant who added an emoji can remove it
+  const handleRemove = async (emoji: CustomEmoji) => {
+    try {
+      await removeCustomEmoji.mutateAsync({ roomId, shortcode: emoji.shortcode });
+      toast.success(`Removed ${formatShortcode(emoji.shortcode)}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove emoji');
+    }
+  };
 
-export default function EmojiPicker({ onSelect, onClose }: EmojiPickerProps) {
   return (
     <Card className="w-80 shadow-lg">
       <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
@@ -24,16 +110,66 @@ export default function EmojiPicker({ onSelect, onClose }: EmojiPickerProps) {
         </Button>
       </CardHeader>
       <CardContent className="space-y-3 max-h-64 overflow-y-auto">
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-xs font-semibold text-muted-foreground">This room</h4>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 gap-1 px-2 text-xs"
+              onClick={() => setIsAdding(!isAdding)}
+            >
+              <Plus className="h-3 w-3" />
+              Add
+            </Button>
+          </div>
+          {isAdding && <AddCustomEmojiForm roomId={roomId} onDone={() => setIsAdding(false)} />}
+          {customEmoji.length === 0 ? (
+            <p className="text-xs text-muted-foreground">
+              Add an image under a :shortcode: for everyone in this room to use
+            </p>
+          ) : (
+            <div className="grid grid-cols-10 gap-1">
+              {customEmoji.map((emoji) => (
+                <div key={emoji.shortcode} className="relative group">
+                  <Button
+                    variant="ghost"
+                    className="h-8 w-8 p-0 hover:bg-primary/10"
+                    onClick={() => onSelect(formatShortcode(emoji.shortcode))}
+                    title={formatShortcode(emoji.shortcode)}
+                  >
+                    <img
+                      src={emoji.blob.getDirectURL()}
+                      alt={formatShortcode(emoji.shortcode)}
+                      className="h-6 w-6 object-contain"
+                      loading="lazy"
+                    />
+                  </Button>
+                  {emoji.addedBy === myPseudonym && (
+                    <button
+                      onClick={() => handleRemove(emoji)}
+                      className="absolute -top-1 -right-1 h-4 w-4 rounded-full bg-destructive/90 text-destructive-foreground opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center"
+                      title={`Remove ${formatShortcode(emoji.shortcode)}`}
+                    >
+                      <X className="h-2.5 w-2.5" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
         {Object.entries(EMOJI_CATEGORIES).map(([category, emojis]) => (
           <div key={category}>
             <h4 className="text-xs font-semibold text-muted-foreground mb-2">{category}</h4>
             <div className="grid grid-cols-10 gap-1">
-              {emojis.map((emoji) => (
+              {emojis.map(({ emoji, shortcode }) => (
                 <Button
                   key={emoji}
                   variant="ghost"
                   className="h-8 w-8 p-0 text-lg hover:bg-primary/10"
                   onClick={() => onSelect(emoji)}
+                  title={formatShortcode(shortcode)}
                 >
                   {emoji}
                 </Button>
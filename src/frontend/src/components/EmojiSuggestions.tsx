@@ -0,0 +1,36 @@
+import { formatShortcode, type EmojiSuggestion } from '../utils/emoji';
+
+interface EmojiSuggestionsProps {
+  suggestions: EmojiSuggestion[];
+  activeIndex: number;
+  onSelect: (suggestion: EmojiSuggestion) => void;
+}
+
+// Shortcode suggestions shown above the composer while a :shortcode is typed
+export default function EmojiSuggestions({ suggestions, activeIndex, onSelect }: EmojiSuggestionsProps) {
+  return (
+    <div className="absolute bottom-full left-0 z-50 mb-2 w-64 rounded-lg border bg-popover p-1 shadow-lg" role="listbox">
+      {suggestions.map((suggestion, index) => (
+        <button
+          key={`${suggestion.kind}-${suggestion.shortcode}`}
+          type="button"
+          role="option"
+          aria-selected={index === activeIndex}
+          // Keeps the focus, and so the caret, in the composer
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onSelect(suggestion)}
+          className={`flex w-full items-center gap-2 rounded-md px-2 py-1 text-left text-sm ${
+            index === activeIndex ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50'
+          }`}
+        >
+          {suggestion.kind === 'unicode' ? (
+            <span className="w-5 text-center text-lg leading-none">{suggestion.emoji}</span>
+          ) : (
+            <img src={suggestion.url} alt="" className="h-5 w-5 object-contain" />
+          )}
+          <span className="truncate">{formatShortcode(suggestion.shortcode)}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
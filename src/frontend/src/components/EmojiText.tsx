@@ -0,0 +1,29 @@
+import { formatShortcode, splitCustomEmoji } from '../utils/emoji';
+
+interface EmojiTextProps {
+  text: string;
+  // Image URLs of the room's custom emoji by shortcode
+  customEmojiUrls: Map<string, string>;
+}
+
+// Message text with the room's custom emoji drawn inline at text size
+export default function EmojiText({ text, customEmojiUrls }: EmojiTextProps) {
+  return (
+    <>
+      {splitCustomEmoji(text, customEmojiUrls).map((part, index) =>
+        typeof part === 'string' ? (
+          part
+        ) : (
+          <img
+            key={index}
+            src={part.url}
+            alt={formatShortcode(part.shortcode)}
+            title={formatShortcode(part.shortcode)}
+            className="inline-block h-5 w-5 object-contain align-text-bottom"
+            loading="lazy"
+          />
+        )
+      )}
+    </>
+  );
+}
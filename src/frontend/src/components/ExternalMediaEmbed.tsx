@@ -0,0 +1,106 @@
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { Download, ImageOff, Loader2, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { useExternalMedia } from '../hooks/useExternalMedia';
+import { downloadImageAsPNG } from '../utils/downloadMedia';
+import { getLinkDomain, type ExternalLink } from '../utils/mediaGallery';
+
+interface ExternalMediaEmbedProps {
+  link: ExternalLink;
+  filename: string;
+  onOpen: () => void;
+}
+
+/**
+ * Image linked in a message. Until the privacy setting allows it, only the
+ * linked site's domain is shown, and nothing is requested from that site.
+ */
+export default function ExternalMediaEmbed({ link, filename, onOpen }: ExternalMediaEmbedProps) {
+  const { url } = link;
+  const { src, isLoading, hasFailed, loadDirectly } = useExternalMedia(link);
+  const domain = getLinkDomain(url);
+
+  const handleDownload = async () => {
+    if (!src) return;
+    try {
+      await downloadImageAsPNG(src, filename);
+    } catch (error) {
+      console.error('Failed to download image:', error);
+      toast.error('Failed to download image. Please try again.');
+    }
+  };
+
+  if (!src) {
+    return (
+      <div className="flex max-w-sm items-center gap-3 rounded-md bg-muted/30 p-3">
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 shrink-0 animate-spin text-muted-foreground" />
+        ) : hasFailed ? (
+          <ImageOff className="h-5 w-5 shrink-0 text-muted-foreground" />
+        ) : (
+          <ShieldCheck className="h-5 w-5 shrink-0 text-muted-foreground" />
+        )}
+        <div className="min-w-0 flex-1">
+          <p className="truncate text-sm font-medium" title={url}>
+            {domain}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {isLoading
+              ? 'Loading image privately...'
+              : hasFailed
+                ? 'Could not load this image privately'
+                : 'Image not loaded to protect your privacy'}
+          </p>
+        </div>
+        {!isLoading && (
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button variant="secondary" size="sm" className="shrink-0" onClick={loadDirectly}>
+                  Load
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>{domain} will see your IP address</p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative group/media">
+      <img
+        src={src}
+        alt="Embedded media"
+        className="rounded-md max-w-full max-h-64 w-auto h-auto object-contain cursor-pointer hover:opacity-90 transition-opacity"
+        loading="lazy"
+        referrerPolicy="no-referrer"
+        onClick={onOpen}
+      />
+      <TooltipProvider>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="secondary"
+              size="icon"
+              className="absolute top-2 right-2 h-8 w-8 opacity-0 group-hover/media:opacity-100 transition-opacity shadow-lg"
+              onClick={(e) => {
+                e.stopPropagation();
+                handleDownload();
+              }}
+            >
+              <Download className="h-4 w-4" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>Download as PNG</p>
+          </TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { Download, Eye, EyeOff, File, FileArchive, FileText, KeyRound, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { Attachment } from '../backend';
+import { downloadFile, fetchAttachmentBlob } from '../utils/downloadMedia';
+import { isArchiveMimeType, isTextMimeType, sniffMimeType, SNIFF_LENGTH } from '../utils/fileTypes';
+import { highlightSource, type TokenType } from '../utils/syntaxHighlight';
+import { formatFileSize } from '../utils/uploadProgress';
+
+// Larger files are only offered for download
+const MAX_PDF_PREVIEW_SIZE = 20 * 1024 * 1024;
+const MAX_TEXT_PREVIEW_SIZE = 1024 * 1024;
+// Only the start of a text file is shown
+const TEXT_PREVIEW_LENGTH = 64 * 1024;
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  plain: '',
+  comment: 'text-muted-foreground italic',
+  string: 'text-emerald-600 dark:text-emerald-400',
+  number: 'text-amber-600 dark:text-amber-400',
+  keyword: 'text-sky-600 dark:text-sky-400 font-medium',
+  tag: 'text-rose-600 dark:text-rose-400',
+};
+
+type Preview =
+  | { kind: 'pdf'; url: string }
+  | { kind: 'text'; text: string; isTruncated: boolean }
+  | { kind: 'unavailable' };
+
+interface FileAttachmentCardProps {
+  messageId: bigint;
+  attachment: Attachment;
+  isEncrypted: boolean;
+  mediaCryptoKey?: CryptoKey;
+}
+
+function getPreviewKind(mimeType: string, size: number): 'pdf' | 'text' | null {
+  if (mimeType === 'application/pdf' && size <= MAX_PDF_PREVIEW_SIZE) return 'pdf';
+  if (isTextMimeType(mimeType) && size <= MAX_TEXT_PREVIEW_SIZE) return 'text';
+  return null;
+}
+
+/**
+ * Load a preview of a file. The type the sender recorded only decides whether a
+ * preview is offered; what is shown depends on the type sniffed from the bytes.
+ */
+async function loadPreview(attachment: Attachment, mediaCryptoKey?: CryptoKey): Promise<Preview> {
+  const blob = await fetchAttachmentBlob(attachment.blob, 'application/octet-stream', mediaCryptoKey);
+  const header = new Uint8Array(await blob.slice(0, SNIFF_LENGTH).arrayBuffer());
+  const mimeType = sniffMimeType(header, attachment.fileName ?? '');
+
+  if (mimeType === 'application/pdf') {
+    return { kind: 'pdf', url: URL.createObjectURL(new Blob([blob], { type: 'application/pdf' })) };
+  }
+  if (isTextMimeType(mimeType)) {
+    const bytes = new Uint8Array(await blob.slice(0, TEXT_PREVIEW_LENGTH).arrayBuffer());
+    const text = new TextDecoder().decode(bytes);
+    return { kind: 'text', text, isTruncated: blob.size > TEXT_PREVIEW_LENGTH };
+  }
+  return { kind: 'unavailable' };
+}
+
+function FileIcon({ mimeType }: { mimeType: string }) {
+  if (mimeType === 'application/pdf' || isTextMimeType(mimeType)) {
+    return <FileText className="h-8 w-8 shrink-0 text-primary" />;
+  }
+  if (isArchiveMimeType(mimeType)) {
+    return <FileArchive className="h-8 w-8 shrink-0 text-primary" />;
+  }
+  return <File className="h-8 w-8 shrink-0 text-primary" />;
+}
+
+function FilePreview({ preview, fileName }: { preview: Preview; fileName: string }) {
+  if (preview.kind === 'pdf') {
+    // Rendered by the browser's own PDF viewer, and only once the reader asks for the preview
+    return (
+      <object
+        data={`${preview.url}#page=1&view=FitH&toolbar=0`}
+        type="application/pdf"
+        aria-label={`Preview of ${fileName}`}
+        className="h-72 w-full rounded-md border bg-background"
+      >
+        <p className="p-3 text-xs text-muted-foreground">This browser cannot show PDF previews</p>
+      </object>
+    );
+  }
+
+  if (preview.kind === 'text') {
+    return (
+      <pre className="max-h-72 overflow-auto rounded-md border bg-background p-3 text-xs leading-relaxed">
+        <code>
+          {highlightSource(preview.text, fileName).map((token, index) =>
+            token.type === 'plain' ? (
+              token.text
+            ) : (
+              <span key={index} className={TOKEN_CLASSES[token.type]}>
+                {token.text}
+              </span>
+            )
+          )}
+        </code>
+        {preview.isTruncated && <span className="block pt-2 text-muted-foreground">…</span>}
+      </pre>
+    );
+  }
+
+  return <p className="text-xs text-muted-foreground">No preview is available for this file</p>;
+}
+
+/**
+ * Download card for a file attachment, with an inline preview of PDFs and text
+ * files that is only fetched when asked for.
+ */
+export default function FileAttachmentCard({ messageId, attachment, isEncrypted, mediaCryptoKey }: FileAttachmentCardProps) {
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [downloadProgress, setDownloadProgress] = useState(0);
+
+  const fileName = attachment.fileName ?? `file-${messageId}`;
+  const size = Number(attachment.size);
+  const previewKind = getPreviewKind(attachment.mimeType, size);
+  const isLocked = isEncrypted && !mediaCryptoKey;
+  // The name of a file in an encrypted room is sealed with the media key
+  const label = isLocked ? 'Encrypted file' : fileName;
+  const key = isEncrypted ? mediaCryptoKey : undefined;
+
+  useEffect(() => {
+    if (preview?.kind !== 'pdf') return;
+    const url = preview.url;
+    return () => URL.revokeObjectURL(url);
+  }, [preview]);
+
+  const handleTogglePreview = async () => {
+    if (isPreviewOpen || preview) {
+      setIsPreviewOpen(!isPreviewOpen);
+      return;
+    }
+
+    setIsLoadingPreview(true);
+    try {
+      setPreview(await loadPreview(attachment, key));
+      setIsPreviewOpen(true);
+    } catch (error) {
+      console.error('Failed to load file preview:', error);
+      toast.error('Failed to load preview');
+    } finally {
+      setIsLoadingPreview(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    setDownloadProgress(0);
+
+    try {
+      await downloadFile(attachment.blob, fileName, (progress) => setDownloadProgress(progress), key);
+    } catch (error) {
+      console.error('Failed to download file:', error);
+      toast.error('Failed to download file. Please try again.');
+    } finally {
+      setIsDownloading(false);
+      setDownloadProgress(0);
+    }
+  };
+
+  return (
+    <div className="w-72 max-w-full space-y-2 rounded-lg bg-muted/30 p-3">
+      <div className="flex items-center gap-3">
+        <FileIcon mimeType={attachment.mimeType} />
+        <div className="min-w-0 flex-1">
+          <p className="truncate text-sm font-medium" title={label}>
+            {label}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {size > 0 ? formatFileSize(size) : 'Unknown size'}
+          </p>
+        </div>
+        {isLocked ? (
+          <KeyRound className="h-4 w-4 shrink-0 text-muted-foreground" aria-label="This file could not be decrypted" />
+        ) : (
+          <TooltipProvider>
+            {previewKind && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={handleTogglePreview}
+                    disabled={isLoadingPreview}
+                  >
+                    {isLoadingPreview ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : isPreviewOpen ? (
+                      <EyeOff className="h-4 w-4" />
+                    ) : (
+                      <Eye className="h-4 w-4" />
+                    )}
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>{isPreviewOpen ? 'Hide preview' : 'Show preview'}</p>
+                </TooltipContent>
+              </Tooltip>
+            )}
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={handleDownload}
+                  disabled={isDownloading}
+                >
+                  {isDownloading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>{isDownloading ? `Downloading... ${downloadProgress}%` : 'Download file'}</p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        )}
+      </div>
+      {isPreviewOpen && preview && <FilePreview preview={preview} fileName={fileName} />}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ShieldCheck } from 'lucide-react';
+import { useExternalMediaStore, type ExternalMediaMode } from '../hooks/useExternalMedia';
+
+const MODE_OPTIONS: Array<{ value: ExternalMediaMode; label: string; description: string }> = [
+  { value: 'click', label: 'Ask first', description: 'Show the site name until you click' },
+  { value: 'proxy', label: 'Load privately', description: 'The app fetches images so sites never see you' },
+  { value: 'direct', label: 'Always load', description: 'Sites see your IP address' },
+];
+
+interface MediaPrivacyMenuProps {
+  isEncrypted: boolean;
+}
+
+// Chooses how images linked in messages are loaded on this device. The canister cannot read
+// the messages of encrypted rooms to check their links, so there images wait for a click instead.
+export default function MediaPrivacyMenu({ isEncrypted }: MediaPrivacyMenuProps) {
+  const mode = useExternalMediaStore((state) => state.mode);
+  const setMode = useExternalMediaStore((state) => state.setMode);
+  const roomMode = isEncrypted && mode === 'proxy' ? 'click' : mode;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-1">
+          <ShieldCheck className="h-4 w-4" />
+          Linked images
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-72">
+        <DropdownMenuLabel>Images linked in messages</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup value={roomMode} onValueChange={(value) => setMode(value as ExternalMediaMode)}>
+          {MODE_OPTIONS.map((option) => {
+            const isUnavailable = isEncrypted && option.value === 'proxy';
+            return (
+              <DropdownMenuRadioItem key={option.value} value={option.value} disabled={isUnavailable}>
+                <div>
+                  <p>{option.label}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {isUnavailable ? 'Not available in encrypted rooms' : option.description}
+                  </p>
+                </div>
+              </DropdownMenuRadioItem>
+            );
+          })}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
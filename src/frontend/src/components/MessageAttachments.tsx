@@ -0,0 +1,468 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { AlertCircle, Download, KeyRound, Loader2, Pause, Play } from 'lucide-react';
+import { toast } from 'sonner';
+import { AttachmentKind, type Attachment } from '../backend';
+import { useDecryptedMedia } from '../hooks/useDecryptedMedia';
+import { downloadImageAsPNG, downloadVideoAsMP4 } from '../utils/downloadMedia';
+import FileAttachmentCard from './FileAttachmentCard';
+
+// Tiles shown in an album before the rest is summarized as "+N"
+const MAX_ALBUM_TILES = 6;
+
+interface MessageAttachmentsProps {
+  messageId: bigint;
+  attachments: Attachment[];
+  // Attachments of encrypted rooms are sealed with the message's media key
+  isEncrypted: boolean;
+  mediaCryptoKey?: CryptoKey;
+  // Opens the lightbox at the given image, counted among the message's image attachments
+  onOpenImage: (index: number) => void;
+}
+
+interface AttachmentProps {
+  attachment: Attachment;
+  isEncrypted: boolean;
+  mediaCryptoKey?: CryptoKey;
+  filename: string;
+}
+
+function MediaStatus({ label, isDecrypting }: { label: string; isDecrypting: boolean }) {
+  return (
+    <div className="flex items-center gap-2 bg-muted/30 rounded-md p-3 text-xs text-muted-foreground max-w-sm">
+      {isDecrypting ? (
+        <Loader2 className="h-4 w-4 shrink-0 animate-spin" />
+      ) : (
+        <KeyRound className="h-4 w-4 shrink-0" />
+      )}
+      <span>{isDecrypting ? `Decrypting ${label}...` : `This ${label} could not be decrypted`}</span>
+    </div>
+  );
+}
+
+function LoadError({ label }: { label: string }) {
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-muted/80 rounded-md">
+      <div className="text-center p-2">
+        <AlertCircle className="h-6 w-6 mx-auto mb-1 text-muted-foreground" />
+        <p className="text-xs text-muted-foreground">{label} failed to load</p>
+      </div>
+    </div>
+  );
+}
+
+function AlbumTile({ attachment, isEncrypted, mediaCryptoKey, isSingle, hiddenCount, onOpen, onDownload }: {
+  attachment: Attachment;
+  isEncrypted: boolean;
+  mediaCryptoKey?: CryptoKey;
+  // A lone image keeps its aspect ratio instead of being cropped to a square
+  isSingle: boolean;
+  // Images of the album beyond the last tile
+  hiddenCount: number;
+  onOpen: () => void;
+  onDownload: () => void;
+}) {
+  const { url, isDecrypting } = useDecryptedMedia(attachment.blob, isEncrypted, mediaCryptoKey);
+  const [hasError, setHasError] = useState(false);
+
+  if (!url) {
+    return <MediaStatus label="image" isDecrypting={isDecrypting} />;
+  }
+
+  return (
+    <div className="relative group/image">
+      <img
+        src={url}
+        alt="Uploaded image"
+        className={`rounded-md cursor-pointer ${
+          isSingle
+            ? 'max-w-full max-h-64 w-auto h-auto object-contain'
+            : 'aspect-square w-full h-full object-cover'
+        }`}
+        loading="lazy"
+        onClick={onOpen}
+        onError={(e) => {
+          console.error('Image load error:', e);
+          setHasError(true);
+        }}
+        onLoad={() => setHasError(false)}
+      />
+      {hasError && <LoadError label="Image" />}
+      {hiddenCount > 0 && (
+        <span
+          className="absolute inset-0 flex items-center justify-center rounded-md bg-black/50 text-lg font-semibold text-white cursor-pointer"
+          onClick={onOpen}
+        >
+          +{hiddenCount}
+        </span>
+      )}
+      {isSingle && !hasError && (
+        <TooltipProvider>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="secondary"
+                size="icon"
+                className="absolute top-2 right-2 h-8 w-8 opacity-0 group-hover/image:opacity-100 transition-opacity shadow-lg"
+                onClick={onDownload}
+              >
+                <Download className="h-4 w-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>Download as PNG</p>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+      )}
+    </div>
+  );
+}
+
+function ImageAlbum({ messageId, images, isEncrypted, mediaCryptoKey, onOpenImage }: {
+  messageId: bigint;
+  images: Attachment[];
+  isEncrypted: boolean;
+  mediaCryptoKey?: CryptoKey;
+  onOpenImage: (index: number) => void;
+}) {
+  const tiles = images.slice(0, MAX_ALBUM_TILES);
+  const columns = images.length === 1 ? '' : images.length === 2 || images.length === 4 ? 'grid-cols-2' : 'grid-cols-3';
+
+  const handleDownload = async (index: number) => {
+    try {
+      const filename = images.length > 1 ? `image-${messageId}-${index + 1}.png` : `image-${messageId}.png`;
+      await downloadImageAsPNG(images[index].blob, filename, mediaCryptoKey);
+    } catch (error) {
+      console.error('Failed to download image:', error);
+      toast.error('Failed to download image. Please try again.');
+    }
+  };
+
+  return (
+    <div className={`grid gap-1 ${columns}`}>
+      {tiles.map((image, index) => (
+        <AlbumTile
+          key={index}
+          attachment={image}
+          isEncrypted={isEncrypted}
+          mediaCryptoKey={mediaCryptoKey}
+          isSingle={images.length === 1}
+          hiddenCount={index === tiles.length - 1 ? images.length - tiles.length : 0}
+          onOpen={() => onOpenImage(index)}
+          onDownload={() => handleDownload(index)}
+        />
+      ))}
+    </div>
+  );
+}
+
+function VideoAttachment({ attachment, isEncrypted, mediaCryptoKey, filename }: AttachmentProps) {
+  const { url, isDecrypting } = useDecryptedMedia(attachment.blob, isEncrypted, mediaCryptoKey);
+  const [hasError, setHasError] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [downloadProgress, setDownloadProgress] = useState(0);
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    setDownloadProgress(0);
+
+    try {
+      await downloadVideoAsMP4(attachment.blob, filename, (progress) => setDownloadProgress(progress), mediaCryptoKey);
+      toast.success('Video downloaded successfully!');
+    } catch (error) {
+      console.error('Failed to download video:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      toast.error(`Failed to download video: ${errorMessage}`);
+    } finally {
+      setIsDownloading(false);
+      setDownloadProgress(0);
+    }
+  };
+
+  if (!url) {
+    return <MediaStatus label="video" isDecrypting={isDecrypting} />;
+  }
+
+  return (
+    <div className="relative group/video">
+      <video
+        src={url}
+        controls
+        className="rounded-md max-w-full max-h-96 w-auto h-auto"
+        preload="metadata"
+        playsInline
+        onError={(e) => {
+          console.error('Video load error:', e);
+          setHasError(true);
+        }}
+        onLoadedMetadata={() => setHasError(false)}
+      >
+        Your browser does not support the video tag.
+      </video>
+      {hasError ? (
+        <LoadError label="Video" />
+      ) : (
+        <TooltipProvider>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="secondary"
+                size="icon"
+                className="absolute top-2 right-2 h-8 w-8 opacity-0 group-hover/video:opacity-100 transition-opacity shadow-lg"
+                onClick={handleDownload}
+                disabled={isDownloading}
+              >
+                {isDownloading ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Download className="h-4 w-4" />
+                )}
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>
+                {isDownloading
+                  ? `Downloading... ${downloadProgress}%`
+                  : 'Download video as MP4'}
+              </p>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+      )}
+    </div>
+  );
+}
+
+const formatTime = (seconds: number) => {
+  if (isNaN(seconds) || !isFinite(seconds)) return '0:00';
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+function AudioAttachment({ attachment, isEncrypted, mediaCryptoKey }: Omit<AttachmentProps, 'filename'>) {
+  const { url, isDecrypting } = useDecryptedMedia(attachment.blob, isEncrypted, mediaCryptoKey);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [progress, setProgress] = useState(0);
+  // Recorded when sent; recordings often only report their real duration once played
+  const [duration, setDuration] = useState(
+    attachment.durationMs !== undefined ? Number(attachment.durationMs) / 1000 : 0
+  );
+  const [hasError, setHasError] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    const updateProgress = () => {
+      if (audio && !isNaN(audio.currentTime)) {
+        setProgress(audio.currentTime);
+      }
+    };
+
+    const handleLoadedMetadata = () => {
+      if (audio && !isNaN(audio.duration)) {
+        if (isFinite(audio.duration)) {
+          setDuration(audio.duration);
+        }
+        setIsLoading(false);
+        setHasError(false);
+      }
+    };
+
+    const handleEnded = () => {
+      setIsPlaying(false);
+      setProgress(0);
+    };
+
+    const handleError = (e: Event) => {
+      console.error('Audio playback error:', e);
+      setHasError(true);
+      setIsLoading(false);
+      setIsPlaying(false);
+    };
+
+    const handleCanPlay = () => {
+      setIsLoading(false);
+      setHasError(false);
+    };
+
+    audio.addEventListener('timeupdate', updateProgress);
+    audio.addEventListener('loadedmetadata', handleLoadedMetadata);
+    audio.addEventListener('ended', handleEnded);
+    audio.addEventListener('error', handleError);
+    audio.addEventListener('canplay', handleCanPlay);
+
+    return () => {
+      audio.removeEventListener('timeupdate', updateProgress);
+      audio.removeEventListener('loadedmetadata', handleLoadedMetadata);
+      audio.removeEventListener('ended', handleEnded);
+      audio.removeEventListener('error', handleError);
+      audio.removeEventListener('canplay', handleCanPlay);
+    };
+  }, [url]);
+
+  const togglePlayback = async () => {
+    const audio = audioRef.current;
+    if (!audio || hasError) return;
+
+    try {
+      if (isPlaying) {
+        audio.pause();
+        setIsPlaying(false);
+      } else {
+        await audio.play();
+        setIsPlaying(true);
+      }
+    } catch (error) {
+      console.error('Error toggling audio playback:', error);
+      setHasError(true);
+      setIsPlaying(false);
+    }
+  };
+
+  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const audio = audioRef.current;
+    if (!audio || hasError) return;
+
+    try {
+      const newTime = parseFloat(e.target.value);
+      if (!isNaN(newTime)) {
+        audio.currentTime = newTime;
+        setProgress(newTime);
+      }
+    } catch (error) {
+      console.error('Error seeking audio:', error);
+    }
+  };
+
+  if (!url) {
+    return <MediaStatus label="audio" isDecrypting={isDecrypting} />;
+  }
+
+  return (
+    <div className="flex items-center gap-3 bg-muted/30 rounded-lg p-3 max-w-sm">
+      <audio
+        ref={audioRef}
+        src={url}
+        preload="metadata"
+        crossOrigin="anonymous"
+      />
+      {hasError ? (
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <AlertCircle className="h-5 w-5" />
+          <span className="text-xs">Audio unavailable</span>
+        </div>
+      ) : (
+        <>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-10 w-10 shrink-0"
+            onClick={togglePlayback}
+            disabled={isLoading || hasError}
+          >
+            {isLoading ? (
+              <div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+            ) : isPlaying ? (
+              <Pause className="h-5 w-5" />
+            ) : (
+              <Play className="h-5 w-5" />
+            )}
+          </Button>
+          <div className="flex-1 min-w-0 space-y-1">
+            <input
+              type="range"
+              min="0"
+              max={duration || 0}
+              value={progress}
+              onChange={handleSeek}
+              disabled={isLoading || hasError}
+              className="w-full h-1 bg-muted rounded-lg appearance-none cursor-pointer accent-primary disabled:opacity-50"
+            />
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>{formatTime(progress)}</span>
+              <span>{formatTime(duration)}</span>
+            </div>
+          </div>
+          <img
+            src="/assets/generated/audio-waveform-icon-transparent.dim_32x32.png"
+            alt="Audio"
+            className="h-6 w-6 opacity-50"
+          />
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Media attached to a message: images as an album that opens in a swipeable
+ * viewer, followed by each video, audio clip and file in the order they were attached.
+ */
+export default function MessageAttachments({
+  messageId,
+  attachments,
+  isEncrypted,
+  mediaCryptoKey,
+  onOpenImage,
+}: MessageAttachmentsProps) {
+  const images = attachments.filter((attachment) => attachment.kind === AttachmentKind.image);
+  const videoCount = attachments.filter((attachment) => attachment.kind === AttachmentKind.video).length;
+  let videoIndex = 0;
+
+  return (
+    <>
+      {images.length > 0 && (
+        <ImageAlbum
+          messageId={messageId}
+          images={images}
+          isEncrypted={isEncrypted}
+          mediaCryptoKey={mediaCryptoKey}
+          onOpenImage={onOpenImage}
+        />
+      )}
+      {attachments.map((attachment, index) => {
+        if (attachment.kind === AttachmentKind.video) {
+          videoIndex++;
+          const filename = videoCount > 1 ? `video-${messageId}-${videoIndex}.mp4` : `video-${messageId}.mp4`;
+          return (
+            <VideoAttachment
+              key={index}
+              attachment={attachment}
+              isEncrypted={isEncrypted}
+              mediaCryptoKey={mediaCryptoKey}
+              filename={filename}
+            />
+          );
+        }
+        if (attachment.kind === AttachmentKind.audio) {
+          return (
+            <AudioAttachment
+              key={index}
+              attachment={attachment}
+              isEncrypted={isEncrypted}
+              mediaCryptoKey={mediaCryptoKey}
+            />
+          );
+        }
+        if (attachment.kind === AttachmentKind.file) {
+          return (
+            <FileAttachmentCard
+              key={index}
+              messageId={messageId}
+              attachment={attachment}
+              isEncrypted={isEncrypted}
+              mediaCryptoKey={mediaCryptoKey}
+            />
+          );
+        }
+        return null;
+      })}
+    </>
+  );
+}
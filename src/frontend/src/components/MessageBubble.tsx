@@ -1,30 +1,58 @@
 import { formatDistanceToNow } from 'date-fns';
-import type { MessageView, Reaction } from '../backend';
+import { AttachmentKind, type MessageView, type Reaction } from '../backend';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { Reply, Edit2, Trash2, Smile, Play, Pause, AlertCircle, Download, Loader2 } from 'lucide-react';
-import { useState, useRef, useEffect } from 'react';
-import { downloadImageAsPNG, downloadVideoAsMP4 } from '../utils/downloadMedia';
+import { Reply, Edit2, Trash2, Smile, AlertCircle, Download, Loader2, KeyRound, ShieldOff, Timer, Flame, EyeOff, Eye, X, Clock, Check } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
 import { toast } from 'sonner';
+import type { DecryptedMessageView } from '../utils/roomCrypto';
+import { getDeliveryState } from '../hooks/useMessageStore';
+import { revokeDecryptedMedia } from '../hooks/useDecryptedMedia';
+import { useExpiryCountdown } from '../hooks/useExpiryCountdown';
+import { formatTimeRemaining, getExpiryWarningMs, getMessageExpiresAt } from '../utils/messageExpiry';
+import { describeSelfDestruct, getSelfDestructAt } from '../utils/selfDestruct';
+import { describeUploadProgress } from '../utils/uploadProgress';
+import { isAttachmentPlaceholder } from '../utils/attachments';
+import { collectMessageImages, detectMediaUrls, type ViewerItem } from '../utils/mediaGallery';
+import MessageAttachments from './MessageAttachments';
+import ExternalMediaEmbed from './ExternalMediaEmbed';
+import EmojiText from './EmojiText';
+import { formatShortcode, getCustomEmojiUrl } from '../utils/emoji';
 
 interface MessageBubbleProps {
+  roomId: string;
   message: MessageView;
   currentNickname: string;
-  currentUserId: string;
+  currentUserId: string | null;
   onReply: (message: MessageView) => void;
   onEdit: (message: MessageView) => void;
   onDelete: (message: MessageView) => void;
   onReaction: (messageId: bigint, emoji: string) => void;
   onJumpToMessage?: (messageId: bigint) => void;
-  allMessages: MessageView[];
+  // Opens the lightbox at one of the message's images, in the order of collectMessageImages
+  onOpenImage: (messageImages: ViewerItem[], index: number) => void;
+  repliedToMessage?: MessageView | null;
+  // Retention of the room in nanoseconds, used for the expiry countdown
+  messageTTL?: bigint | null;
+  // Opens a self-destructing message; resolves to it with its content, or null once it cannot be read
+  onOpenSelfDestruct?: (message: MessageView) => Promise<MessageView | null>;
+  onConsumed?: (messageId: bigint) => void;
+  // Resend a failed message, or cancel one that waits in the outbox
+  onRetrySend?: (message: MessageView) => void;
+  onCancelSend?: (message: MessageView) => void;
+  // Image URLs of the room's custom emoji by shortcode, for message text, reactions and the reaction picker
+  customEmojiUrls?: Map<string, string>;
 }
 
 const REACTION_EMOJIS = ['❤️', '😂', '👍', '😮'];
 
+const NO_CUSTOM_EMOJI = new Map<string, string>();
+
 export default function MessageBubble({ 
-  message, 
+  roomId,
+  message: storedMessage, 
   currentNickname, 
   currentUserId,
   onReply, 
@@ -32,25 +60,50 @@ export default function MessageBubble({
   onDelete, 
   onReaction,
   onJumpToMessage,
-  allMessages 
+  onOpenImage,
+  repliedToMessage = null,
+  messageTTL = null,
+  onOpenSelfDestruct,
+  onConsumed,
+  onRetrySend,
+  onCancelSend,
+  customEmojiUrls = NO_CUSTOM_EMOJI
 }: MessageBubbleProps) {
+  // A self-destructing message as returned when it was opened; fetched copies leave its content out
+  const [revealedMessage, setRevealedMessage] = useState<MessageView | null>(null);
+  const [openedAt, setOpenedAt] = useState<number | null>(null);
+  const [isOpening, setIsOpening] = useState(false);
+  const message = revealedMessage ?? storedMessage;
   const timestamp = new Date(Number(message.timestamp) / 1_000_000);
   const timeAgo = formatDistanceToNow(timestamp, { addSuffix: true });
-  const [imageError, setImageError] = useState(false);
-  const [videoError, setVideoError] = useState(false);
+  const expiresAt = messageTTL !== null ? getMessageExpiresAt(message.timestamp, messageTTL) : null;
+  const timeRemaining = useExpiryCountdown(expiresAt);
+  const isExpiringSoon = timeRemaining !== null && messageTTL !== null && timeRemaining <= getExpiryWarningMs(messageTTL);
   const [showReactionPicker, setShowReactionPicker] = useState(false);
-  const [isPlayingAudio, setIsPlayingAudio] = useState(false);
-  const [audioProgress, setAudioProgress] = useState(0);
-  const [audioDuration, setAudioDuration] = useState(0);
-  const [audioError, setAudioError] = useState(false);
-  const [audioLoading, setAudioLoading] = useState(true);
-  const [isDownloadingVideo, setIsDownloadingVideo] = useState(false);
-  const [videoDownloadProgress, setVideoDownloadProgress] = useState(0);
-  const audioRef = useRef<HTMLAudioElement | null>(null);
   const isOwnMessage = message.owner === currentUserId;
+
+  // Recipients see a placeholder for self-destructing messages until they tap to open them
+  const selfDestruct = storedMessage.selfDestruct;
+  const isConsumed = storedMessage.isConsumed && !revealedMessage;
+  const isSealed =
+    !!selfDestruct &&
+    !isOwnMessage &&
+    !revealedMessage &&
+    !storedMessage.isConsumed &&
+    storedMessage.firstViewedAt === undefined;
+  const selfDestructRemaining = useExpiryCountdown(
+    storedMessage.isConsumed && !revealedMessage ? null : getSelfDestructAt(message, openedAt)
+  );
+  const canEdit = !selfDestruct || (storedMessage.firstViewedAt === undefined && !storedMessage.isConsumed);
   
   // Check if message is optimistic (not yet confirmed by backend)
   const isOptimistic = (message as any).isOptimistic === true;
+  const delivery = getDeliveryState(message);
+  const contentState = (message as DecryptedMessageView).contentState;
+
+  // Media of encrypted rooms is sealed with a per-message key and decrypted for display
+  const mediaCryptoKey = (message as DecryptedMessageView).mediaCryptoKey;
+  const hasEncryptedMedia = message.mediaKey !== undefined && message.mediaKey !== null;
 
   const getInitials = (name: string) => {
     return name
@@ -61,10 +114,6 @@ export default function MessageBubble({
       .slice(0, 2);
   };
 
-  const repliedToMessage = message.replyToId !== null && message.replyToId !== undefined
-    ? allMessages.find(m => m.id === message.replyToId)
-    : null;
-
   const getMessagePreview = (content: string) => {
     const text = content.length > 50 ? content.substring(0, 50) + '...' : content;
     return text;
@@ -86,6 +135,12 @@ export default function MessageBubble({
     return acc;
   }, {} as Record<string, { count: number; users: string[]; hasCurrentUser: boolean }>);
 
+  // Custom emoji reactions are stored as :shortcode: and drawn as images while the room still has them
+  const renderEmoji = (emoji: string, className: string) => {
+    const url = getCustomEmojiUrl(emoji, customEmojiUrls);
+    return url ? <img src={url} alt={emoji} title={emoji} className={`${className} object-contain`} /> : emoji;
+  };
+
   const handleReactionClick = (emoji: string) => {
     onReaction(message.id, emoji);
     setShowReactionPicker(false);
@@ -97,380 +152,103 @@ export default function MessageBubble({
     }
   };
 
-  const handleDownloadImage = async (source: string, filename: string) => {
-    try {
-      const pngFilename = filename.replace(/\.[^.]+$/, '.png');
-      await downloadImageAsPNG(source, pngFilename);
-    } catch (error) {
-      console.error('Failed to download image:', error);
-      toast.error('Failed to download image. Please try again.');
-    }
-  };
-
-  const handleDownloadUploadedImage = async () => {
-    if (!message.imageUrl) return;
-    
-    try {
-      const filename = `image-${message.id}.png`;
-      await downloadImageAsPNG(message.imageUrl, filename);
-    } catch (error) {
-      console.error('Failed to download image:', error);
-      toast.error('Failed to download image. Please try again.');
-    }
-  };
+  const handleOpenSelfDestruct = async () => {
+    if (!onOpenSelfDestruct || isOpening) return;
 
-  const handleDownloadVideo = async () => {
-    if (!message.videoUrl) return;
-    
-    setIsDownloadingVideo(true);
-    setVideoDownloadProgress(0);
-    
+    setIsOpening(true);
     try {
-      const filename = `video-${message.id}.mp4`;
-      await downloadVideoAsMP4(
-        message.videoUrl, 
-        filename,
-        (progress) => setVideoDownloadProgress(progress)
-      );
-      toast.success('Video downloaded successfully!');
-    } catch (error) {
-      console.error('Failed to download video:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      toast.error(`Failed to download video: ${errorMessage}`);
-    } finally {
-      setIsDownloadingVideo(false);
-      setVideoDownloadProgress(0);
-    }
-  };
-
-  useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
-
-    const updateProgress = () => {
-      if (audio && !isNaN(audio.currentTime)) {
-        setAudioProgress(audio.currentTime);
+      const opened = await onOpenSelfDestruct(storedMessage);
+      if (opened) {
+        setRevealedMessage(opened);
+        setOpenedAt(Date.now());
       }
-    };
-
-    const handleLoadedMetadata = () => {
-      if (audio && !isNaN(audio.duration)) {
-        setAudioDuration(audio.duration);
-        setAudioLoading(false);
-        setAudioError(false);
-      }
-    };
-
-    const handleEnded = () => {
-      setIsPlayingAudio(false);
-      setAudioProgress(0);
-    };
-
-    const handleError = (e: Event) => {
-      console.error('Audio playback error:', e);
-      setAudioError(true);
-      setAudioLoading(false);
-      setIsPlayingAudio(false);
-    };
-
-    const handleCanPlay = () => {
-      setAudioLoading(false);
-      setAudioError(false);
-    };
-
-    audio.addEventListener('timeupdate', updateProgress);
-    audio.addEventListener('loadedmetadata', handleLoadedMetadata);
-    audio.addEventListener('ended', handleEnded);
-    audio.addEventListener('error', handleError);
-    audio.addEventListener('canplay', handleCanPlay);
-
-    return () => {
-      audio.removeEventListener('timeupdate', updateProgress);
-      audio.removeEventListener('loadedmetadata', handleLoadedMetadata);
-      audio.removeEventListener('ended', handleEnded);
-      audio.removeEventListener('error', handleError);
-      audio.removeEventListener('canplay', handleCanPlay);
-    };
-  }, [message.audioUrl]);
-
-  const toggleAudioPlayback = async () => {
-    const audio = audioRef.current;
-    if (!audio || audioError) return;
-
-    try {
-      if (isPlayingAudio) {
-        audio.pause();
-        setIsPlayingAudio(false);
-      } else {
-        await audio.play();
-        setIsPlayingAudio(true);
-      }
-    } catch (error) {
-      console.error('Error toggling audio playback:', error);
-      setAudioError(true);
-      setIsPlayingAudio(false);
+    } finally {
+      setIsOpening(false);
     }
   };
 
-  const handleAudioSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const audio = audioRef.current;
-    if (!audio || audioError) return;
-
-    try {
-      const newTime = parseFloat(e.target.value);
-      if (!isNaN(newTime)) {
-        audio.currentTime = newTime;
-        setAudioProgress(newTime);
-      }
-    } catch (error) {
-      console.error('Error seeking audio:', error);
-    }
+  // Drop the readable copy: decrypted media URLs, the snapshot and the cached message
+  const consumeMessage = () => {
+    revokeDecryptedMedia(message.attachments.map((attachment) => attachment.blob));
+    setRevealedMessage(null);
+    onConsumed?.(storedMessage.id);
   };
 
-  const formatTime = (seconds: number) => {
-    if (isNaN(seconds) || !isFinite(seconds)) return '0:00';
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
-  };
+  useEffect(() => {
+    if (selfDestructRemaining === 0) consumeMessage();
+  }, [selfDestructRemaining]);
 
-  const detectMediaUrls = (text: string): string[] => {
-    const mediaUrls: string[] = [];
-    const seenUrls = new Set<string>();
-    
-    const extensionRegex = /(https?:\/\/[^\s<>"]+\.(gif|png|jpe?g|webp)(?:[?#][^\s<>"]*)?)/gi;
-    let match;
-    
-    while ((match = extensionRegex.exec(text)) !== null) {
-      const url = match[0];
-      if (!seenUrls.has(url)) {
-        seenUrls.add(url);
-        mediaUrls.push(url);
-      }
-    }
-    
-    const tenorRegex = /(https?:\/\/(?:[a-z0-9-]+\.)?tenor\.com\/[^\s<>"]+)/gi;
-    while ((match = tenorRegex.exec(text)) !== null) {
-      const url = match[0];
-      if (!seenUrls.has(url)) {
-        seenUrls.add(url);
-        mediaUrls.push(url);
-      }
-    }
-    
-    const giphyRegex = /(https?:\/\/(?:[a-z0-9-]+\.)?giphy\.com\/[^\s<>"]+)/gi;
-    while ((match = giphyRegex.exec(text)) !== null) {
-      const url = match[0];
-      if (!seenUrls.has(url)) {
-        seenUrls.add(url);
-        mediaUrls.push(url);
-      }
-    }
-    
-    const imgurRegex = /(https?:\/\/(?:i\.)?imgur\.com\/[^\s<>"]+)/gi;
-    while ((match = imgurRegex.exec(text)) !== null) {
-      const url = match[0];
-      if (!seenUrls.has(url)) {
-        seenUrls.add(url);
-        mediaUrls.push(url);
-      }
-    }
-    
-    return mediaUrls;
-  };
+  // The list unmounts bubbles scrolled out of view; an opened message must not outlive its bubble
+  const consumeOnUnmountRef = useRef<(() => void) | null>(null);
+  useEffect(() => {
+    consumeOnUnmountRef.current = revealedMessage ? consumeMessage : null;
+  });
+  useEffect(() => () => consumeOnUnmountRef.current?.(), []);
 
   const mediaUrls = detectMediaUrls(message.content);
   const hasMedia = mediaUrls.length > 0;
 
-  const hasUploadedImage = message.imageUrl !== undefined && message.imageUrl !== null;
-  const hasUploadedVideo = message.videoUrl !== undefined && message.videoUrl !== null;
-  const hasUploadedAudio = message.audioUrl !== undefined && message.audioUrl !== null;
+  // Linked images come after the image attachments in the lightbox
+  const imageAttachmentCount = message.attachments.filter((attachment) => attachment.kind === AttachmentKind.image).length;
+  const handleOpenImage = (index: number) => onOpenImage(collectMessageImages(roomId, message), index);
+
+  const renderConsumed = () => (
+    <div className="flex items-center gap-2 text-sm italic opacity-80">
+      <EyeOff className="h-4 w-4 shrink-0" />
+      <span>{isOwnMessage ? 'Opened by everyone' : 'Opened'}</span>
+    </div>
+  );
+
+  // All a recipient has of a self-destructing message until they open it
+  const renderSealed = () => (
+    <button
+      type="button"
+      className="flex w-full flex-col items-center justify-center gap-1 py-2 text-sm font-medium"
+      onClick={handleOpenSelfDestruct}
+      disabled={isOpening}
+    >
+      {isOpening ? <Loader2 className="h-5 w-5 animate-spin" /> : <Eye className="h-5 w-5" />}
+      <span>Tap to view</span>
+      {selfDestruct && (
+        <span className="text-xs font-normal text-muted-foreground">{describeSelfDestruct(selfDestruct)}</span>
+      )}
+    </button>
+  );
 
   const renderContent = () => {
     const parts: React.ReactElement[] = [];
 
-    if (hasUploadedImage && message.imageUrl) {
-      try {
-        const imageUrl = message.imageUrl.getDirectURL();
-        parts.push(
-          <div key="uploaded-image" className="relative group/image">
-            <img
-              src={imageUrl}
-              alt="Uploaded image"
-              className="rounded-md max-w-full max-h-64 w-auto h-auto object-contain"
-              loading="lazy"
-              onError={(e) => {
-                console.error('Image load error:', e);
-                setImageError(true);
-              }}
-              onLoad={() => setImageError(false)}
-            />
-            {imageError && (
-              <div className="absolute inset-0 flex items-center justify-center bg-muted/80 rounded-md">
-                <div className="text-center p-2">
-                  <AlertCircle className="h-6 w-6 mx-auto mb-1 text-muted-foreground" />
-                  <p className="text-xs text-muted-foreground">Image failed to load</p>
-                </div>
-              </div>
-            )}
-            {!imageError && (
-              <TooltipProvider>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button
-                      variant="secondary"
-                      size="icon"
-                      className="absolute top-2 right-2 h-8 w-8 opacity-0 group-hover/image:opacity-100 transition-opacity shadow-lg"
-                      onClick={handleDownloadUploadedImage}
-                    >
-                      <Download className="h-4 w-4" />
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>Download as PNG</p>
-                  </TooltipContent>
-                </Tooltip>
-              </TooltipProvider>
-            )}
-          </div>
-        );
-      } catch (error) {
-        console.error('Error getting image URL:', error);
-        setImageError(true);
-      }
-    }
-
-    if (hasUploadedVideo && message.videoUrl) {
-      try {
-        const videoUrl = message.videoUrl.getDirectURL();
-        parts.push(
-          <div key="uploaded-video" className="relative group/video">
-            <video
-              src={videoUrl}
-              controls
-              className="rounded-md max-w-full max-h-96 w-auto h-auto"
-              preload="metadata"
-              playsInline
-              onError={(e) => {
-                console.error('Video load error:', e);
-                setVideoError(true);
-              }}
-              onLoadedMetadata={() => setVideoError(false)}
-            >
-              Your browser does not support the video tag.
-            </video>
-            {videoError && (
-              <div className="absolute inset-0 flex items-center justify-center bg-muted/80 rounded-md">
-                <div className="text-center p-2">
-                  <AlertCircle className="h-6 w-6 mx-auto mb-1 text-muted-foreground" />
-                  <p className="text-xs text-muted-foreground">Video failed to load</p>
-                </div>
-              </div>
-            )}
-            {!videoError && (
-              <TooltipProvider>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button
-                      variant="secondary"
-                      size="icon"
-                      className="absolute top-2 right-2 h-8 w-8 opacity-0 group-hover/video:opacity-100 transition-opacity shadow-lg"
-                      onClick={handleDownloadVideo}
-                      disabled={isDownloadingVideo}
-                    >
-                      {isDownloadingVideo ? (
-                        <Loader2 className="h-4 w-4 animate-spin" />
-                      ) : (
-                        <Download className="h-4 w-4" />
-                      )}
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>
-                      {isDownloadingVideo 
-                        ? `Downloading... ${videoDownloadProgress}%` 
-                        : 'Download video as MP4'}
-                    </p>
-                  </TooltipContent>
-                </Tooltip>
-              </TooltipProvider>
-            )}
-          </div>
-        );
-      } catch (error) {
-        console.error('Error getting video URL:', error);
-        setVideoError(true);
-      }
+    if (contentState === 'tampered' || contentState === 'undecryptable') {
+      parts.push(
+        <div key="content-unavailable" className="flex items-center gap-2 text-sm italic opacity-80">
+          <KeyRound className="h-4 w-4 shrink-0" />
+          <span>
+            {contentState === 'tampered'
+              ? 'This message was altered or not sealed with the room key'
+              : 'This message could not be decrypted'}
+          </span>
+        </div>
+      );
     }
 
-    if (hasUploadedAudio && message.audioUrl) {
-      try {
-        const audioUrl = message.audioUrl.getDirectURL();
-        parts.push(
-          <div key="uploaded-audio" className="flex items-center gap-3 bg-muted/30 rounded-lg p-3 max-w-sm">
-            <audio 
-              ref={audioRef} 
-              src={audioUrl} 
-              preload="metadata"
-              crossOrigin="anonymous"
-            />
-            {audioError ? (
-              <div className="flex items-center gap-2 text-muted-foreground">
-                <AlertCircle className="h-5 w-5" />
-                <span className="text-xs">Audio unavailable</span>
-              </div>
-            ) : (
-              <>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  className="h-10 w-10 shrink-0"
-                  onClick={toggleAudioPlayback}
-                  disabled={audioLoading || audioError}
-                >
-                  {audioLoading ? (
-                    <div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
-                  ) : isPlayingAudio ? (
-                    <Pause className="h-5 w-5" />
-                  ) : (
-                    <Play className="h-5 w-5" />
-                  )}
-                </Button>
-                <div className="flex-1 min-w-0 space-y-1">
-                  <input
-                    type="range"
-                    min="0"
-                    max={audioDuration || 0}
-                    value={audioProgress}
-                    onChange={handleAudioSeek}
-                    disabled={audioLoading || audioError}
-                    className="w-full h-1 bg-muted rounded-lg appearance-none cursor-pointer accent-primary disabled:opacity-50"
-                  />
-                  <div className="flex justify-between text-xs text-muted-foreground">
-                    <span>{formatTime(audioProgress)}</span>
-                    <span>{formatTime(audioDuration)}</span>
-                  </div>
-                </div>
-                <img 
-                  src="/assets/generated/audio-waveform-icon-transparent.dim_32x32.png" 
-                  alt="Audio" 
-                  className="h-6 w-6 opacity-50"
-                />
-              </>
-            )}
-          </div>
-        );
-      } catch (error) {
-        console.error('Error getting audio URL:', error);
-        setAudioError(true);
-      }
+    if (message.attachments.length > 0) {
+      parts.push(
+        <MessageAttachments
+          key="attachments"
+          messageId={message.id}
+          attachments={message.attachments}
+          isEncrypted={hasEncryptedMedia}
+          mediaCryptoKey={mediaCryptoKey}
+          onOpenImage={handleOpenImage}
+        />
+      );
     }
 
     if (!hasMedia) {
-      if (message.content && !message.content.match(/^(🎬 Video|🎵 Audio|📷 Image)( message)?$/)) {
+      if (message.content && !isAttachmentPlaceholder(message.content)) {
         parts.push(
           <p key="text-content" className="text-sm whitespace-pre-wrap break-words">
-            {message.content}
+            <EmojiText text={message.content} customEmojiUrls={customEmojiUrls} />
           </p>
         );
       }
@@ -488,42 +266,19 @@ export default function MessageBubble({
         if (textBefore.trim()) {
           parts.push(
             <p key={`text-${mediaIndex}`} className="text-sm whitespace-pre-wrap break-words">
-              {textBefore}
+              <EmojiText text={textBefore} customEmojiUrls={customEmojiUrls} />
             </p>
           );
           mediaIndex++;
         }
 
         parts.push(
-          <div key={`media-${index}`} className="relative group/media">
-            <img
-              src={url}
-              alt="Embedded media"
-              className="rounded-md max-w-full max-h-64 w-auto h-auto object-contain cursor-pointer hover:opacity-90 transition-opacity"
-              loading="lazy"
-              onClick={() => window.open(url, '_blank')}
-            />
-            <TooltipProvider>
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <Button
-                    variant="secondary"
-                    size="icon"
-                    className="absolute top-2 right-2 h-8 w-8 opacity-0 group-hover/media:opacity-100 transition-opacity shadow-lg"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleDownloadImage(url, `media-${index}.png`);
-                    }}
-                  >
-                    <Download className="h-4 w-4" />
-                  </Button>
-                </TooltipTrigger>
-                <TooltipContent>
-                  <p>Download as PNG</p>
-                </TooltipContent>
-              </Tooltip>
-            </TooltipProvider>
-          </div>
+          <ExternalMediaEmbed
+            key={`media-${index}`}
+            link={{ roomId, messageId: message.id, url, isEncrypted: contentState === 'decrypted' }}
+            filename={`media-${index}.png`}
+            onOpen={() => handleOpenImage(imageAttachmentCount + index)}
+          />
         );
 
         remainingText = remainingText.substring(urlPosition + url.length);
@@ -533,7 +288,7 @@ export default function MessageBubble({
     if (remainingText.trim()) {
       parts.push(
         <p key={`text-end`} className="text-sm whitespace-pre-wrap break-words">
-          {remainingText}
+          <EmojiText text={remainingText} customEmojiUrls={customEmojiUrls} />
         </p>
       );
     }
@@ -552,16 +307,122 @@ export default function MessageBubble({
         <div className="flex items-center gap-2">
           <span className="text-sm font-semibold">{message.nickname}</span>
           <span className="text-xs text-muted-foreground">{timeAgo}</span>
+          {expiresAt !== null && timeRemaining !== null && (
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <span
+                    className={`flex items-center gap-0.5 text-xs tabular-nums ${
+                      isExpiringSoon ? 'text-destructive font-medium' : 'text-muted-foreground'
+                    }`}
+                  >
+                    <Timer className="h-3 w-3" />
+                    {formatTimeRemaining(timeRemaining)}
+                  </span>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>
+                    {isExpiringSoon
+                      ? `Disappears in ${formatTimeRemaining(timeRemaining)}`
+                      : `Auto-deletes ${new Date(expiresAt).toLocaleString()}`}
+                  </p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          )}
+          {selfDestruct && !isConsumed && (
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Badge variant="outline" className="text-xs px-1.5 py-0 gap-1 tabular-nums">
+                    <Flame className="h-3 w-3" />
+                    {selfDestructRemaining !== null
+                      ? formatTimeRemaining(selfDestructRemaining)
+                      : selfDestruct.__kind__ === 'viewOnce'
+                        ? 'view once'
+                        : `${selfDestruct.afterSeconds}s`}
+                  </Badge>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>{describeSelfDestruct(selfDestruct)}</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          )}
           {message.isEdited && (
             <Badge variant="secondary" className="text-xs px-1.5 py-0">
               edited
             </Badge>
           )}
-          {isOptimistic && (
+          {contentState === 'legacyPlaintext' && (
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Badge variant="outline" className="text-xs px-1.5 py-0 gap-1 border-destructive/50 text-destructive">
+                    <ShieldOff className="h-3 w-3" />
+                    not encrypted
+                  </Badge>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>This message was stored in plaintext, before the room used encryption</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          )}
+          {delivery.status === 'queued' && (
+            <Badge variant="outline" className="text-xs px-1.5 py-0 gap-1 opacity-50">
+              <Clock className="h-3 w-3" />
+              queued
+            </Badge>
+          )}
+          {delivery.status === 'uploading' && (
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Badge variant="outline" className="text-xs px-1.5 py-0 gap-1 opacity-50 tabular-nums">
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                    uploading {delivery.progress.percentage}%
+                  </Badge>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>{describeUploadProgress(delivery.progress)}</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          )}
+          {delivery.status === 'sending' && (
             <Badge variant="outline" className="text-xs px-1.5 py-0 opacity-50">
               sending...
             </Badge>
           )}
+          {delivery.status === 'sent' && isOwnMessage && (
+            <Check className="h-3 w-3 text-muted-foreground" aria-label="Sent" />
+          )}
+          {delivery.status === 'failed' && (
+            <button type="button" onClick={() => onRetrySend?.(message)}>
+              <Badge variant="outline" className="text-xs px-1.5 py-0 gap-1 border-destructive/50 text-destructive">
+                <AlertCircle className="h-3 w-3" />
+                failed — tap to retry
+              </Badge>
+            </button>
+          )}
+          {(delivery.status === 'queued' || delivery.status === 'uploading' || delivery.status === 'failed') && (
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-5 w-5 text-muted-foreground"
+                    onClick={() => onCancelSend?.(message)}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent><p>Cancel</p></TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          )}
         </div>
 
         {repliedToMessage && (
@@ -570,16 +431,24 @@ export default function MessageBubble({
             onClick={handleReplyPreviewClick}
           >
             <span className="font-semibold">{repliedToMessage.nickname}</span>
-            <p className="text-muted-foreground truncate">{getMessagePreview(repliedToMessage.content)}</p>
+            <p className="text-muted-foreground truncate">
+              {repliedToMessage.selfDestruct ? 'Self-destructing message' : getMessagePreview(repliedToMessage.content)}
+            </p>
           </div>
         )}
 
-        <div className={`rounded-lg p-3 space-y-2 ${
+        <div className={`relative rounded-lg p-3 space-y-2 ${
           isOwnMessage 
             ? 'bg-primary text-primary-foreground' 
             : 'bg-muted'
         }`}>
-          {renderContent()}
+          {isConsumed ? renderConsumed() : isSealed ? renderSealed() : renderContent()}
+          {revealedMessage && selfDestruct?.__kind__ === 'viewOnce' && (
+            <Button variant="secondary" size="sm" className="h-7 gap-1" onClick={consumeMessage}>
+              <X className="h-3 w-3" />
+              Close
+            </Button>
+          )}
         </div>
 
         {message.reactions.length > 0 && (
@@ -589,10 +458,10 @@ export default function MessageBubble({
                 key={emoji}
                 variant={data.hasCurrentUser ? "default" : "outline"}
                 size="sm"
-                className="h-6 px-2 text-xs"
+                className="h-6 gap-1 px-2 text-xs"
                 onClick={() => handleReactionClick(emoji)}
               >
-                {emoji} {data.count}
+                {renderEmoji(emoji, 'h-4 w-4')} {data.count}
               </Button>
             ))}
           </div>
@@ -617,21 +486,23 @@ export default function MessageBubble({
 
           {isOwnMessage && !isOptimistic && (
             <>
-              <TooltipProvider>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-7 w-7"
-                      onClick={() => onEdit(message)}
-                    >
-                      <Edit2 className="h-4 w-4" />
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent><p>Edit</p></TooltipContent>
-                </Tooltip>
-              </TooltipProvider>
+              {canEdit && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => onEdit(message)}
+                      >
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent><p>Edit</p></TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
 
               <TooltipProvider>
                 <Tooltip>
@@ -669,7 +540,7 @@ export default function MessageBubble({
             </TooltipProvider>
 
             {showReactionPicker && (
-              <div className="absolute bottom-full mb-2 left-0 bg-popover border rounded-lg shadow-lg p-2 flex gap-1 z-10">
+              <div className="absolute bottom-full mb-2 left-0 bg-popover border rounded-lg shadow-lg p-2 flex flex-wrap gap-1 w-max max-w-[18rem] max-h-40 overflow-y-auto z-10">
                 {REACTION_EMOJIS.map((emoji) => (
                   <Button
                     key={emoji}
@@ -681,6 +552,18 @@ export default function MessageBubble({
                     {emoji}
                   </Button>
                 ))}
+                {Array.from(customEmojiUrls.keys(), (shortcode) => (
+                  <Button
+                    key={shortcode}
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 hover:scale-125 transition-transform"
+                    onClick={() => handleReactionClick(formatShortcode(shortcode))}
+                    title={formatShortcode(shortcode)}
+                  >
+                    {renderEmoji(formatShortcode(shortcode), 'h-6 w-6')}
+                  </Button>
+                ))}
               </div>
             )}
           </div>
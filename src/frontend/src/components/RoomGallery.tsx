@@ -0,0 +1,361 @@
+import { useMemo, useState } from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Check, Download, ExternalLink, KeyRound, Loader2, MessageSquare, Play } from 'lucide-react';
+import { toast } from 'sonner';
+import { AttachmentKind, type MessageView } from '../backend';
+import { useDecryptedMedia } from '../hooks/useDecryptedMedia';
+import { downloadAttachment } from '../utils/downloadMedia';
+import {
+  collectGalleryItems,
+  filterGalleryMedia,
+  getDownloadFileName,
+  getLinkDomain,
+  groupByDay,
+  type GalleryFilter,
+  type GalleryLink,
+  type GalleryMedia,
+} from '../utils/mediaGallery';
+import AlbumViewer from './AlbumViewer';
+import FileAttachmentCard from './FileAttachmentCard';
+
+const FILTERS: Array<{ value: GalleryFilter; label: string }> = [
+  { value: 'images', label: 'Images' },
+  { value: 'videos', label: 'Videos' },
+  { value: 'audio', label: 'Audio' },
+  { value: 'files', label: 'Files' },
+  { value: 'links', label: 'Links' },
+];
+
+interface RoomGalleryProps {
+  // Loaded history of the room, oldest first
+  messages: MessageView[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onJumpToMessage: (messageId: bigint) => void;
+}
+
+interface SelectableProps {
+  isSelecting: boolean;
+  isSelected: boolean;
+  onToggleSelected: () => void;
+}
+
+function JumpButton({ onClick }: { onClick: () => void }) {
+  return (
+    <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={onClick} aria-label="Show in chat">
+      <MessageSquare className="h-4 w-4" />
+    </Button>
+  );
+}
+
+function MediaTile({ item, isSelecting, isSelected, onToggleSelected, onOpen }: SelectableProps & {
+  item: GalleryMedia;
+  onOpen: () => void;
+}) {
+  const { url, isDecrypting } = useDecryptedMedia(item.attachment.blob, item.isEncrypted, item.mediaCryptoKey);
+  const isVideo = item.attachment.kind === AttachmentKind.video;
+
+  return (
+    <button
+      type="button"
+      className={`relative aspect-square overflow-hidden rounded-md bg-muted ${isSelected ? 'ring-2 ring-primary' : ''}`}
+      onClick={isSelecting ? onToggleSelected : onOpen}
+      aria-pressed={isSelecting ? isSelected : undefined}
+      aria-label={isVideo ? 'Video' : 'Image'}
+    >
+      {url ? (
+        isVideo ? (
+          <video src={url} muted playsInline preload="metadata" className="h-full w-full object-cover" />
+        ) : (
+          <img src={url} alt="" loading="lazy" className="h-full w-full object-cover" />
+        )
+      ) : (
+        <span className="flex h-full w-full items-center justify-center text-muted-foreground">
+          {isDecrypting ? <Loader2 className="h-4 w-4 animate-spin" /> : <KeyRound className="h-4 w-4" />}
+        </span>
+      )}
+      {isVideo && url && (
+        <span className="absolute inset-0 flex items-center justify-center">
+          <Play className="h-6 w-6 text-white drop-shadow" />
+        </span>
+      )}
+      {isSelecting && (
+        // The tile itself is the control, so this only shows its state
+        <span
+          className={`absolute left-1.5 top-1.5 flex h-4 w-4 items-center justify-center rounded-[4px] border border-primary ${
+            isSelected ? 'bg-primary text-primary-foreground' : 'bg-background'
+          }`}
+        >
+          {isSelected && <Check className="h-3 w-3" />}
+        </span>
+      )}
+    </button>
+  );
+}
+
+function AudioRow({ item, isSelecting, isSelected, onToggleSelected, onJump }: SelectableProps & {
+  item: GalleryMedia;
+  onJump: () => void;
+}) {
+  const { url, isDecrypting } = useDecryptedMedia(item.attachment.blob, item.isEncrypted, item.mediaCryptoKey);
+
+  return (
+    <div className="flex items-center gap-2">
+      {isSelecting && <Checkbox checked={isSelected} onCheckedChange={onToggleSelected} aria-label="Select audio" />}
+      {url ? (
+        <audio src={url} controls preload="metadata" className="h-10 min-w-0 flex-1" />
+      ) : (
+        <div className="flex flex-1 items-center gap-2 text-xs text-muted-foreground">
+          {isDecrypting ? <Loader2 className="h-4 w-4 animate-spin" /> : <KeyRound className="h-4 w-4" />}
+          <span>{isDecrypting ? 'Decrypting audio...' : 'This audio could not be decrypted'}</span>
+        </div>
+      )}
+      <JumpButton onClick={onJump} />
+    </div>
+  );
+}
+
+function FileRow({ item, isSelecting, isSelected, onToggleSelected, onJump }: SelectableProps & {
+  item: GalleryMedia;
+  onJump: () => void;
+}) {
+  return (
+    <div className="flex items-center gap-2">
+      {isSelecting && <Checkbox checked={isSelected} onCheckedChange={onToggleSelected} aria-label="Select file" />}
+      <div className="min-w-0 flex-1">
+        <FileAttachmentCard
+          messageId={item.messageId}
+          attachment={item.attachment}
+          isEncrypted={item.isEncrypted}
+          mediaCryptoKey={item.mediaCryptoKey}
+        />
+      </div>
+      <JumpButton onClick={onJump} />
+    </div>
+  );
+}
+
+function LinkRow({ link, onJump }: { link: GalleryLink; onJump: () => void }) {
+  return (
+    <div className="flex items-center gap-2">
+      <a
+        href={link.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="flex min-w-0 flex-1 items-center gap-3 rounded-md p-2 hover:bg-muted/50"
+      >
+        <ExternalLink className="h-4 w-4 shrink-0 text-muted-foreground" />
+        <span className="min-w-0">
+          <span className="block truncate text-sm font-medium">{getLinkDomain(link.url)}</span>
+          <span className="block truncate text-xs text-muted-foreground">{link.url}</span>
+        </span>
+      </a>
+      <JumpButton onClick={onJump} />
+    </div>
+  );
+}
+
+/**
+ * Side panel listing the media, files and links of the room's loaded history,
+ * grouped by day. Images and videos open in the album viewer, and media can be
+ * selected to download several items at once.
+ */
+export default function RoomGallery({ messages, open, onOpenChange, onJumpToMessage }: RoomGalleryProps) {
+  const [filter, setFilter] = useState<GalleryFilter>('images');
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const { media, links } = useMemo(() => collectGalleryItems(messages), [messages]);
+  const visibleMedia = useMemo(() => (filter === 'links' ? [] : filterGalleryMedia(media, filter)), [media, filter]);
+  const mediaGroups = useMemo(() => groupByDay(visibleMedia), [visibleMedia]);
+  const linkGroups = useMemo(() => groupByDay(links), [links]);
+  const selectedMedia = visibleMedia.filter((item) => selectedKeys.has(item.key));
+
+  const counts: Record<GalleryFilter, number> = {
+    images: filterGalleryMedia(media, 'images').length,
+    videos: filterGalleryMedia(media, 'videos').length,
+    audio: filterGalleryMedia(media, 'audio').length,
+    files: filterGalleryMedia(media, 'files').length,
+    links: links.length,
+  };
+
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedKeys(new Set());
+  };
+
+  const handleFilterChange = (value: string) => {
+    setFilter(value as GalleryFilter);
+    stopSelecting();
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) stopSelecting();
+    onOpenChange(nextOpen);
+  };
+
+  const toggleSelected = (key: string) => {
+    setSelectedKeys((current) => {
+      const next = new Set(current);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleJump = (messageId: bigint) => {
+    setViewerIndex(null);
+    handleOpenChange(false);
+    onJumpToMessage(messageId);
+  };
+
+  const handleDownload = async (item: GalleryMedia) => {
+    await downloadAttachment(item.attachment, getDownloadFileName(item), item.isEncrypted ? item.mediaCryptoKey : undefined);
+  };
+
+  // One after another, so encrypted media is not decrypted into memory all at once
+  const handleDownloadSelected = async () => {
+    setIsDownloading(true);
+    let failed = 0;
+    for (const item of selectedMedia) {
+      try {
+        await handleDownload(item);
+      } catch (error) {
+        console.error('Failed to download gallery item:', error);
+        failed++;
+      }
+    }
+    setIsDownloading(false);
+
+    if (failed > 0) {
+      toast.error(`${failed} of ${selectedMedia.length} items could not be downloaded`);
+    } else {
+      toast.success(`Downloaded ${selectedMedia.length} ${selectedMedia.length === 1 ? 'item' : 'items'}`);
+      stopSelecting();
+    }
+  };
+
+  const isEmpty = filter === 'links' ? links.length === 0 : visibleMedia.length === 0;
+
+  return (
+    <>
+      <Sheet open={open} onOpenChange={handleOpenChange}>
+        <SheetContent side="right" className="w-full gap-0 sm:max-w-md">
+          <SheetHeader className="border-b">
+            <SheetTitle>Media, files and links</SheetTitle>
+            <SheetDescription>From the messages loaded in this room</SheetDescription>
+            <Tabs value={filter} onValueChange={handleFilterChange} className="pt-2">
+              <TabsList className="grid w-full grid-cols-5">
+                {FILTERS.map(({ value, label }) => (
+                  <TabsTrigger key={value} value={value} className="px-1 text-xs">
+                    {label}
+                    {counts[value] > 0 && <span className="ml-1 text-muted-foreground">{counts[value]}</span>}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+            {filter !== 'links' && visibleMedia.length > 0 && (
+              <div className="flex items-center justify-between gap-2 pt-1">
+                {isSelecting ? (
+                  <>
+                    <span className="text-sm text-muted-foreground">{selectedMedia.length} selected</span>
+                    <div className="flex gap-1">
+                      <Button
+                        size="sm"
+                        className="gap-1"
+                        onClick={handleDownloadSelected}
+                        disabled={selectedMedia.length === 0 || isDownloading}
+                      >
+                        {isDownloading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                        Download
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={stopSelecting} disabled={isDownloading}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </>
+                ) : (
+                  <Button size="sm" variant="outline" className="ml-auto" onClick={() => setIsSelecting(true)}>
+                    Select
+                  </Button>
+                )}
+              </div>
+            )}
+          </SheetHeader>
+
+          <ScrollArea className="min-h-0 flex-1">
+            <div className="space-y-6 p-4">
+              {isEmpty && (
+                <p className="py-12 text-center text-sm text-muted-foreground">
+                  Nothing shared yet. Older messages appear here once they are loaded in the chat.
+                </p>
+              )}
+
+              {filter === 'links'
+                ? linkGroups.map((group) => (
+                    <section key={group.label} className="space-y-2">
+                      <h3 className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{group.label}</h3>
+                      {group.items.map((link) => (
+                        <LinkRow key={link.key} link={link} onJump={() => handleJump(link.messageId)} />
+                      ))}
+                    </section>
+                  ))
+                : mediaGroups.map((group) => (
+                    <section key={group.label} className="space-y-2">
+                      <h3 className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{group.label}</h3>
+                      {filter === 'images' || filter === 'videos' ? (
+                        <div className="grid grid-cols-3 gap-1">
+                          {group.items.map((item) => (
+                            <MediaTile
+                              key={item.key}
+                              item={item}
+                              isSelecting={isSelecting}
+                              isSelected={selectedKeys.has(item.key)}
+                              onToggleSelected={() => toggleSelected(item.key)}
+                              onOpen={() => setViewerIndex(visibleMedia.indexOf(item))}
+                            />
+                          ))}
+                        </div>
+                      ) : (
+                        group.items.map((item) => {
+                          const Row = filter === 'audio' ? AudioRow : FileRow;
+                          return (
+                            <Row
+                              key={item.key}
+                              item={item}
+                              isSelecting={isSelecting}
+                              isSelected={selectedKeys.has(item.key)}
+                              onToggleSelected={() => toggleSelected(item.key)}
+                              onJump={() => handleJump(item.messageId)}
+                            />
+                          );
+                        })
+                      )}
+                    </section>
+                  ))}
+            </div>
+          </ScrollArea>
+        </SheetContent>
+      </Sheet>
+
+      {viewerIndex !== null && (
+        <AlbumViewer
+          items={visibleMedia}
+          startIndex={viewerIndex}
+          open
+          onOpenChange={(nextOpen) => !nextOpen && setViewerIndex(null)}
+          onJumpToMessage={handleJump}
+        />
+      )}
+    </>
+  );
+}
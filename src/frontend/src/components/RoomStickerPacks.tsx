@@ -0,0 +1,136 @@
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Download, Loader2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import type { SharedStickerPack } from '../backend';
+import { useMyPseudonym } from '../hooks/useQueries';
+import { useImportStickerPack, useRoomStickerPacks, useUnshareStickerPack } from '../hooks/useStickers';
+
+interface RoomStickerPacksProps {
+  roomId: string;
+  onSelect: (url: string) => void;
+}
+
+// Number of stickers previewed per pack before its import
+const PREVIEW_STICKER_COUNT = 8;
+
+function SharedPackCard({ pack, isMine, onSelect, onImport, onUnshare, isBusy }: {
+  pack: SharedStickerPack;
+  isMine: boolean;
+  onSelect: (url: string) => void;
+  onImport: () => void;
+  onUnshare: () => void;
+  isBusy: boolean;
+}) {
+  const hiddenCount = pack.stickers.length - PREVIEW_STICKER_COUNT;
+
+  return (
+    <div className="space-y-2 rounded-lg border p-2">
+      <div className="flex items-center gap-2">
+        <div className="min-w-0 flex-1">
+          <p className="truncate text-sm font-medium">{pack.name}</p>
+          <p className="text-xs text-muted-foreground">
+            {pack.stickers.length} sticker{pack.stickers.length !== 1 ? 's' : ''} · shared by {isMine ? 'you' : pack.sharedBy}
+          </p>
+        </div>
+        {isMine ? (
+          <Button size="sm" variant="ghost" onClick={onUnshare} disabled={isBusy} className="gap-1">
+            <X className="h-4 w-4" />
+            Unshare
+          </Button>
+        ) : (
+          <Button size="sm" variant="outline" onClick={onImport} disabled={isBusy} className="gap-1">
+            {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            Import
+          </Button>
+        )}
+      </div>
+      <div className="grid grid-cols-4 gap-1">
+        {pack.stickers.slice(0, PREVIEW_STICKER_COUNT).map((sticker) => (
+          <button
+            key={sticker.id.toString()}
+            onClick={() => onSelect(sticker.blob.getDirectURL())}
+            className="aspect-square rounded-md border-2 border-transparent hover:border-primary transition-colors overflow-hidden bg-muted/50"
+            title="Click to send sticker"
+          >
+            <img
+              src={sticker.blob.getDirectURL()}
+              alt="Sticker"
+              className="h-full w-full object-contain p-0.5"
+              loading="lazy"
+            />
+          </button>
+        ))}
+      </div>
+      {hiddenCount > 0 && (
+        <p className="text-xs text-muted-foreground">Import the pack to use {hiddenCount} more</p>
+      )}
+    </div>
+  );
+}
+
+// Sticker packs participants have shared into the room, ready to send from or import
+export default function RoomStickerPacks({ roomId, onSelect }: RoomStickerPacksProps) {
+  const { data: packs = [], isLoading } = useRoomStickerPacks(roomId);
+  const { data: myPseudonym = null } = useMyPseudonym(roomId);
+  const importPack = useImportStickerPack();
+  const unsharePack = useUnshareStickerPack();
+
+  const handleImport = async (pack: SharedStickerPack) => {
+    try {
+      await importPack.mutateAsync({ roomId, sharedPackId: pack.id });
+      toast.success(`Added "${pack.name}" to your stickers`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import sticker pack');
+    }
+  };
+
+  const handleUnshare = async (pack: SharedStickerPack) => {
+    try {
+      await unsharePack.mutateAsync({ roomId, sharedPackId: pack.id });
+      toast.success(`"${pack.name}" is no longer shared`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to unshare sticker pack');
+    }
+  };
+
+  const isBusy = (pack: SharedStickerPack) =>
+    (importPack.isPending && importPack.variables?.sharedPackId === pack.id) ||
+    (unsharePack.isPending && unsharePack.variables?.sharedPackId === pack.id);
+
+  return (
+    <div className="space-y-2">
+      <ScrollArea className="h-64">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : packs.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-64 text-center p-4">
+            <p className="text-sm text-muted-foreground mb-2">No sticker packs shared here yet</p>
+            <p className="text-xs text-muted-foreground">
+              Share one of your packs from the Stickers tab
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-2 p-1">
+            {packs.map((pack) => (
+              <SharedPackCard
+                key={pack.id.toString()}
+                pack={pack}
+                isMine={pack.sharedBy === myPseudonym}
+                onSelect={onSelect}
+                onImport={() => handleImport(pack)}
+                onUnshare={() => handleUnshare(pack)}
+                isBusy={isBusy(pack)}
+              />
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+      <p className="text-xs text-muted-foreground text-center">
+        Imported stickers keep the time they have left
+      </p>
+    </div>
+  );
+}
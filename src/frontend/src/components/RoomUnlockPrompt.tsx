@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Lock, Loader2 } from 'lucide-react';
+import type { RoomEncryption } from '../backend';
+import { unlockRoom, WrongPassphraseError } from '../utils/roomCrypto';
+
+interface RoomUnlockPromptProps {
+  roomId: string;
+  encryption: RoomEncryption;
+  onUnlocked: () => void;
+}
+
+export default function RoomUnlockPrompt({ roomId, encryption, onUnlocked }: RoomUnlockPromptProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await unlockRoom(roomId, passphrase, encryption);
+      onUnlocked();
+    } catch (err) {
+      if (err instanceof WrongPassphraseError) {
+        setError(err.message);
+      } else {
+        console.error('[RoomUnlockPrompt] Failed to derive room key:', err);
+        setError('Could not unlock the room in this browser.');
+      }
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex items-center justify-center p-4">
+      <Card className="w-full max-w-sm border-2 shadow-xl">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-2">
+            <Lock className="h-8 w-8 text-primary" />
+          </div>
+          <CardTitle>Encrypted room</CardTitle>
+          <CardDescription>Enter the room passphrase to read and send messages.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="room-passphrase">Passphrase</Label>
+              <Input
+                id="room-passphrase"
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                autoComplete="current-password"
+                autoFocus
+                required
+                disabled={isUnlocking}
+              />
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+            <Button type="submit" className="w-full" disabled={isUnlocking || !passphrase}>
+              {isUnlocking ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Unlocking...
+                </>
+              ) : (
+                'Unlock Room'
+              )}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
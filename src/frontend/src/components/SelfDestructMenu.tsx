@@ -0,0 +1,58 @@
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Flame } from 'lucide-react';
+import type { SelfDestruct } from '../backend';
+import { SELF_DESTRUCT_OPTIONS, isSameSelfDestruct } from '../utils/selfDestruct';
+
+interface SelfDestructMenuProps {
+  value: SelfDestruct | null;
+  onChange: (value: SelfDestruct | null) => void;
+  disabled?: boolean;
+}
+
+const OFF_VALUE = 'off';
+
+export default function SelfDestructMenu({ value, onChange, disabled }: SelfDestructMenuProps) {
+  const selectedIndex = SELF_DESTRUCT_OPTIONS.findIndex((option) => isSameSelfDestruct(option.value, value));
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          type="button"
+          variant={value ? 'secondary' : 'ghost'}
+          size="icon"
+          disabled={disabled}
+          aria-label="Self-destruct"
+        >
+          <Flame className={`h-5 w-5 ${value ? 'text-destructive' : ''}`} />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" side="top">
+        <DropdownMenuLabel>Next message</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup
+          value={selectedIndex === -1 ? OFF_VALUE : String(selectedIndex)}
+          onValueChange={(selected) =>
+            onChange(selected === OFF_VALUE ? null : SELF_DESTRUCT_OPTIONS[Number(selected)].value)
+          }
+        >
+          <DropdownMenuRadioItem value={OFF_VALUE}>Keep until the room deletes it</DropdownMenuRadioItem>
+          {SELF_DESTRUCT_OPTIONS.map((option, index) => (
+            <DropdownMenuRadioItem key={option.label} value={String(index)}>
+              {option.label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,467 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Clock, Loader2, MoreVertical, Plus, Share2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import type { Sticker, StickerPack } from '../backend';
+import {
+  useAddSticker,
+  useCreateStickerPack,
+  useDeleteStickerPack,
+  useMyStickerPacks,
+  useRemoveSticker,
+  useRenameStickerPack,
+  useSetStickerLifetime,
+  useShareStickerPack,
+} from '../hooks/useStickers';
+import { formatTimeRemaining } from '../utils/messageExpiry';
+import {
+  clearLegacyStickers,
+  DEFAULT_STICKER_LIFETIME_MS,
+  getStickerExpiresAt,
+  readLegacyStickers,
+  STICKER_LIFETIME_OPTIONS,
+  STICKER_MIME_TYPES,
+} from '../utils/stickers';
+
+interface StickerLibraryProps {
+  roomId: string;
+  onSelect: (url: string) => void;
+}
+
+const DEFAULT_PACK_NAME = 'My stickers';
+
+// Select items need string values; null stands for keeping the sticker until it is removed
+function lifetimeToValue(ms: number | null): string {
+  return ms === null ? 'forever' : String(ms);
+}
+
+function valueToLifetime(value: string): number | null {
+  return value === 'forever' ? null : Number(value);
+}
+
+function PackNameForm({ initialName, submitLabel, isPending, onSubmit, onCancel }: {
+  initialName: string;
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (name: string) => void;
+  onCancel?: () => void;
+}) {
+  const [name, setName] = useState(initialName);
+
+  return (
+    <form
+      className="flex gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (name.trim()) onSubmit(name.trim());
+      }}
+    >
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Pack name"
+        maxLength={50}
+        className="h-8 flex-1"
+        autoFocus
+      />
+      <Button type="submit" size="sm" disabled={isPending || !name.trim()}>
+        {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : submitLabel}
+      </Button>
+      {onCancel && (
+        <Button type="button" size="sm" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+      )}
+    </form>
+  );
+}
+
+function StickerTile({ sticker, onSelect, onRemove, onChangeLifetime }: {
+  sticker: Sticker;
+  onSelect: () => void;
+  onRemove: () => void;
+  onChangeLifetime: (ms: number | null) => void;
+}) {
+  const expiresAt = getStickerExpiresAt(sticker);
+
+  return (
+    <div className="relative group aspect-square rounded-lg border-2 border-transparent hover:border-primary transition-colors overflow-hidden bg-muted/50">
+      <button onClick={onSelect} className="h-full w-full" title="Click to send sticker">
+        <img
+          src={sticker.blob.getDirectURL()}
+          alt="Sticker"
+          className="h-full w-full object-contain p-1"
+          loading="lazy"
+        />
+      </button>
+      <button
+        onClick={onRemove}
+        className="absolute top-1 right-1 h-5 w-5 rounded-full bg-destructive/90 text-destructive-foreground opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center"
+        title="Remove sticker"
+      >
+        <X className="h-3 w-3" />
+      </button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            className="absolute bottom-1 left-1 flex items-center gap-0.5 rounded bg-background/80 px-1 text-[10px] text-muted-foreground opacity-0 group-hover:opacity-100 focus-visible:opacity-100 transition-opacity"
+            title="Change how long this sticker is kept"
+          >
+            <Clock className="h-2.5 w-2.5" />
+            {expiresAt === null ? '∞' : formatTimeRemaining(expiresAt - Date.now())}
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuLabel>Keep from now for</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {STICKER_LIFETIME_OPTIONS.map((option) => (
+            <DropdownMenuItem key={option.label} onClick={() => onChangeLifetime(option.ms)}>
+              {option.label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
+
+/**
+ * The caller's sticker packs. Stickers are uploaded to blob storage once and
+ * follow the caller's identity, so they are available on every device until
+ * the lifetime chosen for them runs out.
+ */
+export default function StickerLibrary({ roomId, onSelect }: StickerLibraryProps) {
+  const { data: packs = [], isLoading } = useMyStickerPacks();
+  const [selectedPackId, setSelectedPackId] = useState<bigint | null>(null);
+  const [nameForm, setNameForm] = useState<'create' | 'rename' | null>(null);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [lifetimeMs, setLifetimeMs] = useState<number | null>(DEFAULT_STICKER_LIFETIME_MS);
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [legacyStickers, setLegacyStickers] = useState(readLegacyStickers);
+  const [isMovingLegacy, setIsMovingLegacy] = useState(false);
+  const stickerInputRef = useRef<HTMLInputElement>(null);
+
+  const createPack = useCreateStickerPack();
+  const renamePack = useRenameStickerPack();
+  const deletePack = useDeleteStickerPack();
+  const addSticker = useAddSticker();
+  const removeSticker = useRemoveSticker();
+  const setStickerLifetime = useSetStickerLifetime();
+  const sharePack = useShareStickerPack();
+
+  // Falls back to the first pack until a new one shows up in the list, or after the selected one is deleted
+  const selectedPack: StickerPack | undefined =
+    packs.find((pack) => pack.id === selectedPackId) ?? packs[0];
+
+  const handleCreatePack = async (name: string) => {
+    try {
+      const packId = await createPack.mutateAsync(name);
+      setSelectedPackId(packId);
+      setNameForm(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create sticker pack');
+    }
+  };
+
+  const handleRenamePack = async (name: string) => {
+    if (!selectedPack) return;
+    try {
+      await renamePack.mutateAsync({ packId: selectedPack.id, name });
+      setNameForm(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to rename sticker pack');
+    }
+  };
+
+  const handleDeletePack = async () => {
+    if (!selectedPack) return;
+    try {
+      await deletePack.mutateAsync(selectedPack.id);
+      toast.success(`Deleted "${selectedPack.name}"`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete sticker pack');
+    } finally {
+      setIsConfirmingDelete(false);
+    }
+  };
+
+  const handleSharePack = async () => {
+    if (!selectedPack) return;
+    try {
+      await sharePack.mutateAsync({ roomId, packId: selectedPack.id });
+      toast.success(`Shared "${selectedPack.name}" with this room`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to share sticker pack');
+    }
+  };
+
+  const handleStickerUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || !selectedPack) return;
+
+    setUploadProgress(0);
+    try {
+      await addSticker.mutateAsync({ packId: selectedPack.id, file, lifetimeMs, onProgress: setUploadProgress });
+      toast.success('Sticker uploaded successfully!');
+    } catch (error) {
+      console.error('Error uploading sticker:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to upload sticker');
+    } finally {
+      setUploadProgress(0);
+      if (stickerInputRef.current) {
+        stickerInputRef.current.value = '';
+      }
+    }
+  };
+
+  const handleRemoveSticker = async (sticker: Sticker) => {
+    if (!selectedPack) return;
+    try {
+      await removeSticker.mutateAsync({ packId: selectedPack.id, stickerId: sticker.id });
+      toast.success('Sticker removed');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove sticker');
+    }
+  };
+
+  const handleChangeLifetime = async (sticker: Sticker, ms: number | null) => {
+    if (!selectedPack) return;
+    try {
+      await setStickerLifetime.mutateAsync({ packId: selectedPack.id, stickerId: sticker.id, lifetimeMs: ms });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to change how long the sticker is kept');
+    }
+  };
+
+  // Stickers from before the library were kept in this browser only; upload them into a pack once
+  const handleMoveLegacyStickers = async () => {
+    setIsMovingLegacy(true);
+    try {
+      const packId = selectedPack?.id ?? (await createPack.mutateAsync(DEFAULT_PACK_NAME));
+      for (const sticker of legacyStickers) {
+        await addSticker.mutateAsync({ packId, file: sticker.file, lifetimeMs });
+      }
+      clearLegacyStickers();
+      setLegacyStickers([]);
+      toast.success('Stickers moved to your library');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to move stickers');
+    } finally {
+      setIsMovingLegacy(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {legacyStickers.length > 0 && (
+        <div className="flex items-center gap-2 rounded-md bg-muted/50 p-2 text-xs text-muted-foreground">
+          <span className="flex-1">
+            {legacyStickers.length} sticker{legacyStickers.length !== 1 ? 's are' : ' is'} saved only in this browser
+          </span>
+          <Button size="sm" variant="outline" onClick={handleMoveLegacyStickers} disabled={isMovingLegacy}>
+            {isMovingLegacy ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Move to library'}
+          </Button>
+        </div>
+      )}
+
+      {packs.length === 0 || nameForm === 'create' ? (
+        <PackNameForm
+          initialName={packs.length === 0 ? DEFAULT_PACK_NAME : ''}
+          submitLabel="Create pack"
+          isPending={createPack.isPending}
+          onSubmit={handleCreatePack}
+          onCancel={packs.length > 0 ? () => setNameForm(null) : undefined}
+        />
+      ) : nameForm === 'rename' && selectedPack ? (
+        <PackNameForm
+          initialName={selectedPack.name}
+          submitLabel="Rename"
+          isPending={renamePack.isPending}
+          onSubmit={handleRenamePack}
+          onCancel={() => setNameForm(null)}
+        />
+      ) : (
+        <div className="flex items-center gap-1">
+          <Select
+            value={selectedPack?.id.toString()}
+            onValueChange={(value) => setSelectedPackId(BigInt(value))}
+          >
+            <SelectTrigger className="h-8 flex-1">
+              <SelectValue placeholder="Choose a pack" />
+            </SelectTrigger>
+            <SelectContent>
+              {packs.map((pack) => (
+                <SelectItem key={pack.id.toString()} value={pack.id.toString()}>
+                  {pack.name} ({pack.stickers.length})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setNameForm('create')} title="New pack">
+            <Plus className="h-4 w-4" />
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="icon" variant="ghost" className="h-8 w-8" title="Pack options">
+                <MoreVertical className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem
+                onClick={handleSharePack}
+                disabled={!selectedPack || selectedPack.stickers.length === 0 || sharePack.isPending}
+              >
+                <Share2 className="mr-2 h-4 w-4" />
+                Share with this room
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setNameForm('rename')}>Rename</DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem className="text-destructive" onClick={() => setIsConfirmingDelete(true)}>
+                Delete pack
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      )}
+
+      {selectedPack && (
+        <>
+          <div className="flex items-center gap-2">
+            <Select value={lifetimeToValue(lifetimeMs)} onValueChange={(value) => setLifetimeMs(valueToLifetime(value))}>
+              <SelectTrigger className="h-8 flex-1" aria-label="Keep new stickers for">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STICKER_LIFETIME_OPTIONS.map((option) => (
+                  <SelectItem key={option.label} value={lifetimeToValue(option.ms)}>
+                    {option.ms === null ? 'Keep until removed' : `Keep for ${option.label}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => stickerInputRef.current?.click()}
+              disabled={addSticker.isPending}
+              className="gap-2"
+            >
+              {addSticker.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Uploading...
+                </>
+              ) : (
+                <>
+                  <Plus className="h-4 w-4" />
+                  Upload
+                </>
+              )}
+            </Button>
+            <input
+              ref={stickerInputRef}
+              type="file"
+              accept={STICKER_MIME_TYPES.join(',')}
+              onChange={handleStickerUpload}
+              className="hidden"
+            />
+          </div>
+
+          {addSticker.isPending && uploadProgress > 0 && (
+            <div className="space-y-1">
+              <div className="h-2 w-full bg-muted rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-primary transition-all duration-300"
+                  style={{ width: `${uploadProgress}%` }}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground text-center">
+                Uploading: {uploadProgress}%
+              </p>
+            </div>
+          )}
+
+          <ScrollArea className="h-48">
+            {selectedPack.stickers.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-48 text-center p-4">
+                <img
+                  src="/assets/generated/sticker-upload-icon-transparent.dim_24x24.png"
+                  alt="No stickers"
+                  className="h-12 w-12 mb-3 opacity-50"
+                />
+                <p className="text-sm text-muted-foreground mb-2">
+                  No stickers in this pack yet
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Upload your own stickers to use in chat
+                </p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-3 gap-2 p-1">
+                {selectedPack.stickers.map((sticker) => (
+                  <StickerTile
+                    key={sticker.id.toString()}
+                    sticker={sticker}
+                    onSelect={() => onSelect(sticker.blob.getDirectURL())}
+                    onRemove={() => handleRemoveSticker(sticker)}
+                    onChangeLifetime={(ms) => handleChangeLifetime(sticker, ms)}
+                  />
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+        </>
+      )}
+
+      <p className="text-xs text-muted-foreground text-center">
+        Stickers follow you to other devices until their time runs out
+      </p>
+
+      <AlertDialog open={isConfirmingDelete} onOpenChange={setIsConfirmingDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{selectedPack?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its stickers are removed from your library. Rooms you shared the pack with keep their copy.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeletePack} disabled={deletePack.isPending}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
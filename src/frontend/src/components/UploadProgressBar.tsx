@@ -0,0 +1,22 @@
+import { describeUploadProgress, type UploadProgress } from '../utils/uploadProgress';
+
+interface UploadProgressBarProps {
+  // Null while the upload is being prepared, e.g. encrypted, before any bytes are sent
+  progress: UploadProgress | null;
+}
+
+export default function UploadProgressBar({ progress }: UploadProgressBarProps) {
+  return (
+    <div className="w-full space-y-1">
+      <div className="h-2 w-full bg-muted rounded-full overflow-hidden">
+        <div
+          className="h-full bg-primary transition-all duration-300"
+          style={{ width: `${progress?.percentage ?? 0}%` }}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground text-center tabular-nums">
+        {progress ? `Uploading ${progress.percentage}% · ${describeUploadProgress(progress)}` : 'Preparing upload...'}
+      </p>
+    </div>
+  );
+}
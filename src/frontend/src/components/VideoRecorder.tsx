@@ -3,9 +3,11 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Video, Square, Play, X, Send, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
+import UploadProgressBar from './UploadProgressBar';
+import type { UploadProgress } from '../utils/uploadProgress';
 
 interface VideoRecorderProps {
-  onSend: (videoBlob: Blob) => void;
+  onSend: (videoBlob: Blob, onUploadProgress: (progress: UploadProgress) => void) => Promise<void>;
   onClose: () => void;
 }
 
@@ -16,6 +18,8 @@ export default function VideoRecorder({ onSend, onClose }: VideoRecorderProps) {
   const [recordingTime, setRecordingTime] = useState(0);
   const [permissionDenied, setPermissionDenied] = useState(false);
   const [isInitializing, setIsInitializing] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
   const [previewError, setPreviewError] = useState(false);
 
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -157,13 +161,16 @@ export default function VideoRecorder({ onSend, onClose }: VideoRecorderProps) {
     }
   };
 
-  const handleSend = () => {
-    if (recordedBlob) {
-      onSend(recordedBlob);
-      if (recordedUrl) {
-        URL.revokeObjectURL(recordedUrl);
-      }
-      onClose();
+  const handleSend = async () => {
+    if (!recordedBlob) return;
+
+    setIsSending(true);
+    setUploadProgress(null);
+    try {
+      await onSend(recordedBlob, setUploadProgress);
+    } finally {
+      setIsSending(false);
+      setUploadProgress(null);
     }
   };
 
@@ -246,6 +253,8 @@ export default function VideoRecorder({ onSend, onClose }: VideoRecorderProps) {
               </p>
             )}
 
+            {isSending && <UploadProgressBar progress={uploadProgress} />}
+
             {/* Controls */}
             <div className="flex items-center justify-center gap-2">
               {!recordedBlob ? (
@@ -284,16 +293,27 @@ export default function VideoRecorder({ onSend, onClose }: VideoRecorderProps) {
                   <Button
                     onClick={handleCancel}
                     variant="outline"
+                    disabled={isSending}
                   >
                     <X className="h-4 w-4 mr-2" />
                     Cancel
                   </Button>
                   <Button
                     onClick={handleSend}
+                    disabled={isSending}
                     className="gap-2"
                   >
-                    <Send className="h-4 w-4" />
-                    Send Video
+                    {isSending ? (
+                      <>
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        Sending...
+                      </>
+                    ) : (
+                      <>
+                        <Send className="h-4 w-4" />
+                        Send Video
+                      </>
+                    )}
                   </Button>
                 </>
               )}
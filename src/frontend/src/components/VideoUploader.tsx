@@ -3,9 +3,11 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Video, X, Send, Upload, Play, Pause, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
+import UploadProgressBar from './UploadProgressBar';
+import { formatFileSize, type UploadProgress } from '../utils/uploadProgress';
 
 interface VideoUploaderProps {
-  onSend: (videoBlob: Blob) => void;
+  onSend: (videoBlob: Blob, onUploadProgress: (progress: UploadProgress) => void) => Promise<void>;
   onClose: () => void;
 }
 
@@ -14,7 +16,7 @@ export default function VideoUploader({ onSend, onClose }: VideoUploaderProps) {
   const [videoPreviewUrl, setVideoPreviewUrl] = useState<string | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
   const [videoError, setVideoError] = useState<string | null>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -72,31 +74,17 @@ export default function VideoUploader({ onSend, onClose }: VideoUploaderProps) {
     setVideoPreviewUrl(null);
     setIsPlaying(false);
     setVideoError(null);
-    setUploadProgress(0);
+    setUploadProgress(null);
   };
 
   const handleSend = async () => {
     if (!selectedVideo) return;
 
     setIsUploading(true);
-    setUploadProgress(0);
+    setUploadProgress(null);
 
     try {
-      // Simulate upload progress for better UX
-      const progressInterval = setInterval(() => {
-        setUploadProgress((prev) => {
-          if (prev >= 90) {
-            clearInterval(progressInterval);
-            return 90;
-          }
-          return prev + 10;
-        });
-      }, 100);
-
-      await onSend(selectedVideo);
-      
-      clearInterval(progressInterval);
-      setUploadProgress(100);
+      await onSend(selectedVideo, setUploadProgress);
       
       // Clean up preview URL
       if (videoPreviewUrl) {
@@ -111,7 +99,7 @@ export default function VideoUploader({ onSend, onClose }: VideoUploaderProps) {
       toast.error('Failed to send video');
     } finally {
       setIsUploading(false);
-      setUploadProgress(0);
+      setUploadProgress(null);
     }
   };
 
@@ -143,12 +131,6 @@ export default function VideoUploader({ onSend, onClose }: VideoUploaderProps) {
     toast.error('Video preview failed to load');
   };
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes < 1024) return bytes + ' B';
-    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
-    return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
-  };
-
   return (
     <Card className="w-96 shadow-lg">
       <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
@@ -239,19 +221,7 @@ export default function VideoUploader({ onSend, onClose }: VideoUploaderProps) {
               <p className="text-xs text-muted-foreground">
                 Size: {formatFileSize(selectedVideo.size)} / {formatFileSize(MAX_SIZE)}
               </p>
-              {isUploading && uploadProgress > 0 && (
-                <div className="space-y-1">
-                  <div className="h-2 w-full bg-muted rounded-full overflow-hidden">
-                    <div 
-                      className="h-full bg-primary transition-all duration-300"
-                      style={{ width: `${uploadProgress}%` }}
-                    />
-                  </div>
-                  <p className="text-xs text-muted-foreground">
-                    Uploading: {uploadProgress}%
-                  </p>
-                </div>
-              )}
+              {isUploading && <UploadProgressBar progress={uploadProgress} />}
             </div>
           )}
         </div>
@@ -4,12 +4,18 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Shield, Loader2 } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Shield, Loader2, Lock, Timer, Paperclip } from 'lucide-react';
 import { useCreateRoom, useRoomExists } from '../hooks/useQueries';
 import { toast } from 'sonner';
 import { sanitizeChatError } from '../utils/chatErrorMessages';
 import { logSafeOperationFailure } from '../utils/chatOperationErrors';
 import { normalizeRoomId } from '../utils/roomId';
+import { DEFAULT_RETENTION_MS, MESSAGE_RETENTION_OPTIONS } from '../utils/messageExpiry';
+import { DEFAULT_FILE_SIZE_LIMIT, FILE_SIZE_LIMIT_OPTIONS } from '../utils/attachments';
+
+const MIN_PASSPHRASE_LENGTH = 8;
 
 interface WelcomeScreenProps {
   onJoinRoom: (roomId: string, nickname: string) => void;
@@ -18,6 +24,10 @@ interface WelcomeScreenProps {
 export default function WelcomeScreen({ onJoinRoom }: WelcomeScreenProps) {
   const [createRoomCode, setCreateRoomCode] = useState('');
   const [createNickname, setCreateNickname] = useState('');
+  const [encryptRoom, setEncryptRoom] = useState(false);
+  const [createPassphrase, setCreatePassphrase] = useState('');
+  const [retentionMs, setRetentionMs] = useState(DEFAULT_RETENTION_MS);
+  const [maxFileSize, setMaxFileSize] = useState(DEFAULT_FILE_SIZE_LIMIT);
   const [joinRoomCode, setJoinRoomCode] = useState('');
   const [joinNickname, setJoinNickname] = useState('');
 
@@ -43,9 +53,18 @@ export default function WelcomeScreen({ onJoinRoom }: WelcomeScreenProps) {
       toast.error('Please enter your nickname');
       return;
     }
+    if (encryptRoom && createPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      toast.error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
 
     try {
-      await createRoomMutation.mutateAsync(normalizedCode);
+      await createRoomMutation.mutateAsync({
+        joinCode: normalizedCode,
+        passphrase: encryptRoom ? createPassphrase : undefined,
+        retentionMs,
+        maxFileSize,
+      });
       onJoinRoom(normalizedCode, trimmedNickname);
     } catch (error) {
       const sanitized = sanitizeChatError(error);
@@ -112,7 +131,7 @@ export default function WelcomeScreen({ onJoinRoom }: WelcomeScreenProps) {
           </div>
           <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
             <Shield className="h-4 w-4 text-primary" />
-            <span>Messages auto-delete after 24 hours</span>
+            <span>Messages auto-delete after a retention period you choose</span>
           </div>
         </div>
 
@@ -163,6 +182,89 @@ export default function WelcomeScreen({ onJoinRoom }: WelcomeScreenProps) {
                     />
                   </div>
 
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <Label htmlFor="create-retention" className="flex items-center gap-2">
+                        <Timer className="h-4 w-4 text-primary" />
+                        Delete messages after
+                      </Label>
+                      <Select
+                        value={String(retentionMs)}
+                        onValueChange={(value) => setRetentionMs(Number(value))}
+                        disabled={createRoomMutation.isPending}
+                      >
+                        <SelectTrigger id="create-retention" size="sm" className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {MESSAGE_RETENTION_OPTIONS.map((option) => (
+                            <SelectItem key={option.ms} value={String(option.ms)}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <Label htmlFor="create-file-size" className="flex items-center gap-2">
+                        <Paperclip className="h-4 w-4 text-primary" />
+                        Largest file allowed
+                      </Label>
+                      <Select
+                        value={String(maxFileSize)}
+                        onValueChange={(value) => setMaxFileSize(Number(value))}
+                        disabled={createRoomMutation.isPending}
+                      >
+                        <SelectTrigger id="create-file-size" size="sm" className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {FILE_SIZE_LIMIT_OPTIONS.map((option) => (
+                            <SelectItem key={option.bytes} value={String(option.bytes)}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <Label htmlFor="create-encrypt" className="flex items-center gap-2">
+                        <Lock className="h-4 w-4 text-primary" />
+                        End-to-end encryption
+                      </Label>
+                      <Switch
+                        id="create-encrypt"
+                        checked={encryptRoom}
+                        onCheckedChange={setEncryptRoom}
+                        disabled={createRoomMutation.isPending}
+                      />
+                    </div>
+                    {encryptRoom && (
+                      <>
+                        <Input
+                          id="create-passphrase"
+                          type="password"
+                          placeholder="Room passphrase"
+                          value={createPassphrase}
+                          onChange={(e) => setCreatePassphrase(e.target.value)}
+                          minLength={MIN_PASSPHRASE_LENGTH}
+                          autoComplete="new-password"
+                          required
+                          disabled={createRoomMutation.isPending}
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          Share the passphrase separately. It never leaves your device and cannot be recovered.
+                        </p>
+                      </>
+                    )}
+                  </div>
+
                   <Button 
                     type="submit" 
                     className="w-full"
@@ -111,9 +111,18 @@ export async function createActorWithConfig(options?: CreateActorOptions): Promi
 
     const MOTOKO_DEDUPLICATION_SENTINEL = '!caf!';
 
+    const toBlobReference = (hash: string): Uint8Array => new TextEncoder().encode(MOTOKO_DEDUPLICATION_SENTINEL + hash);
+
+    // Assigned below; uploads only start through the actor, so it is set by then
+    let actor: backendInterface | null = null;
+
     const uploadFile = async (file: ExternalBlob): Promise<Uint8Array> => {
-        const { hash } = await storageClient.putFile(await file.getBytes(), file.onProgress);
-        return new TextEncoder().encode(MOTOKO_DEDUPLICATION_SENTINEL + hash);
+        const { hash } = await storageClient.putFile(await file.getBytes(), file.onProgress, {
+            signal: file.signal,
+            resumeKey: file.resumeKey,
+            isBlobLive: async (blobHash) => actor !== null && actor._caffeineStorageBlobIsLive(toBlobReference(blobHash))
+        });
+        return toBlobReference(hash);
     };
 
     const downloadFile = async (bytes: Uint8Array): Promise<ExternalBlob> => {
@@ -123,5 +132,6 @@ export async function createActorWithConfig(options?: CreateActorOptions): Promi
         return ExternalBlob.fromURL(url);
     };
 
-    return createActor(config.backend_canister_id, uploadFile, downloadFile, options);
+    actor = createActor(config.backend_canister_id, uploadFile, downloadFile, options);
+    return actor;
 }
@@ -10,23 +10,100 @@ import type { ActorMethod } from '@icp-sdk/core/agent';
 import type { IDL } from '@icp-sdk/core/candid';
 import type { Principal } from '@icp-sdk/core/principal';
 
+export interface Attachment {
+  'blob' : ExternalBlob,
+  'height' : [] | [bigint],
+  'kind' : AttachmentKind,
+  'size' : bigint,
+  'mimeType' : string,
+  'fileName' : [] | [string],
+  'width' : [] | [bigint],
+  'durationMs' : [] | [bigint],
+}
+export type AttachmentKind = { 'audio' : null } |
+  { 'video' : null } |
+  { 'file' : null } |
+  { 'image' : null };
+export interface CustomEmoji {
+  'shortcode' : string,
+  'blob' : ExternalBlob,
+  'addedAt' : Time,
+  'addedBy' : string,
+  'mimeType' : string,
+}
 export type ExternalBlob = Uint8Array;
 export interface MessageView {
   'id' : bigint,
   'content' : string,
   'nickname' : string,
   'owner' : string,
-  'audioUrl' : [] | [ExternalBlob],
-  'imageUrl' : [] | [ExternalBlob],
+  'attachments' : Array<Attachment>,
   'isEdited' : boolean,
   'nonce' : [] | [string],
+  'mediaKey' : [] | [string],
+  'selfDestruct' : [] | [SelfDestruct],
+  'firstViewedAt' : [] | [Time],
+  'isConsumed' : boolean,
   'timestamp' : Time,
   'replyToId' : [] | [bigint],
-  'videoUrl' : [] | [ExternalBlob],
   'reactions' : Array<Reaction>,
 }
+export interface MessagesPage {
+  'hasMore' : boolean,
+  'messages' : Array<MessageView>,
+}
 export interface Reaction { 'userId' : string, 'emoji' : string }
+export type RoomEventKind = { 'created' : null } |
+  { 'edited' : null } |
+  { 'deleted' : null } |
+  { 'reacted' : null } |
+  { 'viewed' : null };
+export interface RoomEncryption { 'salt' : string, 'keyCheck' : string }
+export interface RoomEventView {
+  'seq' : bigint,
+  'kind' : RoomEventKind,
+  'messageId' : bigint,
+  'message' : [] | [MessageView],
+}
+export interface RoomEventsPage {
+  'latestSeq' : bigint,
+  'events' : Array<RoomEventView>,
+}
+export interface RoomSettings {
+  'encryption' : [] | [RoomEncryption],
+  'maxFileSize' : bigint,
+  'messageTTL' : Time,
+}
+export type SelfDestruct = { 'viewOnce' : null } |
+  { 'afterSeconds' : bigint };
+export interface SharedStickerPack {
+  'id' : bigint,
+  'name' : string,
+  'sharedAt' : Time,
+  'stickers' : Array<Sticker>,
+  'sharedBy' : string,
+}
+export interface Sticker {
+  'id' : bigint,
+  'expiresAt' : [] | [Time],
+  'blob' : ExternalBlob,
+  'mimeType' : string,
+}
+export interface StickerPack {
+  'id' : bigint,
+  'name' : string,
+  'stickers' : Array<Sticker>,
+}
 export type Time = bigint;
+export interface TransformationInput {
+  'context' : Uint8Array,
+  'response' : http_request_result,
+}
+export interface TransformationOutput {
+  'status' : bigint,
+  'body' : Uint8Array,
+  'headers' : Array<http_header>,
+}
 export interface UserProfile { 'nickname' : string }
 export type UserRole = { 'admin' : null } |
   { 'user' : null } |
@@ -42,6 +119,12 @@ export interface _CaffeineStorageRefillResult {
   'success' : [] | [boolean],
   'topped_up_amount' : [] | [bigint],
 }
+export interface http_header { 'value' : string, 'name' : string }
+export interface http_request_result {
+  'status' : bigint,
+  'body' : Uint8Array,
+  'headers' : Array<http_header>,
+}
 export interface _SERVICE {
   '_caffeineStorageBlobIsLive' : ActorMethod<[Uint8Array], boolean>,
   '_caffeineStorageBlobsToDelete' : ActorMethod<[], Array<Uint8Array>>,
@@ -59,31 +142,57 @@ export interface _SERVICE {
   >,
   '_caffeineStorageUpdateGatewayPrincipals' : ActorMethod<[], undefined>,
   '_initializeAccessControlWithSecret' : ActorMethod<[string], undefined>,
-  'addReaction' : ActorMethod<[string, bigint, string, string], boolean>,
+  'addCustomEmoji' : ActorMethod<
+    [string, string, ExternalBlob, string, bigint],
+    undefined
+  >,
+  'addReaction' : ActorMethod<[string, bigint, string], boolean>,
+  'addSticker' : ActorMethod<
+    [bigint, ExternalBlob, string, bigint, [] | [Time]],
+    bigint
+  >,
   'assignCallerUserRole' : ActorMethod<[Principal, UserRole], undefined>,
-  'createRoom' : ActorMethod<[string], string>,
-  'deleteMessage' : ActorMethod<[string, bigint, string], boolean>,
+  'createRoom' : ActorMethod<[string, RoomSettings], string>,
+  'createStickerPack' : ActorMethod<[string], bigint>,
+  'deleteMessage' : ActorMethod<[string, bigint], boolean>,
+  'deleteStickerPack' : ActorMethod<[bigint], undefined>,
   'editMessage' : ActorMethod<
     [
       string,
       bigint,
       string,
-      string,
-      [] | [ExternalBlob],
-      [] | [ExternalBlob],
-      [] | [ExternalBlob],
+      Array<Attachment>,
+      [] | [string],
     ],
     boolean
   >,
+  'fetchExternalImage' : ActorMethod<[string, bigint, string], Uint8Array>,
   'fetchMessagesAfterId' : ActorMethod<[string, bigint], Array<MessageView>>,
+  'getCachedExternalImage' : ActorMethod<[string, bigint, string], [] | [Uint8Array]>,
   'getCallerUserProfile' : ActorMethod<[], [] | [UserProfile]>,
   'getCallerUserRole' : ActorMethod<[], UserRole>,
-  'getMessageTTL' : ActorMethod<[], Time>,
+  'getMessageTTL' : ActorMethod<[string], Time>,
   'getMessages' : ActorMethod<[string], Array<MessageView>>,
+  'getMessagesBefore' : ActorMethod<
+    [string, [] | [bigint], bigint],
+    MessagesPage
+  >,
+  'getMyPseudonym' : ActorMethod<[string], string>,
+  'getMyStickerPacks' : ActorMethod<[], Array<StickerPack>>,
+  'getRoomCustomEmoji' : ActorMethod<[string], Array<CustomEmoji>>,
+  'getRoomEventSeq' : ActorMethod<[string], bigint>,
+  'getRoomEvents' : ActorMethod<[string, bigint], RoomEventsPage>,
+  'getRoomSettings' : ActorMethod<[string], [] | [RoomSettings]>,
+  'getRoomStickerPacks' : ActorMethod<[string], Array<SharedStickerPack>>,
   'getUserProfile' : ActorMethod<[Principal], [] | [UserProfile]>,
+  'importStickerPack' : ActorMethod<[string, bigint], bigint>,
   'isCallerAdmin' : ActorMethod<[], boolean>,
+  'markMessageViewed' : ActorMethod<[string, bigint], [] | [MessageView]>,
   'pruneExpiredMessages' : ActorMethod<[], undefined>,
-  'removeReaction' : ActorMethod<[string, bigint, string, string], boolean>,
+  'removeCustomEmoji' : ActorMethod<[string, string], undefined>,
+  'removeReaction' : ActorMethod<[string, bigint, string], boolean>,
+  'removeSticker' : ActorMethod<[bigint, bigint], undefined>,
+  'renameStickerPack' : ActorMethod<[bigint, string], undefined>,
   'roomExists' : ActorMethod<[string], boolean>,
   'saveCallerUserProfile' : ActorMethod<[UserProfile], undefined>,
   'sendMessage' : ActorMethod<
@@ -91,15 +200,21 @@ export interface _SERVICE {
       string,
       string,
       string,
-      string,
       [] | [bigint],
-      [] | [ExternalBlob],
-      [] | [ExternalBlob],
-      [] | [ExternalBlob],
+      Array<Attachment>,
+      [] | [string],
+      [] | [SelfDestruct],
       string,
     ],
     bigint
   >,
+  'setStickerLifetime' : ActorMethod<
+    [bigint, bigint, [] | [Time]],
+    undefined
+  >,
+  'shareStickerPack' : ActorMethod<[string, bigint], bigint>,
+  'transform' : ActorMethod<[TransformationInput], TransformationOutput>,
+  'unshareStickerPack' : ActorMethod<[string, bigint], undefined>,
 }
 export declare const idlService: IDL.ServiceClass;
 export declare const idlInitArgs: IDL.Type[];
@@ -27,21 +27,113 @@ export const UserRole = IDL.Variant({
 export const ExternalBlob = IDL.Vec(IDL.Nat8);
 export const Time = IDL.Int;
 export const Reaction = IDL.Record({ 'userId' : IDL.Text, 'emoji' : IDL.Text });
+export const AttachmentKind = IDL.Variant({
+  'audio' : IDL.Null,
+  'video' : IDL.Null,
+  'file' : IDL.Null,
+  'image' : IDL.Null,
+});
+export const Attachment = IDL.Record({
+  'blob' : ExternalBlob,
+  'height' : IDL.Opt(IDL.Nat),
+  'kind' : AttachmentKind,
+  'size' : IDL.Nat,
+  'mimeType' : IDL.Text,
+  'fileName' : IDL.Opt(IDL.Text),
+  'width' : IDL.Opt(IDL.Nat),
+  'durationMs' : IDL.Opt(IDL.Nat),
+});
+export const SelfDestruct = IDL.Variant({
+  'viewOnce' : IDL.Null,
+  'afterSeconds' : IDL.Nat,
+});
 export const MessageView = IDL.Record({
   'id' : IDL.Nat,
   'content' : IDL.Text,
   'nickname' : IDL.Text,
   'owner' : IDL.Text,
-  'audioUrl' : IDL.Opt(ExternalBlob),
-  'imageUrl' : IDL.Opt(ExternalBlob),
+  'attachments' : IDL.Vec(Attachment),
   'isEdited' : IDL.Bool,
   'nonce' : IDL.Opt(IDL.Text),
+  'mediaKey' : IDL.Opt(IDL.Text),
+  'selfDestruct' : IDL.Opt(SelfDestruct),
+  'firstViewedAt' : IDL.Opt(Time),
+  'isConsumed' : IDL.Bool,
   'timestamp' : Time,
   'replyToId' : IDL.Opt(IDL.Nat),
-  'videoUrl' : IDL.Opt(ExternalBlob),
   'reactions' : IDL.Vec(Reaction),
 });
+export const RoomEncryption = IDL.Record({
+  'salt' : IDL.Text,
+  'keyCheck' : IDL.Text,
+});
+export const RoomSettings = IDL.Record({
+  'encryption' : IDL.Opt(RoomEncryption),
+  'maxFileSize' : IDL.Nat,
+  'messageTTL' : Time,
+});
+export const MessagesPage = IDL.Record({
+  'hasMore' : IDL.Bool,
+  'messages' : IDL.Vec(MessageView),
+});
+export const RoomEventKind = IDL.Variant({
+  'created' : IDL.Null,
+  'edited' : IDL.Null,
+  'deleted' : IDL.Null,
+  'reacted' : IDL.Null,
+  'viewed' : IDL.Null,
+});
+export const RoomEventView = IDL.Record({
+  'seq' : IDL.Nat,
+  'kind' : RoomEventKind,
+  'messageId' : IDL.Nat,
+  'message' : IDL.Opt(MessageView),
+});
+export const RoomEventsPage = IDL.Record({
+  'latestSeq' : IDL.Nat,
+  'events' : IDL.Vec(RoomEventView),
+});
+export const CustomEmoji = IDL.Record({
+  'shortcode' : IDL.Text,
+  'blob' : ExternalBlob,
+  'addedAt' : Time,
+  'addedBy' : IDL.Text,
+  'mimeType' : IDL.Text,
+});
+export const Sticker = IDL.Record({
+  'id' : IDL.Nat,
+  'expiresAt' : IDL.Opt(Time),
+  'blob' : ExternalBlob,
+  'mimeType' : IDL.Text,
+});
+export const StickerPack = IDL.Record({
+  'id' : IDL.Nat,
+  'name' : IDL.Text,
+  'stickers' : IDL.Vec(Sticker),
+});
+export const SharedStickerPack = IDL.Record({
+  'id' : IDL.Nat,
+  'name' : IDL.Text,
+  'sharedAt' : Time,
+  'stickers' : IDL.Vec(Sticker),
+  'sharedBy' : IDL.Text,
+});
 export const UserProfile = IDL.Record({ 'nickname' : IDL.Text });
+export const http_header = IDL.Record({ 'value' : IDL.Text, 'name' : IDL.Text });
+export const http_request_result = IDL.Record({
+  'status' : IDL.Nat,
+  'body' : IDL.Vec(IDL.Nat8),
+  'headers' : IDL.Vec(http_header),
+});
+export const TransformationInput = IDL.Record({
+  'context' : IDL.Vec(IDL.Nat8),
+  'response' : http_request_result,
+});
+export const TransformationOutput = IDL.Record({
+  'status' : IDL.Nat,
+  'body' : IDL.Vec(IDL.Nat8),
+  'headers' : IDL.Vec(http_header),
+});
 
 export const idlService = IDL.Service({
   '_caffeineStorageBlobIsLive' : IDL.Func(
@@ -71,48 +163,101 @@ export const idlService = IDL.Service({
     ),
   '_caffeineStorageUpdateGatewayPrincipals' : IDL.Func([], [], []),
   '_initializeAccessControlWithSecret' : IDL.Func([IDL.Text], [], []),
-  'addReaction' : IDL.Func(
-      [IDL.Text, IDL.Nat, IDL.Text, IDL.Text],
-      [IDL.Bool],
+  'addCustomEmoji' : IDL.Func(
+      [IDL.Text, IDL.Text, ExternalBlob, IDL.Text, IDL.Nat],
+      [],
+      [],
+    ),
+  'addReaction' : IDL.Func([IDL.Text, IDL.Nat, IDL.Text], [IDL.Bool], []),
+  'addSticker' : IDL.Func(
+      [IDL.Nat, ExternalBlob, IDL.Text, IDL.Nat, IDL.Opt(Time)],
+      [IDL.Nat],
       [],
     ),
   'assignCallerUserRole' : IDL.Func([IDL.Principal, UserRole], [], []),
-  'createRoom' : IDL.Func([IDL.Text], [IDL.Text], []),
-  'deleteMessage' : IDL.Func([IDL.Text, IDL.Nat, IDL.Text], [IDL.Bool], []),
+  'createRoom' : IDL.Func([IDL.Text, RoomSettings], [IDL.Text], []),
+  'createStickerPack' : IDL.Func([IDL.Text], [IDL.Nat], []),
+  'deleteMessage' : IDL.Func([IDL.Text, IDL.Nat], [IDL.Bool], []),
+  'deleteStickerPack' : IDL.Func([IDL.Nat], [], []),
   'editMessage' : IDL.Func(
       [
         IDL.Text,
         IDL.Nat,
         IDL.Text,
-        IDL.Text,
-        IDL.Opt(ExternalBlob),
-        IDL.Opt(ExternalBlob),
-        IDL.Opt(ExternalBlob),
+        IDL.Vec(Attachment),
+        IDL.Opt(IDL.Text),
       ],
       [IDL.Bool],
       [],
     ),
+  'fetchExternalImage' : IDL.Func(
+      [IDL.Text, IDL.Nat, IDL.Text],
+      [IDL.Vec(IDL.Nat8)],
+      [],
+    ),
   'fetchMessagesAfterId' : IDL.Func(
       [IDL.Text, IDL.Nat],
       [IDL.Vec(MessageView)],
       ['query'],
     ),
+  'getCachedExternalImage' : IDL.Func(
+      [IDL.Text, IDL.Nat, IDL.Text],
+      [IDL.Opt(IDL.Vec(IDL.Nat8))],
+      ['query'],
+    ),
   'getCallerUserProfile' : IDL.Func([], [IDL.Opt(UserProfile)], ['query']),
   'getCallerUserRole' : IDL.Func([], [UserRole], ['query']),
-  'getMessageTTL' : IDL.Func([], [Time], ['query']),
+  'getMessageTTL' : IDL.Func([IDL.Text], [Time], ['query']),
   'getMessages' : IDL.Func([IDL.Text], [IDL.Vec(MessageView)], ['query']),
+  'getMessagesBefore' : IDL.Func(
+      [IDL.Text, IDL.Opt(IDL.Nat), IDL.Nat],
+      [MessagesPage],
+      ['query'],
+    ),
+  'getMyPseudonym' : IDL.Func([IDL.Text], [IDL.Text], []),
+  'getMyStickerPacks' : IDL.Func([], [IDL.Vec(StickerPack)], ['query']),
+  'getRoomCustomEmoji' : IDL.Func(
+      [IDL.Text],
+      [IDL.Vec(CustomEmoji)],
+      ['query'],
+    ),
+  'getRoomEventSeq' : IDL.Func([IDL.Text], [IDL.Nat], ['query']),
+  'getRoomEvents' : IDL.Func(
+      [IDL.Text, IDL.Nat],
+      [RoomEventsPage],
+      ['query'],
+    ),
+  'getRoomSettings' : IDL.Func(
+      [IDL.Text],
+      [IDL.Opt(RoomSettings)],
+      ['query'],
+    ),
+  'getRoomStickerPacks' : IDL.Func(
+      [IDL.Text],
+      [IDL.Vec(SharedStickerPack)],
+      ['query'],
+    ),
   'getUserProfile' : IDL.Func(
       [IDL.Principal],
       [IDL.Opt(UserProfile)],
       ['query'],
     ),
+  'importStickerPack' : IDL.Func([IDL.Text, IDL.Nat], [IDL.Nat], []),
   'isCallerAdmin' : IDL.Func([], [IDL.Bool], ['query']),
+  'markMessageViewed' : IDL.Func(
+      [IDL.Text, IDL.Nat],
+      [IDL.Opt(MessageView)],
+      [],
+    ),
   'pruneExpiredMessages' : IDL.Func([], [], []),
+  'removeCustomEmoji' : IDL.Func([IDL.Text, IDL.Text], [], []),
   'removeReaction' : IDL.Func(
-      [IDL.Text, IDL.Nat, IDL.Text, IDL.Text],
+      [IDL.Text, IDL.Nat, IDL.Text],
       [IDL.Bool],
       [],
     ),
+  'removeSticker' : IDL.Func([IDL.Nat, IDL.Nat], [], []),
+  'renameStickerPack' : IDL.Func([IDL.Nat, IDL.Text], [], []),
   'roomExists' : IDL.Func([IDL.Text], [IDL.Bool], ['query']),
   'saveCallerUserProfile' : IDL.Func([UserProfile], [], []),
   'sendMessage' : IDL.Func(
@@ -120,16 +265,23 @@ export const idlService = IDL.Service({
         IDL.Text,
         IDL.Text,
         IDL.Text,
-        IDL.Text,
         IDL.Opt(IDL.Nat),
-        IDL.Opt(ExternalBlob),
-        IDL.Opt(ExternalBlob),
-        IDL.Opt(ExternalBlob),
+        IDL.Vec(Attachment),
+        IDL.Opt(IDL.Text),
+        IDL.Opt(SelfDestruct),
         IDL.Text,
       ],
       [IDL.Nat],
       [],
     ),
+  'setStickerLifetime' : IDL.Func([IDL.Nat, IDL.Nat, IDL.Opt(Time)], [], []),
+  'shareStickerPack' : IDL.Func([IDL.Text, IDL.Nat], [IDL.Nat], []),
+  'transform' : IDL.Func(
+      [TransformationInput],
+      [TransformationOutput],
+      ['query'],
+    ),
+  'unshareStickerPack' : IDL.Func([IDL.Text, IDL.Nat], [], []),
 });
 
 export const idlInitArgs = [];
@@ -154,21 +306,113 @@ export const idlFactory = ({ IDL }) => {
   const ExternalBlob = IDL.Vec(IDL.Nat8);
   const Time = IDL.Int;
   const Reaction = IDL.Record({ 'userId' : IDL.Text, 'emoji' : IDL.Text });
+  const AttachmentKind = IDL.Variant({
+    'audio' : IDL.Null,
+    'video' : IDL.Null,
+    'file' : IDL.Null,
+    'image' : IDL.Null,
+  });
+  const Attachment = IDL.Record({
+    'blob' : ExternalBlob,
+    'height' : IDL.Opt(IDL.Nat),
+    'kind' : AttachmentKind,
+    'size' : IDL.Nat,
+    'mimeType' : IDL.Text,
+    'fileName' : IDL.Opt(IDL.Text),
+    'width' : IDL.Opt(IDL.Nat),
+    'durationMs' : IDL.Opt(IDL.Nat),
+  });
+  const SelfDestruct = IDL.Variant({
+    'viewOnce' : IDL.Null,
+    'afterSeconds' : IDL.Nat,
+  });
   const MessageView = IDL.Record({
     'id' : IDL.Nat,
     'content' : IDL.Text,
     'nickname' : IDL.Text,
     'owner' : IDL.Text,
-    'audioUrl' : IDL.Opt(ExternalBlob),
-    'imageUrl' : IDL.Opt(ExternalBlob),
+    'attachments' : IDL.Vec(Attachment),
     'isEdited' : IDL.Bool,
     'nonce' : IDL.Opt(IDL.Text),
+    'mediaKey' : IDL.Opt(IDL.Text),
+    'selfDestruct' : IDL.Opt(SelfDestruct),
+    'firstViewedAt' : IDL.Opt(Time),
+    'isConsumed' : IDL.Bool,
     'timestamp' : Time,
     'replyToId' : IDL.Opt(IDL.Nat),
-    'videoUrl' : IDL.Opt(ExternalBlob),
     'reactions' : IDL.Vec(Reaction),
   });
+  const RoomEncryption = IDL.Record({
+    'salt' : IDL.Text,
+    'keyCheck' : IDL.Text,
+  });
+  const RoomSettings = IDL.Record({
+    'encryption' : IDL.Opt(RoomEncryption),
+    'maxFileSize' : IDL.Nat,
+    'messageTTL' : Time,
+  });
+  const MessagesPage = IDL.Record({
+    'hasMore' : IDL.Bool,
+    'messages' : IDL.Vec(MessageView),
+  });
+  const RoomEventKind = IDL.Variant({
+    'created' : IDL.Null,
+    'edited' : IDL.Null,
+    'deleted' : IDL.Null,
+    'reacted' : IDL.Null,
+    'viewed' : IDL.Null,
+  });
+  const RoomEventView = IDL.Record({
+    'seq' : IDL.Nat,
+    'kind' : RoomEventKind,
+    'messageId' : IDL.Nat,
+    'message' : IDL.Opt(MessageView),
+  });
+  const RoomEventsPage = IDL.Record({
+    'latestSeq' : IDL.Nat,
+    'events' : IDL.Vec(RoomEventView),
+  });
+  const CustomEmoji = IDL.Record({
+    'shortcode' : IDL.Text,
+    'blob' : ExternalBlob,
+    'addedAt' : Time,
+    'addedBy' : IDL.Text,
+    'mimeType' : IDL.Text,
+  });
+  const Sticker = IDL.Record({
+    'id' : IDL.Nat,
+    'expiresAt' : IDL.Opt(Time),
+    'blob' : ExternalBlob,
+    'mimeType' : IDL.Text,
+  });
+  const StickerPack = IDL.Record({
+    'id' : IDL.Nat,
+    'name' : IDL.Text,
+    'stickers' : IDL.Vec(Sticker),
+  });
+  const SharedStickerPack = IDL.Record({
+    'id' : IDL.Nat,
+    'name' : IDL.Text,
+    'sharedAt' : Time,
+    'stickers' : IDL.Vec(Sticker),
+    'sharedBy' : IDL.Text,
+  });
   const UserProfile = IDL.Record({ 'nickname' : IDL.Text });
+  const http_header = IDL.Record({ 'value' : IDL.Text, 'name' : IDL.Text });
+  const http_request_result = IDL.Record({
+    'status' : IDL.Nat,
+    'body' : IDL.Vec(IDL.Nat8),
+    'headers' : IDL.Vec(http_header),
+  });
+  const TransformationInput = IDL.Record({
+    'context' : IDL.Vec(IDL.Nat8),
+    'response' : http_request_result,
+  });
+  const TransformationOutput = IDL.Record({
+    'status' : IDL.Nat,
+    'body' : IDL.Vec(IDL.Nat8),
+    'headers' : IDL.Vec(http_header),
+  });
   
   return IDL.Service({
     '_caffeineStorageBlobIsLive' : IDL.Func(
@@ -198,48 +442,101 @@ export const idlFactory = ({ IDL }) => {
       ),
     '_caffeineStorageUpdateGatewayPrincipals' : IDL.Func([], [], []),
     '_initializeAccessControlWithSecret' : IDL.Func([IDL.Text], [], []),
-    'addReaction' : IDL.Func(
-        [IDL.Text, IDL.Nat, IDL.Text, IDL.Text],
-        [IDL.Bool],
+    'addCustomEmoji' : IDL.Func(
+        [IDL.Text, IDL.Text, ExternalBlob, IDL.Text, IDL.Nat],
+        [],
+        [],
+      ),
+    'addReaction' : IDL.Func([IDL.Text, IDL.Nat, IDL.Text], [IDL.Bool], []),
+    'addSticker' : IDL.Func(
+        [IDL.Nat, ExternalBlob, IDL.Text, IDL.Nat, IDL.Opt(Time)],
+        [IDL.Nat],
         [],
       ),
     'assignCallerUserRole' : IDL.Func([IDL.Principal, UserRole], [], []),
-    'createRoom' : IDL.Func([IDL.Text], [IDL.Text], []),
-    'deleteMessage' : IDL.Func([IDL.Text, IDL.Nat, IDL.Text], [IDL.Bool], []),
+    'createRoom' : IDL.Func([IDL.Text, RoomSettings], [IDL.Text], []),
+    'createStickerPack' : IDL.Func([IDL.Text], [IDL.Nat], []),
+    'deleteMessage' : IDL.Func([IDL.Text, IDL.Nat], [IDL.Bool], []),
+    'deleteStickerPack' : IDL.Func([IDL.Nat], [], []),
     'editMessage' : IDL.Func(
         [
           IDL.Text,
           IDL.Nat,
           IDL.Text,
-          IDL.Text,
-          IDL.Opt(ExternalBlob),
-          IDL.Opt(ExternalBlob),
-          IDL.Opt(ExternalBlob),
+          IDL.Vec(Attachment),
+          IDL.Opt(IDL.Text),
         ],
         [IDL.Bool],
         [],
       ),
+    'fetchExternalImage' : IDL.Func(
+        [IDL.Text, IDL.Nat, IDL.Text],
+        [IDL.Vec(IDL.Nat8)],
+        [],
+      ),
     'fetchMessagesAfterId' : IDL.Func(
         [IDL.Text, IDL.Nat],
         [IDL.Vec(MessageView)],
         ['query'],
       ),
+    'getCachedExternalImage' : IDL.Func(
+        [IDL.Text, IDL.Nat, IDL.Text],
+        [IDL.Opt(IDL.Vec(IDL.Nat8))],
+        ['query'],
+      ),
     'getCallerUserProfile' : IDL.Func([], [IDL.Opt(UserProfile)], ['query']),
     'getCallerUserRole' : IDL.Func([], [UserRole], ['query']),
-    'getMessageTTL' : IDL.Func([], [Time], ['query']),
+    'getMessageTTL' : IDL.Func([IDL.Text], [Time], ['query']),
     'getMessages' : IDL.Func([IDL.Text], [IDL.Vec(MessageView)], ['query']),
+    'getMessagesBefore' : IDL.Func(
+        [IDL.Text, IDL.Opt(IDL.Nat), IDL.Nat],
+        [MessagesPage],
+        ['query'],
+      ),
+    'getMyPseudonym' : IDL.Func([IDL.Text], [IDL.Text], []),
+    'getMyStickerPacks' : IDL.Func([], [IDL.Vec(StickerPack)], ['query']),
+    'getRoomCustomEmoji' : IDL.Func(
+        [IDL.Text],
+        [IDL.Vec(CustomEmoji)],
+        ['query'],
+      ),
+    'getRoomEventSeq' : IDL.Func([IDL.Text], [IDL.Nat], ['query']),
+    'getRoomEvents' : IDL.Func(
+        [IDL.Text, IDL.Nat],
+        [RoomEventsPage],
+        ['query'],
+      ),
+    'getRoomSettings' : IDL.Func(
+        [IDL.Text],
+        [IDL.Opt(RoomSettings)],
+        ['query'],
+      ),
+    'getRoomStickerPacks' : IDL.Func(
+        [IDL.Text],
+        [IDL.Vec(SharedStickerPack)],
+        ['query'],
+      ),
     'getUserProfile' : IDL.Func(
         [IDL.Principal],
         [IDL.Opt(UserProfile)],
         ['query'],
       ),
+    'importStickerPack' : IDL.Func([IDL.Text, IDL.Nat], [IDL.Nat], []),
     'isCallerAdmin' : IDL.Func([], [IDL.Bool], ['query']),
+    'markMessageViewed' : IDL.Func(
+        [IDL.Text, IDL.Nat],
+        [IDL.Opt(MessageView)],
+        [],
+      ),
     'pruneExpiredMessages' : IDL.Func([], [], []),
+    'removeCustomEmoji' : IDL.Func([IDL.Text, IDL.Text], [], []),
     'removeReaction' : IDL.Func(
-        [IDL.Text, IDL.Nat, IDL.Text, IDL.Text],
+        [IDL.Text, IDL.Nat, IDL.Text],
         [IDL.Bool],
         [],
       ),
+    'removeSticker' : IDL.Func([IDL.Nat, IDL.Nat], [], []),
+    'renameStickerPack' : IDL.Func([IDL.Nat, IDL.Text], [], []),
     'roomExists' : IDL.Func([IDL.Text], [IDL.Bool], ['query']),
     'saveCallerUserProfile' : IDL.Func([UserProfile], [], []),
     'sendMessage' : IDL.Func(
@@ -247,16 +544,23 @@ export const idlFactory = ({ IDL }) => {
           IDL.Text,
           IDL.Text,
           IDL.Text,
-          IDL.Text,
           IDL.Opt(IDL.Nat),
-          IDL.Opt(ExternalBlob),
-          IDL.Opt(ExternalBlob),
-          IDL.Opt(ExternalBlob),
+          IDL.Vec(Attachment),
+          IDL.Opt(IDL.Text),
+          IDL.Opt(SelfDestruct),
           IDL.Text,
         ],
         [IDL.Nat],
         [],
       ),
+    'setStickerLifetime' : IDL.Func([IDL.Nat, IDL.Nat, IDL.Opt(Time)], [], []),
+    'shareStickerPack' : IDL.Func([IDL.Text, IDL.Nat], [IDL.Nat], []),
+    'transform' : IDL.Func(
+        [TransformationInput],
+        [TransformationOutput],
+        ['query'],
+      ),
+    'unshareStickerPack' : IDL.Func([IDL.Text, IDL.Nat], [], []),
   });
 };
 
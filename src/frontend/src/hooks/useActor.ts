@@ -4,6 +4,7 @@ import { useEffect } from 'react';
 import { type backendInterface } from '../backend';
 import { createActorWithConfig } from '../config';
 import { getSecretParameter } from '../utils/urlParams';
+import { getDeviceIdentity } from '../utils/deviceIdentity';
 
 const ACTOR_QUERY_KEY = 'actor';
 export function useActor() {
@@ -15,8 +16,12 @@ export function useActor() {
             const isAuthenticated = !!identity;
 
             if (!isAuthenticated) {
-                // Return anonymous actor if not authenticated
-                return await createActorWithConfig();
+                // Sign calls with the per-browser key so the backend sees a stable, non-anonymous caller
+                return await createActorWithConfig({
+                    agentOptions: {
+                        identity: getDeviceIdentity()
+                    }
+                });
             }
 
             const actorOptions = {
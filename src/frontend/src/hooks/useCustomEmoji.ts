@@ -0,0 +1,99 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useActor } from './useActor';
+import { ExternalBlob, type CustomEmoji } from '../backend';
+import { sanitizeChatError } from '../utils/chatErrorMessages';
+import { CUSTOM_EMOJI_MIME_TYPES, MAX_CUSTOM_EMOJI_SIZE, SHORTCODE_PATTERN } from '../utils/emoji';
+import { EMOJI_IMAGE_OPTIONS, processImage } from '../utils/imagePipeline';
+import { normalizeRoomId } from '../utils/roomId';
+
+function roomCustomEmojiKey(roomId: string | null) {
+  return ['customEmoji', roomId ? normalizeRoomId(roomId) : null];
+}
+
+// Custom emoji registered in the room, shared by all of its participants
+export function useRoomCustomEmoji(roomId: string | null) {
+  const { actor, isFetching: isActorFetching } = useActor();
+  const normalizedRoomId = roomId ? normalizeRoomId(roomId) : null;
+
+  return useQuery<CustomEmoji[]>({
+    queryKey: roomCustomEmojiKey(roomId),
+    queryFn: async () => {
+      if (!actor || !normalizedRoomId) return [];
+      try {
+        const emoji = await actor.getRoomCustomEmoji(normalizedRoomId);
+        return emoji.sort((a, b) => a.shortcode.localeCompare(b.shortcode));
+      } catch (error) {
+        const sanitized = sanitizeChatError(error);
+        console.error('[useRoomCustomEmoji] Query failed:', sanitized);
+        throw new Error(sanitized);
+      }
+    },
+    enabled: !!actor && !isActorFetching && !!normalizedRoomId,
+    staleTime: 60000,
+    retry: 1,
+  });
+}
+
+// Downscales the image to emoji size, then uploads it to blob storage under the shortcode
+export function useAddCustomEmoji() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ roomId, shortcode, file }: { roomId: string; shortcode: string; file: Blob }) => {
+      if (!actor) {
+        throw new Error('Connection not ready. Please wait and try again.');
+      }
+      if (!SHORTCODE_PATTERN.test(shortcode)) {
+        throw new Error('Shortcodes need 2 to 32 lowercase letters, digits or underscores');
+      }
+      if (!CUSTOM_EMOJI_MIME_TYPES.includes(file.type)) {
+        throw new Error('Please select a valid image file (PNG, GIF, WEBP, or JPEG)');
+      }
+      const image = await processImage(file, EMOJI_IMAGE_OPTIONS);
+      if (image.bytes.byteLength > MAX_CUSTOM_EMOJI_SIZE) {
+        throw new Error('Emoji images must be less than 256KB');
+      }
+
+      try {
+        await actor.addCustomEmoji(
+          normalizeRoomId(roomId),
+          shortcode,
+          ExternalBlob.fromBytes(image.bytes),
+          image.type,
+          BigInt(image.bytes.byteLength)
+        );
+      } catch (error) {
+        const sanitized = sanitizeChatError(error);
+        console.error('[useAddCustomEmoji] Mutation failed:', sanitized);
+        throw new Error(sanitized);
+      }
+    },
+    onSuccess: (_result, { roomId }) => {
+      queryClient.invalidateQueries({ queryKey: roomCustomEmojiKey(roomId) });
+    },
+  });
+}
+
+export function useRemoveCustomEmoji() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ roomId, shortcode }: { roomId: string; shortcode: string }) => {
+      if (!actor) {
+        throw new Error('Connection not ready. Please wait and try again.');
+      }
+      try {
+        await actor.removeCustomEmoji(normalizeRoomId(roomId), shortcode);
+      } catch (error) {
+        const sanitized = sanitizeChatError(error);
+        console.error('[useRemoveCustomEmoji] Mutation failed:', sanitized);
+        throw new Error(sanitized);
+      }
+    },
+    onSuccess: (_result, { roomId }) => {
+      queryClient.invalidateQueries({ queryKey: roomCustomEmojiKey(roomId) });
+    },
+  });
+}
@@ -0,0 +1,126 @@
+import { useState, useEffect } from 'react';
+import type { ExternalBlob } from '../backend';
+import { decryptMediaToBlob } from '../utils/mediaCrypto';
+
+interface DecryptedMediaEntry {
+  promise: Promise<string>;
+  objectUrl?: string;
+  refs: number;
+}
+
+// Object URLs of decrypted media, keyed by the sealed blob's URL and shared by every
+// bubble that shows it. Unused entries are revoked oldest-first beyond this limit.
+const MAX_IDLE_ENTRIES = 32;
+const decryptedMedia = new Map<string, DecryptedMediaEntry>();
+
+function evictIdleEntries() {
+  let idle = 0;
+  for (const entry of decryptedMedia.values()) {
+    if (entry.refs === 0) idle++;
+  }
+  for (const [sourceUrl, entry] of decryptedMedia) {
+    if (idle <= MAX_IDLE_ENTRIES) break;
+    if (entry.refs === 0 && entry.objectUrl) {
+      URL.revokeObjectURL(entry.objectUrl);
+      decryptedMedia.delete(sourceUrl);
+      idle--;
+    }
+  }
+}
+
+function acquireDecryptedMedia(sourceUrl: string, key: CryptoKey): DecryptedMediaEntry {
+  let entry = decryptedMedia.get(sourceUrl);
+  if (entry) {
+    // Re-insert to mark the entry as most recently used
+    decryptedMedia.delete(sourceUrl);
+  } else {
+    const created: DecryptedMediaEntry = {
+      refs: 0,
+      promise: decryptMediaToBlob(sourceUrl, key).then((blob) => {
+        created.objectUrl = URL.createObjectURL(blob);
+        return created.objectUrl;
+      }),
+    };
+    // Forget failures so the next viewer can retry
+    created.promise.catch(() => {
+      if (decryptedMedia.get(sourceUrl) === created) decryptedMedia.delete(sourceUrl);
+    });
+    entry = created;
+  }
+  entry.refs++;
+  decryptedMedia.set(sourceUrl, entry);
+  return entry;
+}
+
+function releaseDecryptedMedia(entry: DecryptedMediaEntry) {
+  entry.refs--;
+  evictIdleEntries();
+}
+
+/**
+ * Revoke the decrypted copies of a message's media right away, e.g. once a
+ * self-destructing message has been read, instead of waiting for eviction.
+ */
+export function revokeDecryptedMedia(blobs: Array<ExternalBlob | undefined>): void {
+  for (const blob of blobs) {
+    if (!blob) continue;
+    const sourceUrl = blob.getDirectURL();
+    const entry = decryptedMedia.get(sourceUrl);
+    if (!entry) continue;
+    if (entry.objectUrl) {
+      URL.revokeObjectURL(entry.objectUrl);
+    } else {
+      // Still decrypting: revoke as soon as the object URL exists
+      entry.promise.then((url) => URL.revokeObjectURL(url), () => {});
+    }
+    decryptedMedia.delete(sourceUrl);
+  }
+}
+
+/**
+ * Hook that resolves a message attachment to a displayable URL.
+ * Plain media uses the blob's direct URL; encrypted media is downloaded and
+ * decrypted with the message's media key into a shared object URL.
+ */
+export function useDecryptedMedia(
+  blob: ExternalBlob | undefined,
+  isEncrypted: boolean,
+  mediaCryptoKey: CryptoKey | undefined
+): { url: string | null; isDecrypting: boolean; hasError: boolean } {
+  const sourceUrl = blob?.getDirectURL() ?? null;
+  const [result, setResult] = useState<{ sourceUrl: string; url: string | null } | null>(null);
+
+  useEffect(() => {
+    if (!sourceUrl || !isEncrypted || !mediaCryptoKey) return;
+
+    let cancelled = false;
+    const entry = acquireDecryptedMedia(sourceUrl, mediaCryptoKey);
+    entry.promise.then(
+      (url) => {
+        if (!cancelled) setResult({ sourceUrl, url });
+      },
+      (error) => {
+        console.error('[useDecryptedMedia] Failed to decrypt media:', error);
+        if (!cancelled) setResult({ sourceUrl, url: null });
+      }
+    );
+
+    return () => {
+      cancelled = true;
+      releaseDecryptedMedia(entry);
+    };
+  }, [sourceUrl, isEncrypted, mediaCryptoKey]);
+
+  if (!sourceUrl) {
+    return { url: null, isDecrypting: false, hasError: false };
+  }
+  if (!isEncrypted) {
+    return { url: sourceUrl, isDecrypting: false, hasError: false };
+  }
+  if (!mediaCryptoKey) {
+    return { url: null, isDecrypting: false, hasError: true };
+  }
+
+  const settled = result?.sourceUrl === sourceUrl ? result : null;
+  return { url: settled?.url ?? null, isDecrypting: !settled, hasError: settled !== null && !settled.url };
+}
@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import type { CustomEmoji } from '../backend';
+import { findShortcodeQuery, getSuggestionText, searchEmoji, type EmojiSuggestion } from '../utils/emoji';
+
+interface ShortcodeMatch {
+  start: number;
+  end: number;
+  query: string;
+}
+
+// Suggests Unicode and custom emoji while a :shortcode is typed in the composer, and completes the chosen one
+export function useEmojiAutocomplete({
+  inputRef,
+  value,
+  onChange,
+  customEmoji,
+}: {
+  inputRef: React.RefObject<HTMLInputElement | null>;
+  value: string;
+  onChange: (value: string) => void;
+  customEmoji: CustomEmoji[];
+}) {
+  const [match, setMatch] = useState<ShortcodeMatch | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  // The text can change without the input, e.g. when a message is sent, which ends the match
+  const isCurrent = match !== null && value.slice(match.start, match.end).toLowerCase() === `:${match.query}`;
+  const suggestions = isCurrent ? searchEmoji(match.query, customEmoji) : [];
+
+  // Call after the input's text or caret changes
+  const updateQuery = (input: HTMLInputElement) => {
+    const caret = input.selectionStart ?? input.value.length;
+    const found = findShortcodeQuery(input.value, caret);
+    if (found?.query !== match?.query) setActiveIndex(0);
+    setMatch(found ? { ...found, end: caret } : null);
+  };
+
+  const dismiss = () => setMatch(null);
+
+  const complete = (suggestion: EmojiSuggestion) => {
+    if (!match) return;
+    const text = `${getSuggestionText(suggestion)} `;
+    const caret = match.start + text.length;
+    onChange(value.slice(0, match.start) + text + value.slice(match.end));
+    setMatch(null);
+    // Put the caret after the emoji once the new text is rendered
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(caret, caret);
+    });
+  };
+
+  // Returns true when the key was used by the suggestions, so the composer skips its own handling
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>): boolean => {
+    if (suggestions.length === 0) return false;
+    switch (e.key) {
+      case 'ArrowDown':
+        setActiveIndex((index) => (index + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        setActiveIndex((index) => (index - 1 + suggestions.length) % suggestions.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        complete(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+        break;
+      case 'Escape':
+        dismiss();
+        break;
+      default:
+        return false;
+    }
+    e.preventDefault();
+    return true;
+  };
+
+  return { suggestions, activeIndex, updateQuery, complete, dismiss, handleKeyDown };
+}
@@ -0,0 +1,22 @@
+import { useState, useEffect } from 'react';
+
+/**
+ * Hook that counts down to a wall-clock time in milliseconds.
+ * Returns the remaining milliseconds, ticking every second in the last hour
+ * and every minute before that; null when there is no expiry.
+ */
+export function useExpiryCountdown(expiresAt: number | null): number | null {
+  const [now, setNow] = useState(() => Date.now());
+
+  const remaining = expiresAt === null ? null : Math.max(0, expiresAt - now);
+  const tickMs = remaining !== null && remaining <= 60 * 60 * 1000 ? 1000 : 60 * 1000;
+
+  useEffect(() => {
+    if (expiresAt === null || remaining === 0) return;
+
+    const timer = setInterval(() => setNow(Date.now()), tickMs);
+    return () => clearInterval(timer);
+  }, [expiresAt, tickMs, remaining === 0]);
+
+  return remaining;
+}
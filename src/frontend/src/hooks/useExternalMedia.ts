@@ -0,0 +1,101 @@
+import { useEffect } from 'react';
+import { create } from 'zustand';
+import { useActor } from './useActor';
+import type { backendInterface } from '../backend';
+import { sniffMimeType, SNIFF_LENGTH } from '../utils/fileTypes';
+import type { ExternalLink } from '../utils/mediaGallery';
+
+/**
+ * How images linked in messages are loaded. Loading one straight from the linked
+ * site shows that site the reader's IP address, so by default it waits for a click.
+ * - click: a placeholder naming the site until the image is clicked
+ * - proxy: fetched by the canister, so the browser never contacts the site; links in
+ *   encrypted rooms wait for a click, since the canister cannot read them
+ * - direct: loaded from the site as soon as the message is shown
+ */
+export type ExternalMediaMode = 'click' | 'proxy' | 'direct';
+
+export const DEFAULT_EXTERNAL_MEDIA_MODE: ExternalMediaMode = 'click';
+
+const EXTERNAL_MEDIA_MODE_STORAGE_KEY = 'externalMediaMode';
+
+type ExternalMediaEntry =
+  | { status: 'loading' }
+  | { status: 'loaded'; src: string }
+  | { status: 'failed' };
+
+interface ExternalMediaState {
+  mode: ExternalMediaMode;
+  // Images loaded in this session, keyed by the linked URL
+  entries: Record<string, ExternalMediaEntry>;
+  setMode: (mode: ExternalMediaMode) => void;
+  setEntry: (url: string, entry: ExternalMediaEntry) => void;
+}
+
+function readStoredMode(): ExternalMediaMode {
+  const stored = localStorage.getItem(EXTERNAL_MEDIA_MODE_STORAGE_KEY);
+  return stored === 'click' || stored === 'proxy' || stored === 'direct' ? stored : DEFAULT_EXTERNAL_MEDIA_MODE;
+}
+
+export const useExternalMediaStore = create<ExternalMediaState>((set) => ({
+  mode: readStoredMode(),
+  entries: {},
+  setMode: (mode) => {
+    localStorage.setItem(EXTERNAL_MEDIA_MODE_STORAGE_KEY, mode);
+    set({ mode });
+  },
+  setEntry: (url, entry) => set((state) => ({ entries: { ...state.entries, [url]: entry } })),
+}));
+
+// Where a linked image can be shown from without contacting the site again, or null while it must wait
+export function selectExternalMediaSource(state: ExternalMediaState, url: string): string | null {
+  if (state.mode === 'direct') return url;
+  const entry = state.entries[url];
+  return entry?.status === 'loaded' ? entry.src : null;
+}
+
+async function loadThroughCanister(actor: backendInterface, { roomId, messageId, url }: ExternalLink) {
+  const { setEntry } = useExternalMediaStore.getState();
+  setEntry(url, { status: 'loading' });
+  try {
+    const bytes =
+      (await actor.getCachedExternalImage(roomId, messageId, url)) ??
+      (await actor.fetchExternalImage(roomId, messageId, url));
+    // The canister only passes images on, but the type is still taken from the bytes rather than the link
+    const mimeType = sniffMimeType(bytes.slice(0, SNIFF_LENGTH), '');
+    if (!mimeType.startsWith('image/')) {
+      throw new Error('The linked file is not an image');
+    }
+    setEntry(url, { status: 'loaded', src: URL.createObjectURL(new Blob([new Uint8Array(bytes)], { type: mimeType })) });
+  } catch (error) {
+    console.error('Failed to load linked image through the canister:', error);
+    setEntry(url, { status: 'failed' });
+  }
+}
+
+/**
+ * Source of an image linked in a message under the chosen privacy mode. `src` is
+ * null until the image may be shown; `loadDirectly` shows it from the linked site.
+ */
+export function useExternalMedia({ roomId, messageId, url, isEncrypted }: ExternalLink) {
+  const { actor } = useActor();
+  const mode = useExternalMediaStore((state) => state.mode);
+  const entry = useExternalMediaStore((state) => state.entries[url]);
+  const src = useExternalMediaStore((state) => selectExternalMediaSource(state, url));
+  const setEntry = useExternalMediaStore((state) => state.setEntry);
+  const isProxied = mode === 'proxy' && !isEncrypted;
+
+  useEffect(() => {
+    if (isProxied && !entry && actor) {
+      void loadThroughCanister(actor, { roomId, messageId, url, isEncrypted });
+    }
+  }, [isProxied, entry, actor, roomId, messageId, url, isEncrypted]);
+
+  return {
+    src,
+    mode,
+    isLoading: isProxied && !src && entry?.status !== 'failed',
+    hasFailed: entry?.status === 'failed',
+    loadDirectly: () => setEntry(url, { status: 'loaded', src: url }),
+  };
+}
@@ -0,0 +1,79 @@
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { create } from 'zustand';
+import { createConfiguredGifProvider, type GifPage, type GifResult } from '../utils/gifProviders';
+
+export const gifProvider = createConfiguredGifProvider();
+
+const RECENT_GIFS_STORAGE_KEY = 'recentGifs';
+const FAVORITE_GIFS_STORAGE_KEY = 'favoriteGifs';
+const MAX_RECENT_GIFS = 24;
+const MAX_FAVORITE_GIFS = 100;
+
+interface GifLibraryState {
+  // Newest first; GIFs are told apart by URL, which stays unique across providers
+  recent: GifResult[];
+  favorites: GifResult[];
+  addRecent: (gif: GifResult) => void;
+  toggleFavorite: (gif: GifResult) => void;
+}
+
+function readStoredGifs(key: string): GifResult[] {
+  try {
+    const stored = localStorage.getItem(key);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter((gif) => typeof gif?.url === 'string') : [];
+  } catch (error) {
+    console.error('Error loading saved GIFs:', error);
+    return [];
+  }
+}
+
+function storeGifs(key: string, gifs: GifResult[]) {
+  try {
+    localStorage.setItem(key, JSON.stringify(gifs));
+  } catch (error) {
+    console.error('Error saving GIFs:', error);
+  }
+}
+
+export const useGifLibraryStore = create<GifLibraryState>((set, get) => ({
+  recent: readStoredGifs(RECENT_GIFS_STORAGE_KEY),
+  favorites: readStoredGifs(FAVORITE_GIFS_STORAGE_KEY),
+  addRecent: (gif) => {
+    const recent = [gif, ...get().recent.filter((item) => item.url !== gif.url)].slice(0, MAX_RECENT_GIFS);
+    storeGifs(RECENT_GIFS_STORAGE_KEY, recent);
+    set({ recent });
+  },
+  toggleFavorite: (gif) => {
+    const current = get().favorites;
+    const favorites = current.some((item) => item.url === gif.url)
+      ? current.filter((item) => item.url !== gif.url)
+      : [gif, ...current].slice(0, MAX_FAVORITE_GIFS);
+    storeGifs(FAVORITE_GIFS_STORAGE_KEY, favorites);
+    set({ favorites });
+  },
+}));
+
+// Trending GIFs, or search results when there is a query, loaded a page at a time
+export function useGifResults(query: string) {
+  const trimmedQuery = query.trim();
+
+  return useInfiniteQuery<GifPage, Error, GifResult[], string[], string | undefined>({
+    queryKey: ['gifs', gifProvider.id, trimmedQuery],
+    queryFn: ({ pageParam }) =>
+      trimmedQuery ? gifProvider.search(trimmedQuery, pageParam) : gifProvider.trending(pageParam),
+    initialPageParam: undefined,
+    getNextPageParam: (lastPage) => lastPage.next ?? undefined,
+    // Pages can overlap when the provider's ranking shifts between requests
+    select: (data) => {
+      const seen = new Set<string>();
+      return data.pages.flatMap((page) => page.results).filter((gif) => {
+        if (seen.has(gif.url)) return false;
+        seen.add(gif.url);
+        return true;
+      });
+    },
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
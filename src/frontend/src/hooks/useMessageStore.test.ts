@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { RoomEventKind, type MessageView, type RoomEventView } from '../backend';
+import {
+  allocateTemporaryId,
+  confirmOptimisticMessage,
+  useMessageStore,
+  type OptimisticMessage,
+} from './useMessageStore';
+
+const ROOM = 'book-club';
+
+function message(id: number, timestamp: number, content = `message ${id}`): MessageView {
+  return {
+    id: BigInt(id),
+    content,
+    nickname: 'Ada',
+    owner: 'anon-1',
+    attachments: [],
+    isEdited: false,
+    isConsumed: false,
+    timestamp: BigInt(timestamp),
+    reactions: [],
+  };
+}
+
+function event(seq: number, kind: RoomEventKind, messageId: number, current?: MessageView): RoomEventView {
+  return { seq: BigInt(seq), kind, messageId: BigInt(messageId), message: current };
+}
+
+function pendingMessage(timestamp: number, nonce: string): OptimisticMessage {
+  return { ...message(0, timestamp, 'pending'), id: allocateTemporaryId(), nonce, isOptimistic: true, delivery: { status: 'sending' } };
+}
+
+function room() {
+  const { byId, order } = useMessageStore.getState().rooms[ROOM];
+  return { order: order.map(Number), contents: order.map((id) => byId.get(id)!.content) };
+}
+
+describe('useMessageStore', () => {
+  beforeEach(() => useMessageStore.setState({ rooms: {} }));
+
+  it('orders pages loaded newest first by timestamp', () => {
+    const { resetRoom, mergeMessages } = useMessageStore.getState();
+
+    resetRoom(ROOM, [message(5, 50), message(4, 40)]);
+    mergeMessages(ROOM, [message(2, 20), message(3, 30), message(1, 10)]);
+
+    expect(room().order).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('keeps messages with the same timestamp in arrival order and known ids in place', () => {
+    const { mergeMessages } = useMessageStore.getState();
+
+    mergeMessages(ROOM, [message(1, 10), message(2, 10)]);
+    mergeMessages(ROOM, [message(3, 10), { ...message(1, 99), content: 'edited' }]);
+
+    expect(room()).toEqual({ order: [1, 2, 3], contents: ['edited', 'message 2', 'message 3'] });
+  });
+
+  it('keeps unconfirmed messages when the newest page is reloaded', () => {
+    const { resetRoom, mergeMessages } = useMessageStore.getState();
+    const pending = pendingMessage(25, 'nonce-1');
+
+    mergeMessages(ROOM, [message(1, 10), message(2, 20), pending]);
+    resetRoom(ROOM, [message(3, 30), message(2, 20)]);
+
+    expect(room().order).toEqual([2, Number(pending.id), 3]);
+  });
+
+  it('applies created, edited and deleted events', () => {
+    const { mergeMessages, applyRoomEvents } = useMessageStore.getState();
+    mergeMessages(ROOM, [message(1, 10), message(2, 20)]);
+
+    applyRoomEvents(ROOM, [
+      event(1, RoomEventKind.created, 3, message(3, 30)),
+      event(2, RoomEventKind.edited, 1, { ...message(1, 10), content: 'edited', isEdited: true }),
+      event(3, RoomEventKind.deleted, 2),
+    ]);
+
+    expect(room()).toEqual({ order: [1, 3], contents: ['edited', 'message 3'] });
+  });
+
+  it('lets the last event of a message win and ignores changes outside the loaded history', () => {
+    const { mergeMessages, applyRoomEvents } = useMessageStore.getState();
+    mergeMessages(ROOM, [message(5, 50)]);
+
+    applyRoomEvents(ROOM, [
+      event(1, RoomEventKind.created, 6, message(6, 60)),
+      event(2, RoomEventKind.deleted, 6),
+      event(3, RoomEventKind.reacted, 1, message(1, 10)),
+      event(4, RoomEventKind.edited, 5, { ...message(5, 50), content: 'first edit' }),
+      event(5, RoomEventKind.edited, 5, { ...message(5, 50), content: 'second edit' }),
+    ]);
+
+    expect(room()).toEqual({ order: [5], contents: ['second edit'] });
+  });
+
+  it('applies the same events twice without duplicating messages', () => {
+    const { applyRoomEvents } = useMessageStore.getState();
+    const events = [event(1, RoomEventKind.created, 1, message(1, 10)), event(2, RoomEventKind.created, 2, message(2, 20))];
+
+    applyRoomEvents(ROOM, events);
+    const first = useMessageStore.getState().rooms[ROOM];
+    applyRoomEvents(ROOM, events);
+
+    expect(room().order).toEqual([1, 2]);
+    expect(useMessageStore.getState().rooms[ROOM].order).toEqual(first.order);
+  });
+
+  it('swaps a sent message for its confirmed copy once', () => {
+    const { mergeMessages, applyRoomEvents } = useMessageStore.getState();
+    const pending = pendingMessage(20, 'nonce-1');
+    mergeMessages(ROOM, [message(1, 10), pending]);
+
+    // The change feed can deliver the message before the send call returns
+    applyRoomEvents(ROOM, [event(1, RoomEventKind.created, 7, message(7, 20, 'pending'))]);
+    confirmOptimisticMessage(ROOM, 'nonce-1', 7n);
+
+    expect(room()).toEqual({ order: [1, 7], contents: ['message 1', 'pending'] });
+  });
+
+  it('drops expired messages and strips consumed ones', () => {
+    const { mergeMessages, pruneExpired, consumeMessage } = useMessageStore.getState();
+    mergeMessages(ROOM, [message(1, 10), message(2, 20), message(3, 30)]);
+
+    pruneExpired(ROOM, 25n);
+    consumeMessage(ROOM, 3n);
+
+    const consumed = useMessageStore.getState().rooms[ROOM].byId.get(3n)!;
+    expect(room().order).toEqual([3]);
+    expect(consumed).toMatchObject({ content: '', attachments: [], isConsumed: true });
+  });
+});
@@ -0,0 +1,260 @@
+import { create } from 'zustand';
+import type { MessageView, RoomEventView } from '../backend';
+import { RoomEventKind } from '../backend';
+import type { DecryptedMessageView } from '../utils/roomCrypto';
+import type { UploadProgress } from '../utils/uploadProgress';
+
+/**
+ * Delivery of an outgoing message: queued in the outbox until it can be sent,
+ * uploading its media, waiting for the backend, then sent once it has a real id.
+ * Failed messages stay queued until they are retried or cancelled.
+ */
+export type DeliveryState =
+  | { status: 'queued' }
+  | { status: 'uploading'; progress: UploadProgress }
+  | { status: 'sending' }
+  | { status: 'sent' }
+  | { status: 'failed' };
+
+// Optimistic message type for instant UI updates
+export interface OptimisticMessage extends Omit<DecryptedMessageView, 'id'> {
+  // Temporary id from `allocateTemporaryId` until the backend confirms the message
+  id: bigint;
+  isOptimistic?: boolean;
+  optimisticId?: string;
+  delivery: DeliveryState;
+}
+
+// Temporary ids count down from -1 so they can never collide with backend ids, which are Nat
+let lastTemporaryId = BigInt(0);
+
+export function allocateTemporaryId(): bigint {
+  lastTemporaryId -= BigInt(1);
+  return lastTemporaryId;
+}
+
+export function isTemporaryId(id: bigint): boolean {
+  return id < BigInt(0);
+}
+
+/**
+ * Normalized messages of one room: records keyed by message id plus the
+ * display order as a list of ids sorted oldest-first by timestamp.
+ */
+export interface RoomMessages {
+  byId: Map<bigint, MessageView>;
+  order: bigint[];
+}
+
+interface MessageStoreState {
+  rooms: Record<string, RoomMessages>;
+  // Replace a room's history with its newest page, keeping unconfirmed optimistic messages
+  resetRoom: (roomId: string, messages: MessageView[]) => void;
+  // Insert or update a batch of messages, e.g. an older history page
+  mergeMessages: (roomId: string, messages: MessageView[]) => void;
+  updateMessage: (roomId: string, messageId: bigint, updater: (message: MessageView) => MessageView) => void;
+  removeMessage: (roomId: string, messageId: bigint) => void;
+  // Swap a message for its confirmed version, e.g. an optimistic message once the backend assigned an id
+  replaceMessage: (roomId: string, previousId: bigint, message: MessageView) => void;
+  applyRoomEvents: (roomId: string, events: RoomEventView[]) => void;
+  // Drop messages sent before `cutoff`, which the backend no longer serves
+  pruneExpired: (roomId: string, cutoff: bigint) => void;
+  // Remove the content and media of a self-destructing message once it has been read
+  consumeMessage: (roomId: string, messageId: bigint) => void;
+}
+
+const EMPTY_ROOM: RoomMessages = { byId: new Map(), order: [] };
+
+export function isOptimisticMessage(message: MessageView): boolean {
+  return (message as OptimisticMessage).isOptimistic === true;
+}
+
+// Messages without a delivery state came from the backend and are sent
+export function getDeliveryState(message: MessageView): DeliveryState {
+  return isOptimisticMessage(message) ? (message as OptimisticMessage).delivery : { status: 'sent' };
+}
+
+// Index of the first id in `order` whose message is newer than `timestamp`
+function upperBound(order: bigint[], byId: Map<bigint, MessageView>, timestamp: bigint): number {
+  let low = 0;
+  let high = order.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (byId.get(order[mid])!.timestamp <= timestamp) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Upsert messages into a room without mutating it. Known ids keep their
+ * position; new ids are inserted in timestamp order.
+ */
+function upsertMessages(room: RoomMessages, messages: MessageView[]): RoomMessages {
+  if (messages.length === 0) return room;
+
+  const byId = new Map(room.byId);
+  const added: MessageView[] = [];
+  for (const message of messages) {
+    if (!byId.has(message.id)) added.push(message);
+    byId.set(message.id, message);
+  }
+  if (added.length === 0) return { byId, order: room.order };
+
+  const order = room.order.slice();
+  for (const message of added) {
+    order.splice(upperBound(order, byId, message.timestamp), 0, message.id);
+  }
+  return { byId, order };
+}
+
+function removeMessages(room: RoomMessages, messageIds: Set<bigint>): RoomMessages {
+  let removed = false;
+  const byId = new Map(room.byId);
+  for (const id of messageIds) {
+    removed = byId.delete(id) || removed;
+  }
+  if (!removed) return room;
+  return { byId, order: room.order.filter((id) => byId.has(id)) };
+}
+
+export const useMessageStore = create<MessageStoreState>()((set) => {
+  const updateRoom = (roomId: string, updater: (room: RoomMessages) => RoomMessages) =>
+    set((state) => {
+      const room = state.rooms[roomId] ?? EMPTY_ROOM;
+      const next = updater(room);
+      return next === room ? state : { rooms: { ...state.rooms, [roomId]: next } };
+    });
+
+  return {
+    rooms: {},
+
+    resetRoom: (roomId, messages) =>
+      updateRoom(roomId, (room) => {
+        const pending = room.order
+          .map((id) => room.byId.get(id)!)
+          .filter(isOptimisticMessage);
+        return upsertMessages(EMPTY_ROOM, [...messages, ...pending]);
+      }),
+
+    mergeMessages: (roomId, messages) => updateRoom(roomId, (room) => upsertMessages(room, messages)),
+
+    updateMessage: (roomId, messageId, updater) =>
+      updateRoom(roomId, (room) => {
+        const message = room.byId.get(messageId);
+        if (!message) return room;
+        const byId = new Map(room.byId);
+        byId.set(messageId, updater(message));
+        return { byId, order: room.order };
+      }),
+
+    removeMessage: (roomId, messageId) =>
+      updateRoom(roomId, (room) => removeMessages(room, new Set([messageId]))),
+
+    replaceMessage: (roomId, previousId, message) =>
+      updateRoom(roomId, (room) => {
+        const withoutPrevious = removeMessages(room, new Set([previousId]));
+        // The confirmed message may already have arrived through the change feed
+        return withoutPrevious.byId.has(message.id) ? withoutPrevious : upsertMessages(withoutPrevious, [message]);
+      }),
+
+    /**
+     * Events carry the current state of their message, so applying them is idempotent;
+     * an event without a message means it was deleted or expired. Only messages created
+     * since the last poll are added; changes to messages outside the loaded history are ignored.
+     */
+    applyRoomEvents: (roomId, events) =>
+      updateRoom(roomId, (room) => {
+        if (events.length === 0) return room;
+
+        const latest = new Map<bigint, MessageView | null>();
+        const createdIds = new Set<bigint>();
+        for (const event of events) {
+          latest.set(event.messageId, event.kind === RoomEventKind.deleted ? null : event.message ?? null);
+          if (event.kind === RoomEventKind.created) {
+            createdIds.add(event.messageId);
+          }
+        }
+
+        const removed = new Set<bigint>();
+        const upserts: MessageView[] = [];
+        for (const [id, message] of latest) {
+          if (!message) {
+            removed.add(id);
+          } else if (room.byId.has(id) || createdIds.has(id)) {
+            upserts.push(message);
+          }
+        }
+
+        return upsertMessages(removeMessages(room, removed), upserts);
+      }),
+
+    pruneExpired: (roomId, cutoff) =>
+      updateRoom(roomId, (room) => {
+        // `order` is sorted oldest-first, so expired messages form a prefix
+        let expiredCount = 0;
+        while (expiredCount < room.order.length && room.byId.get(room.order[expiredCount])!.timestamp < cutoff) {
+          expiredCount++;
+        }
+        if (expiredCount === 0) return room;
+        return removeMessages(room, new Set(room.order.slice(0, expiredCount)));
+      }),
+
+    consumeMessage: (roomId, messageId) =>
+      updateRoom(roomId, (room) => {
+        const message = room.byId.get(messageId);
+        if (!message || message.isConsumed) return room;
+        const consumed: DecryptedMessageView = {
+          ...message,
+          content: '',
+          attachments: [],
+          mediaKey: undefined,
+          mediaCryptoKey: undefined,
+          isConsumed: true,
+        };
+        const byId = new Map(room.byId);
+        byId.set(messageId, consumed);
+        return { byId, order: room.order };
+      }),
+  };
+});
+
+// Selectors
+
+export function selectRoomMessages(roomId: string) {
+  return (state: MessageStoreState): RoomMessages => state.rooms[roomId] ?? EMPTY_ROOM;
+}
+
+export function useRoomMessages(roomId: string): RoomMessages {
+  return useMessageStore(selectRoomMessages(roomId));
+}
+
+// Read a message outside of React, e.g. to snapshot it before an optimistic update
+export function getStoredMessage(roomId: string, messageId: bigint): MessageView | undefined {
+  return selectRoomMessages(roomId)(useMessageStore.getState()).byId.get(messageId);
+}
+
+// Find the unconfirmed message of a send by its nonce
+export function getOptimisticMessage(roomId: string, nonce: string): OptimisticMessage | undefined {
+  for (const message of selectRoomMessages(roomId)(useMessageStore.getState()).byId.values()) {
+    if (isOptimisticMessage(message) && message.nonce === nonce) return message as OptimisticMessage;
+  }
+  return undefined;
+}
+
+export function setDeliveryState(roomId: string, nonce: string, delivery: DeliveryState): void {
+  const message = getOptimisticMessage(roomId, nonce);
+  if (!message) return;
+  useMessageStore.getState().updateMessage(roomId, message.id, (current) => ({ ...current, delivery }) as OptimisticMessage);
+}
+
+// Swap the unconfirmed message of a send for the confirmed one once the backend assigned its id
+export function confirmOptimisticMessage(roomId: string, nonce: string, messageId: bigint): void {
+  const message = getOptimisticMessage(roomId, nonce);
+  if (!message) return;
+  const { isOptimistic, optimisticId, delivery, ...confirmed } = message;
+  useMessageStore.getState().replaceMessage(roomId, message.id, { ...confirmed, id: messageId });
+}
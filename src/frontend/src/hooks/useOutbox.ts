@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react';
+import type { backendInterface } from '../backend';
+import { useActor } from './useActor';
+import {
+  useMessageStore,
+  allocateTemporaryId,
+  confirmOptimisticMessage,
+  getOptimisticMessage,
+  setDeliveryState,
+  type OptimisticMessage,
+} from './useMessageStore';
+import { sanitizeChatError } from '../utils/chatErrorMessages';
+import { decryptMessage } from '../utils/roomCrypto';
+import type { UploadProgress } from '../utils/uploadProgress';
+import {
+  abortOutboxSend,
+  deleteOutboxEntry,
+  getOutboxEntries,
+  getOutboxEntry,
+  getOutboxMediaSize,
+  hasOutboxMedia,
+  outboxEntryToMessage,
+  sendOutboxEntry,
+  type OutboxEntry,
+} from '../utils/outbox';
+
+/**
+ * Send an outbox entry while tracking it on its unconfirmed message: uploading
+ * with progress while media is stored, then sending until the backend answers.
+ * `onUploadProgress` additionally receives the progress, e.g. for an upload dialog.
+ */
+export function sendQueuedMessage(
+  actor: backendInterface,
+  entry: OutboxEntry,
+  onUploadProgress?: (progress: UploadProgress) => void
+): Promise<bigint> {
+  const { roomId, nonce } = entry;
+  if (hasOutboxMedia(entry)) {
+    setDeliveryState(roomId, nonce, {
+      status: 'uploading',
+      progress: { percentage: 0, bytesUploaded: 0, totalBytes: getOutboxMediaSize(entry), remainingMs: null },
+    });
+  } else {
+    setDeliveryState(roomId, nonce, { status: 'sending' });
+  }
+  return sendOutboxEntry(actor, entry, (progress) => {
+    setDeliveryState(roomId, nonce, progress.percentage < 100 ? { status: 'uploading', progress } : { status: 'sending' });
+    onUploadProgress?.(progress);
+  });
+}
+
+// Send a queued message and swap its unconfirmed copy for the confirmed one
+async function deliverOutboxEntry(actor: backendInterface, entry: OutboxEntry): Promise<boolean> {
+  const { roomId, nonce } = entry;
+  try {
+    const messageId = await sendQueuedMessage(actor, entry);
+    confirmOptimisticMessage(roomId, nonce, messageId);
+    return true;
+  } catch (error) {
+    console.error('[useOutbox] Failed to send queued message:', sanitizeChatError(error));
+    setDeliveryState(roomId, nonce, { status: 'failed' });
+    return false;
+  }
+}
+
+// Show queued messages that are not in the room yet, e.g. after a reload
+async function restoreOutbox(roomId: string, owner: string): Promise<OutboxEntry[]> {
+  const entries = await getOutboxEntries(roomId);
+  const restored = await Promise.all(
+    entries
+      .filter((entry) => !getOptimisticMessage(roomId, entry.nonce))
+      .map(async (entry): Promise<OptimisticMessage> => ({
+        ...(await decryptMessage(roomId, outboxEntryToMessage(entry, allocateTemporaryId(), owner))),
+        isOptimistic: true,
+        optimisticId: `optimistic_${entry.nonce}`,
+        delivery: { status: 'queued' },
+      }))
+  );
+  useMessageStore.getState().mergeMessages(roomId, restored);
+  return entries;
+}
+
+/**
+ * Hook that keeps a room's outbox flowing: queued messages are restored into
+ * the room once its messages can be decrypted, and replayed oldest-first
+ * whenever the actor is available and the browser is online.
+ */
+export function useOutbox(roomId: string, owner: string | null, isReady: boolean) {
+  const { actor } = useActor();
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isReady || !owner) return;
+
+    let cancelled = false;
+    restoreOutbox(roomId, owner)
+      .then(async (entries) => {
+        if (!actor || !isOnline) return;
+        for (const entry of entries) {
+          if (cancelled) return;
+          await deliverOutboxEntry(actor, entry);
+        }
+      })
+      .catch((error) => console.warn('[useOutbox] Outbox unavailable:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, isReady, owner, actor, isOnline]);
+
+  // Resend a failed message now; resolves false if it failed again
+  const retry = async (nonce: string): Promise<boolean> => {
+    if (!actor) {
+      throw new Error('Connection not ready. Please wait and try again.');
+    }
+
+    const entry = await getOutboxEntry(nonce);
+    if (!entry) {
+      // Already sent or discarded elsewhere, e.g. in another tab
+      const message = getOptimisticMessage(roomId, nonce);
+      if (message) useMessageStore.getState().removeMessage(roomId, message.id);
+      return true;
+    }
+    return deliverOutboxEntry(actor, entry);
+  };
+
+  // Cancel a message that is queued, still uploading or failed to send
+  const cancel = async (nonce: string): Promise<void> => {
+    abortOutboxSend(nonce);
+    await deleteOutboxEntry(nonce);
+    const message = getOptimisticMessage(roomId, nonce);
+    if (message) useMessageStore.getState().removeMessage(roomId, message.id);
+  };
+
+  return { retry, cancel };
+}
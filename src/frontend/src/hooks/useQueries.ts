@@ -1,7 +1,15 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient, type InfiniteData } from '@tanstack/react-query';
 import { useActor } from './useActor';
-import type { MessageView, Reaction } from '../backend';
-import { ExternalBlob } from '../backend';
+import { sendQueuedMessage } from './useOutbox';
+import type { Attachment, Reaction, RoomEventView, RoomSettings, SelfDestruct } from '../backend';
+import {
+  useMessageStore,
+  getStoredMessage,
+  allocateTemporaryId,
+  confirmOptimisticMessage,
+  setDeliveryState,
+  type OptimisticMessage,
+} from './useMessageStore';
 import { sanitizeChatError } from '../utils/chatErrorMessages';
 import { logChatOperationError, createChatOperationError } from '../utils/chatOperationErrors';
 import { retryWithBackoff } from '../utils/retry';
@@ -9,22 +17,49 @@ import { toastErrorOnce } from '../utils/toastOnce';
 import { usePageVisibility } from './usePageVisibility';
 import { normalizeRoomId } from '../utils/roomId';
 import { extractICRejectDetails } from '../utils/icRejectDetails';
+import {
+  createRoomEncryption,
+  decryptMessage,
+  decryptMessages,
+  encryptContent,
+  getRoomKey,
+  sealAttachmentDetails,
+  type DecryptedMessageView,
+} from '../utils/roomCrypto';
+import { encryptMessageMedia } from '../utils/mediaCrypto';
+import { DEFAULT_FILE_SIZE_LIMIT, describeAttachments } from '../utils/attachments';
+import { DEFAULT_RETENTION_MS, retentionToTTL } from '../utils/messageExpiry';
+import { MessageCancelledError, MessageQueuedError, putOutboxEntry, type OutboxEntry } from '../utils/outbox';
+import type { UploadProgress } from '../utils/uploadProgress';
 
-// Generate a unique user ID for the session (stored in localStorage)
-function getUserId(): string {
-  const stored = localStorage.getItem('chatUserId');
-  if (stored) return stored;
-  const newId = `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  localStorage.setItem('chatUserId', newId);
-  return newId;
+// Number of messages requested per history page
+const MESSAGE_PAGE_SIZE = 50;
+
+// Pagination state of a loaded history page; the messages themselves live in the message store
+export interface MessagePageCursor {
+  oldestId: bigint | null;
+  hasMore: boolean;
 }
 
+export type MessagePageCursors = InfiniteData<MessagePageCursor, bigint | null>;
+
 // Create a new chat room
 export function useCreateRoom() {
   const { actor } = useActor();
 
   return useMutation({
-    mutationFn: async (joinCode: string) => {
+    mutationFn: async ({
+      joinCode,
+      passphrase,
+      retentionMs = DEFAULT_RETENTION_MS,
+      maxFileSize = DEFAULT_FILE_SIZE_LIMIT,
+    }: {
+      joinCode: string;
+      passphrase?: string;
+      retentionMs?: number;
+      // Largest file attachment accepted, in bytes
+      maxFileSize?: number;
+    }) => {
       if (!actor) {
         throw new Error('Connection not ready. Please wait for the connection to establish.');
       }
@@ -36,7 +71,13 @@ export function useCreateRoom() {
         throw new Error('Room code cannot exceed 30 characters');
       }
       
-      const result = await actor.createRoom(normalizedCode);
+      // The passphrase stays on this device; only the salt and key check are sent
+      const settings: RoomSettings = {
+        messageTTL: retentionToTTL(retentionMs),
+        maxFileSize: BigInt(maxFileSize),
+        ...(passphrase ? { encryption: await createRoomEncryption(normalizedCode, passphrase) } : {}),
+      };
+      const result = await actor.createRoom(normalizedCode, settings);
       return result;
     },
     onError: (error) => {
@@ -78,11 +119,51 @@ export function useRoomExists(roomId: string | null) {
   });
 }
 
-// Optimistic message type for instant UI updates
-interface OptimisticMessage extends Omit<MessageView, 'id'> {
-  id: bigint;
-  isOptimistic?: boolean;
-  optimisticId?: string;
+// Fetch a room's settings, e.g. whether its messages are end-to-end encrypted
+export function useRoomSettings(roomId: string | null) {
+  const { actor, isFetching: isActorFetching } = useActor();
+  const normalizedRoomId = roomId ? normalizeRoomId(roomId) : null;
+
+  return useQuery<RoomSettings | null>({
+    queryKey: ['roomSettings', normalizedRoomId],
+    queryFn: async () => {
+      if (!actor || !normalizedRoomId) return null;
+      try {
+        return await actor.getRoomSettings(normalizedRoomId);
+      } catch (error) {
+        const sanitized = sanitizeChatError(error);
+        console.error('[useRoomSettings] Query failed:', sanitized);
+        throw new Error(sanitized);
+      }
+    },
+    enabled: !!actor && !isActorFetching && !!normalizedRoomId,
+    staleTime: 30000,
+    retry: 1,
+  });
+}
+
+// The caller's pseudonym in a room, which the backend uses as `owner` and reaction `userId`
+export function useMyPseudonym(roomId: string | null) {
+  const { actor, isFetching: isActorFetching } = useActor();
+  const normalizedRoomId = roomId ? normalizeRoomId(roomId) : null;
+
+  return useQuery<string | null>({
+    queryKey: ['myPseudonym', normalizedRoomId],
+    queryFn: async () => {
+      if (!actor || !normalizedRoomId) return null;
+      try {
+        return await actor.getMyPseudonym(normalizedRoomId);
+      } catch (error) {
+        const sanitized = sanitizeChatError(error);
+        console.error('[useMyPseudonym] Query failed:', sanitized);
+        throw new Error(sanitized);
+      }
+    },
+    enabled: !!actor && !isActorFetching && !!normalizedRoomId,
+    // Pseudonyms are stable for the lifetime of the caller's key
+    staleTime: Infinity,
+    retry: 2,
+  });
 }
 
 // Send a message with optimistic updates and retry logic
@@ -96,24 +177,21 @@ export function useSendMessage() {
       content, 
       nickname, 
       replyToId,
-      image,
-      video,
-      audio,
-      nonce
+      attachments = [],
+      selfDestruct,
+      nonce,
+      onUploadProgress
     }: { 
       roomId: string; 
       content: string; 
       nickname: string; 
       replyToId?: bigint | null;
-      image?: ExternalBlob | null;
-      video?: ExternalBlob | null;
-      audio?: ExternalBlob | null;
+      attachments?: Attachment[];
+      selfDestruct?: SelfDestruct | null;
       nonce: string;
+      // Progress of the media upload, for callers that show it outside the message
+      onUploadProgress?: (progress: UploadProgress) => void;
     }) => {
-      if (!actor) {
-        throw new Error('Connection not ready. Please wait and try again.');
-      }
-      
       const normalizedRoomId = normalizeRoomId(roomId);
       const trimmedNickname = nickname.trim();
       
@@ -126,37 +204,51 @@ export function useSendMessage() {
       if (trimmedNickname.length > 20) {
         throw new Error('Nickname cannot exceed 20 characters');
       }
-      if (!content && !image && !video && !audio) {
+      if (!content && attachments.length === 0) {
         throw new Error('Message content or media is required');
       }
       
-      const userId = getUserId();
-      
+      let isQueued = false;
       try {
-        // Retry sendMessage for transient failures with the same nonce
-        const messageId = await retryWithBackoff(
-          async () => {
-            return await actor.sendMessage(
-              normalizedRoomId, 
-              content || (video ? '🎬 Video' : audio ? '🎵 Audio' : '📷 Image'), 
-              trimmedNickname,
-              userId,
-              replyToId ?? null,
-              image ?? null,
-              video ?? null,
-              audio ?? null,
-              nonce
-            );
-          },
-          {
-            maxAttempts: 3,
-            initialDelayMs: 200,
-            maxDelayMs: 2000,
+        // Encrypt once so retries resend an identical payload for nonce deduplication
+        const sealedContent = await encryptContent(normalizedRoomId, content || describeAttachments(attachments));
+        const sealedMedia = await encryptMessageMedia(normalizedRoomId, attachments);
+        const entry: OutboxEntry = {
+          nonce,
+          roomId: normalizedRoomId,
+          nickname: trimmedNickname,
+          content: sealedContent,
+          replyToId: replyToId ?? null,
+          attachments: await Promise.all(
+            sealedMedia.attachments.map(async ({ blob, ...attachment }) => ({ ...attachment, bytes: await blob.getBytes() }))
+          ),
+          mediaKey: sealedMedia.mediaKey,
+          selfDestruct: selfDestruct ?? null,
+          createdAt: Date.now(),
+        };
+
+        // Persist before the first attempt so the message survives a reload or a lost connection
+        isQueued = await putOutboxEntry(entry).then(
+          () => true,
+          (error) => {
+            console.warn('[useSendMessage] Outbox unavailable, sending without it:', error);
+            return false;
           }
         );
+
+        if (!actor) {
+          throw new Error('Connection not ready. Please wait and try again.');
+        }
+
+        // Retries transient failures with the same nonce
+        const messageId = await sendQueuedMessage(actor, entry, onUploadProgress);
         
-        return { messageId, roomId: normalizedRoomId, content, nickname: trimmedNickname, replyToId, image, video, audio, nonce };
+        return { messageId, roomId: normalizedRoomId, content, nickname: trimmedNickname, replyToId, attachments, nonce };
       } catch (err) {
+        if (err instanceof MessageCancelledError) {
+          throw err;
+        }
+
         const sanitized = sanitizeChatError(err);
         const icRejectDetails = extractICRejectDetails(err);
         
@@ -165,94 +257,68 @@ export function useSendMessage() {
         console.log('Room ID:', normalizedRoomId);
         console.log('Nonce:', nonce);
         console.log('Has Content:', !!content);
-        console.log('Has Media:', { image: !!image, video: !!video, audio: !!audio });
+        console.log('Attachments:', attachments.map((attachment) => attachment.kind));
         if (icRejectDetails) {
           console.log('IC Reject Details:', icRejectDetails);
         }
         console.log('Error:', err);
         console.groupEnd();
         
-        throw new Error(sanitized);
+        throw isQueued ? new MessageQueuedError(sanitized, !actor || !navigator.onLine) : new Error(sanitized);
       }
     },
     // Optimistic update - add message to UI immediately
-    onMutate: async ({ roomId, content, nickname, replyToId, image, video, audio, nonce }) => {
+    onMutate: async ({ roomId, content, nickname, replyToId, attachments = [], selfDestruct, nonce }) => {
       const normalizedRoomId = normalizeRoomId(roomId);
-      const userId = getUserId();
-      
-      await queryClient.cancelQueries({ queryKey: ['messages', normalizedRoomId] });
-
-      const previousMessages = queryClient.getQueryData<MessageView[]>(['messages', normalizedRoomId]);
+      const owner = queryClient.getQueryData<string | null>(['myPseudonym', normalizedRoomId]) ?? '';
 
       const optimisticId = `optimistic_${nonce}`;
       const optimisticMessage: OptimisticMessage = {
-        id: BigInt(Date.now()),
-        content: content || (video ? '🎬 Video' : audio ? '🎵 Audio' : '📷 Image'),
+        id: allocateTemporaryId(),
+        content: content || describeAttachments(attachments),
         timestamp: BigInt(Date.now() * 1_000_000),
         nickname: nickname.trim(),
         replyToId: replyToId ?? undefined,
-        imageUrl: image ?? undefined,
-        videoUrl: video ?? undefined,
-        audioUrl: audio ?? undefined,
+        attachments,
         isEdited: false,
         reactions: [],
-        owner: userId,
+        owner,
         nonce,
+        selfDestruct: selfDestruct ?? undefined,
+        isConsumed: false,
         isOptimistic: true,
         optimisticId,
+        delivery: { status: 'queued' },
+        ...(getRoomKey(normalizedRoomId) ? { contentState: 'decrypted' as const } : {}),
       };
 
-      queryClient.setQueryData<MessageView[]>(
-        ['messages', normalizedRoomId],
-        (old = []) => [...old, optimisticMessage]
-      );
+      useMessageStore.getState().mergeMessages(normalizedRoomId, [optimisticMessage]);
 
-      return { previousMessages, optimisticId, nonce };
+      return { optimisticMessage, nonce };
     },
     // On success, reconcile optimistic message with real backend messageId
-    onSuccess: (data, variables, context) => {
+    onSuccess: (data, variables) => {
       const normalizedRoomId = normalizeRoomId(variables.roomId);
       const { messageId, nonce } = data;
       
-      // Update the optimistic message with the real backend ID
-      // Also remove any duplicates with the same nonce
-      queryClient.setQueryData<MessageView[]>(
-        ['messages', normalizedRoomId],
-        (old = []) => {
-          const withoutOptimistic = old.filter((msg: any) => 
-            msg.optimisticId !== context?.optimisticId
-          );
-          
-          // Check if message with this ID already exists (from polling)
-          const alreadyExists = withoutOptimistic.some(msg => msg.id === messageId);
-          
-          if (alreadyExists) {
-            // Message already in list from polling, just remove optimistic
-            return withoutOptimistic;
-          }
-          
-          // Find the optimistic message and convert it to real
-          const optimisticMsg = old.find((msg: any) => msg.optimisticId === context?.optimisticId);
-          if (optimisticMsg) {
-            const { isOptimistic, optimisticId, ...realMsg } = optimisticMsg as any;
-            return [...withoutOptimistic, { ...realMsg, id: messageId }];
-          }
-          
-          return withoutOptimistic;
-        }
-      );
+      // Replace the optimistic message with the confirmed one; if polling already
+      // delivered it, the optimistic copy is simply dropped
+      confirmOptimisticMessage(normalizedRoomId, nonce, messageId);
     },
-    // On error, roll back to the previous value
+    // On error, keep outbox messages (queued while offline, failed otherwise) and remove the rest
     onError: (err, variables, context) => {
       const normalizedRoomId = normalizeRoomId(variables.roomId);
       
-      if (context?.previousMessages !== undefined) {
-        queryClient.setQueryData(['messages', normalizedRoomId], context.previousMessages);
-      } else {
-        queryClient.setQueryData<MessageView[]>(
-          ['messages', normalizedRoomId],
-          (old = []) => old.filter((msg: any) => msg.optimisticId !== context?.optimisticId)
-        );
+      if (context?.optimisticMessage) {
+        if (err instanceof MessageQueuedError) {
+          setDeliveryState(
+            normalizedRoomId,
+            variables.nonce,
+            err.isWaitingForConnection ? { status: 'queued' } : { status: 'failed' }
+          );
+        } else {
+          useMessageStore.getState().removeMessage(normalizedRoomId, context.optimisticMessage.id);
+        }
       }
     },
   });
@@ -268,35 +334,35 @@ export function useEditMessage() {
       roomId, 
       messageId, 
       newContent,
-      newImage,
-      newVideo,
-      newAudio
+      newAttachments
     }: { 
       roomId: string; 
       messageId: bigint; 
       newContent: string;
-      newImage?: ExternalBlob | null;
-      newVideo?: ExternalBlob | null;
-      newAudio?: ExternalBlob | null;
+      // The attachments to keep; edits can remove attachments but not add new ones
+      newAttachments: Attachment[];
     }) => {
       if (!actor) {
         throw new Error('Connection not ready. Please wait and try again.');
       }
       
       const normalizedRoomId = normalizeRoomId(roomId);
-      const userId = getUserId();
       
       try {
+        const sealedContent = await encryptContent(normalizedRoomId, newContent);
+        // Kept attachments are already sealed with the message's media key; only their details are sealed again
+        const storedMessage = getStoredMessage(normalizedRoomId, messageId);
+        const mediaKey = newAttachments.length > 0 ? (storedMessage?.mediaKey ?? null) : null;
+        const mediaCryptoKey = (storedMessage as DecryptedMessageView | undefined)?.mediaCryptoKey;
+        const sealedAttachments = mediaCryptoKey ? await sealAttachmentDetails(mediaCryptoKey, newAttachments) : newAttachments;
         const success = await retryWithBackoff(
           async () => {
             return await actor.editMessage(
               normalizedRoomId, 
               messageId, 
-              userId, 
-              newContent,
-              newImage ?? null,
-              newVideo ?? null,
-              newAudio ?? null
+              sealedContent,
+              sealedAttachments,
+              mediaKey
             );
           },
           {
@@ -310,7 +376,7 @@ export function useEditMessage() {
           throw new Error('You can only edit your own messages.');
         }
         
-        return { roomId: normalizedRoomId, messageId, newContent, newImage, newVideo, newAudio };
+        return { roomId: normalizedRoomId, messageId, newContent, newAttachments };
       } catch (err) {
         const sanitized = sanitizeChatError(err);
         const operationError = createChatOperationError(
@@ -323,38 +389,64 @@ export function useEditMessage() {
         throw new Error(sanitized);
       }
     },
-    onMutate: async ({ roomId, messageId, newContent, newImage, newVideo, newAudio }) => {
+    onMutate: async ({ roomId, messageId, newContent, newAttachments }) => {
       const normalizedRoomId = normalizeRoomId(roomId);
-      await queryClient.cancelQueries({ queryKey: ['messages', normalizedRoomId] });
-      const previousMessages = queryClient.getQueryData<MessageView[]>(['messages', normalizedRoomId]);
-
-      queryClient.setQueryData<MessageView[]>(
-        ['messages', normalizedRoomId],
-        (old = []) => old.map(msg => 
-          msg.id === messageId 
-            ? { 
-                ...msg, 
-                content: newContent, 
-                isEdited: true,
-                imageUrl: newImage ?? msg.imageUrl,
-                videoUrl: newVideo ?? msg.videoUrl,
-                audioUrl: newAudio ?? msg.audioUrl
-              } 
-            : msg
-        )
-      );
-
-      return { previousMessages };
+      const previousMessage = getStoredMessage(normalizedRoomId, messageId);
+
+      useMessageStore.getState().updateMessage(normalizedRoomId, messageId, (msg) => ({
+        ...msg,
+        content: newContent,
+        isEdited: true,
+        attachments: newAttachments,
+      }));
+
+      return { previousMessage };
     },
     onError: (err, variables, context) => {
       const normalizedRoomId = normalizeRoomId(variables.roomId);
-      if (context?.previousMessages) {
-        queryClient.setQueryData(['messages', normalizedRoomId], context.previousMessages);
+      if (context?.previousMessage) {
+        useMessageStore.getState().mergeMessages(normalizedRoomId, [context.previousMessage]);
       }
     },
     onSettled: (data, error, variables) => {
       const normalizedRoomId = normalizeRoomId(variables.roomId);
-      queryClient.invalidateQueries({ queryKey: ['messages', normalizedRoomId] });
+      queryClient.invalidateQueries({ queryKey: ['roomEvents', normalizedRoomId] });
+    },
+  });
+}
+
+// Open a self-destructing message; resolves to it with its content, or null once the caller can no longer read it
+export function useMarkMessageViewed() {
+  const { actor } = useActor();
+
+  return useMutation({
+    mutationFn: async ({ roomId, messageId }: { roomId: string; messageId: bigint }) => {
+      if (!actor) {
+        throw new Error('Connection not ready. Please wait and try again.');
+      }
+
+      const normalizedRoomId = normalizeRoomId(roomId);
+
+      try {
+        const opened = await actor.markMessageViewed(normalizedRoomId, messageId);
+        return opened && (await decryptMessage(normalizedRoomId, opened));
+      } catch (err) {
+        const sanitized = sanitizeChatError(err);
+        const operationError = createChatOperationError(
+          'markMessageViewed',
+          { roomId: normalizedRoomId, messageId: messageId.toString() },
+          sanitized,
+          err
+        );
+        logChatOperationError(operationError);
+        throw new Error(sanitized);
+      }
+    },
+    onSuccess: (opened, variables) => {
+      // Already opened on another device, so the local copy is stale
+      if (!opened) {
+        useMessageStore.getState().consumeMessage(normalizeRoomId(variables.roomId), variables.messageId);
+      }
     },
   });
 }
@@ -371,12 +463,11 @@ export function useDeleteMessage() {
       }
       
       const normalizedRoomId = normalizeRoomId(roomId);
-      const userId = getUserId();
       
       try {
         const success = await retryWithBackoff(
           async () => {
-            return await actor.deleteMessage(normalizedRoomId, messageId, userId);
+            return await actor.deleteMessage(normalizedRoomId, messageId);
           },
           {
             maxAttempts: 2,
@@ -409,25 +500,21 @@ export function useDeleteMessage() {
     },
     onMutate: async ({ roomId, messageId }) => {
       const normalizedRoomId = normalizeRoomId(roomId);
-      await queryClient.cancelQueries({ queryKey: ['messages', normalizedRoomId] });
-      const previousMessages = queryClient.getQueryData<MessageView[]>(['messages', normalizedRoomId]);
+      const previousMessage = getStoredMessage(normalizedRoomId, messageId);
 
-      queryClient.setQueryData<MessageView[]>(
-        ['messages', normalizedRoomId],
-        (old = []) => old.filter(msg => msg.id !== messageId)
-      );
+      useMessageStore.getState().removeMessage(normalizedRoomId, messageId);
 
-      return { previousMessages };
+      return { previousMessage };
     },
     onError: (err, variables, context) => {
       const normalizedRoomId = normalizeRoomId(variables.roomId);
-      if (context?.previousMessages) {
-        queryClient.setQueryData(['messages', normalizedRoomId], context.previousMessages);
+      if (context?.previousMessage) {
+        useMessageStore.getState().mergeMessages(normalizedRoomId, [context.previousMessage]);
       }
     },
     onSettled: (data, error, variables) => {
       const normalizedRoomId = normalizeRoomId(variables.roomId);
-      queryClient.invalidateQueries({ queryKey: ['messages', normalizedRoomId] });
+      queryClient.invalidateQueries({ queryKey: ['roomEvents', normalizedRoomId] });
     },
   });
 }
@@ -452,16 +539,15 @@ export function useAddReaction() {
       }
       
       const normalizedRoomId = normalizeRoomId(roomId);
-      const userId = getUserId();
       
       try {
-        const success = await actor.addReaction(normalizedRoomId, messageId, userId, emoji);
+        const success = await actor.addReaction(normalizedRoomId, messageId, emoji);
         
         if (!success) {
           throw new Error('Failed to add reaction');
         }
         
-        return { roomId: normalizedRoomId, messageId, userId, emoji };
+        return { roomId: normalizedRoomId, messageId, emoji };
       } catch (err) {
         const sanitized = sanitizeChatError(err);
         throw new Error(sanitized);
@@ -469,32 +555,25 @@ export function useAddReaction() {
     },
     onMutate: async ({ roomId, messageId, emoji }) => {
       const normalizedRoomId = normalizeRoomId(roomId);
-      const userId = getUserId();
-      await queryClient.cancelQueries({ queryKey: ['messages', normalizedRoomId] });
-      const previousMessages = queryClient.getQueryData<MessageView[]>(['messages', normalizedRoomId]);
-
-      queryClient.setQueryData<MessageView[]>(
-        ['messages', normalizedRoomId],
-        (old = []) => old.map(msg => {
-          if (msg.id === messageId) {
-            const newReaction: Reaction = { userId, emoji };
-            return { ...msg, reactions: [...msg.reactions, newReaction] };
-          }
-          return msg;
-        })
-      );
+      const userId = queryClient.getQueryData<string | null>(['myPseudonym', normalizedRoomId]) ?? '';
+      const previousMessage = getStoredMessage(normalizedRoomId, messageId);
 
-      return { previousMessages };
+      useMessageStore.getState().updateMessage(normalizedRoomId, messageId, (msg) => {
+        const newReaction: Reaction = { userId, emoji };
+        return { ...msg, reactions: [...msg.reactions, newReaction] };
+      });
+
+      return { previousMessage };
     },
     onError: (err, variables, context) => {
       const normalizedRoomId = normalizeRoomId(variables.roomId);
-      if (context?.previousMessages) {
-        queryClient.setQueryData(['messages', normalizedRoomId], context.previousMessages);
+      if (context?.previousMessage) {
+        useMessageStore.getState().mergeMessages(normalizedRoomId, [context.previousMessage]);
       }
     },
     onSettled: (data, error, variables) => {
       const normalizedRoomId = normalizeRoomId(variables.roomId);
-      queryClient.invalidateQueries({ queryKey: ['messages', normalizedRoomId] });
+      queryClient.invalidateQueries({ queryKey: ['roomEvents', normalizedRoomId] });
     },
   });
 }
@@ -519,16 +598,15 @@ export function useRemoveReaction() {
       }
       
       const normalizedRoomId = normalizeRoomId(roomId);
-      const userId = getUserId();
       
       try {
-        const success = await actor.removeReaction(normalizedRoomId, messageId, userId, emoji);
+        const success = await actor.removeReaction(normalizedRoomId, messageId, emoji);
         
         if (!success) {
           throw new Error('Failed to remove reaction');
         }
         
-        return { roomId: normalizedRoomId, messageId, userId, emoji };
+        return { roomId: normalizedRoomId, messageId, emoji };
       } catch (err) {
         const sanitized = sanitizeChatError(err);
         throw new Error(sanitized);
@@ -536,86 +614,113 @@ export function useRemoveReaction() {
     },
     onMutate: async ({ roomId, messageId, emoji }) => {
       const normalizedRoomId = normalizeRoomId(roomId);
-      const userId = getUserId();
-      await queryClient.cancelQueries({ queryKey: ['messages', normalizedRoomId] });
-      const previousMessages = queryClient.getQueryData<MessageView[]>(['messages', normalizedRoomId]);
-
-      queryClient.setQueryData<MessageView[]>(
-        ['messages', normalizedRoomId],
-        (old = []) => old.map(msg => {
-          if (msg.id === messageId) {
-            return { 
-              ...msg, 
-              reactions: msg.reactions.filter(r => !(r.userId === userId && r.emoji === emoji))
-            };
-          }
-          return msg;
-        })
-      );
+      const userId = queryClient.getQueryData<string | null>(['myPseudonym', normalizedRoomId]) ?? '';
+      const previousMessage = getStoredMessage(normalizedRoomId, messageId);
 
-      return { previousMessages };
+      useMessageStore.getState().updateMessage(normalizedRoomId, messageId, (msg) => ({
+        ...msg,
+        reactions: msg.reactions.filter(r => !(r.userId === userId && r.emoji === emoji))
+      }));
+
+      return { previousMessage };
     },
     onError: (err, variables, context) => {
       const normalizedRoomId = normalizeRoomId(variables.roomId);
-      if (context?.previousMessages) {
-        queryClient.setQueryData(['messages', normalizedRoomId], context.previousMessages);
+      if (context?.previousMessage) {
+        useMessageStore.getState().mergeMessages(normalizedRoomId, [context.previousMessage]);
       }
     },
     onSettled: (data, error, variables) => {
       const normalizedRoomId = normalizeRoomId(variables.roomId);
-      queryClient.invalidateQueries({ queryKey: ['messages', normalizedRoomId] });
+      queryClient.invalidateQueries({ queryKey: ['roomEvents', normalizedRoomId] });
     },
   });
 }
 
-// Fetch messages for a room with incremental polling
-export function useMessages(roomId: string | null) {
+// Last applied change-feed sequence number per room, advanced by every successful poll
+const roomEventCursors = new Map<string, bigint>();
+
+// Poll the room change feed and fold new events into the message store
+function useRoomEventSync(normalizedRoomId: string | null, historyLoaded: boolean) {
   const { actor, isFetching: isActorFetching } = useActor();
-  const queryClient = useQueryClient();
   const isPageVisible = usePageVisibility();
 
+  return useQuery<bigint | null>({
+    queryKey: ['roomEvents', normalizedRoomId],
+    queryFn: async () => {
+      if (!actor || !normalizedRoomId) return null;
+
+      const cursor = roomEventCursors.get(normalizedRoomId);
+      if (cursor === undefined) return null;
+
+      try {
+        const { events, latestSeq } = await actor.getRoomEvents(normalizedRoomId, cursor);
+        const decryptedEvents = await Promise.all(
+          events.map(async (event): Promise<RoomEventView> =>
+            event.message ? { ...event, message: await decryptMessage(normalizedRoomId, event.message) } : event
+          )
+        );
+        useMessageStore.getState().applyRoomEvents(normalizedRoomId, decryptedEvents);
+        roomEventCursors.set(normalizedRoomId, latestSeq);
+        return latestSeq;
+      } catch (error) {
+        const sanitized = sanitizeChatError(error);
+        console.error('[useRoomEventSync] Query failed:', sanitized);
+        throw new Error(sanitized);
+      }
+    },
+    enabled: !!actor && !isActorFetching && !!normalizedRoomId && historyLoaded,
+    refetchInterval: isPageVisible ? 2000 : false,
+    staleTime: 1000,
+    retry: 2,
+  });
+}
+
+// Load a room's history into the message store newest page first, loading older
+// pages on demand, and keep it in sync through the room change feed
+export function useMessages(roomId: string | null) {
+  const { actor, isFetching: isActorFetching } = useActor();
+
   const normalizedRoomId = roomId ? normalizeRoomId(roomId) : null;
 
-  return useQuery<MessageView[]>({
+  const historyQuery = useInfiniteQuery<MessagePageCursor, Error, MessagePageCursors, (string | null)[], bigint | null>({
     queryKey: ['messages', normalizedRoomId],
-    queryFn: async () => {
-      if (!actor || !normalizedRoomId) return [];
+    queryFn: async ({ pageParam }) => {
+      if (!actor || !normalizedRoomId) return { oldestId: null, hasMore: false };
       
       try {
-        const cachedMessages = queryClient.getQueryData<MessageView[]>(['messages', normalizedRoomId]) || [];
-        
-        const realMessages = cachedMessages.filter((msg: any) => !msg.isOptimistic);
-        
-        if (realMessages.length === 0) {
-          const allMessages = await actor.getMessages(normalizedRoomId);
-          return allMessages;
-        }
-        
-        const lastRealMessage = realMessages[realMessages.length - 1];
-        const lastId = lastRealMessage.id;
-        
-        const newMessages = await actor.fetchMessagesAfterId(normalizedRoomId, lastId);
-        
-        if (newMessages.length > 0) {
-          const mergedMessages = [...realMessages, ...newMessages];
-          
-          const uniqueMessages = mergedMessages.filter((msg, index, self) =>
-            index === self.findIndex((m) => m.id === msg.id)
-          );
-          
-          return uniqueMessages.sort((a, b) => Number(a.timestamp - b.timestamp));
+        const store = useMessageStore.getState();
+
+        if (pageParam !== null) {
+          const page = await actor.getMessagesBefore(normalizedRoomId, pageParam, BigInt(MESSAGE_PAGE_SIZE));
+          store.mergeMessages(normalizedRoomId, await decryptMessages(normalizedRoomId, page.messages));
+          return { oldestId: page.messages[0]?.id ?? null, hasMore: page.hasMore };
         }
-        
-        return realMessages;
+
+        // Read the cursor before the newest page; replaying events that are already
+        // reflected in the page is harmless because applying them is idempotent.
+        const latestSeq = await actor.getRoomEventSeq(normalizedRoomId);
+        const newestPage = await actor.getMessagesBefore(normalizedRoomId, null, BigInt(MESSAGE_PAGE_SIZE));
+        store.resetRoom(normalizedRoomId, await decryptMessages(normalizedRoomId, newestPage.messages));
+        roomEventCursors.set(normalizedRoomId, latestSeq);
+        return { oldestId: newestPage.messages[0]?.id ?? null, hasMore: newestPage.hasMore };
       } catch (error) {
         const sanitized = sanitizeChatError(error);
         console.error('[useMessages] Query failed:', sanitized);
         throw new Error(sanitized);
       }
     },
+    initialPageParam: null,
+    getNextPageParam: (lastPage) =>
+      lastPage.hasMore && lastPage.oldestId !== null ? lastPage.oldestId : undefined,
     enabled: !!actor && !isActorFetching && !!normalizedRoomId,
-    refetchInterval: isPageVisible ? 2000 : false,
-    staleTime: 1000,
+    // New messages arrive through the change feed, so history pages never go stale on their own
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
     retry: 2,
   });
+
+  useRoomEventSync(normalizedRoomId, historyQuery.isSuccess);
+
+  return historyQuery;
 }
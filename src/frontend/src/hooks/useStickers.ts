@@ -0,0 +1,171 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useActor } from './useActor';
+import { ExternalBlob, type backendInterface, type SharedStickerPack, type StickerPack } from '../backend';
+import { sanitizeChatError } from '../utils/chatErrorMessages';
+import { processImage, STICKER_IMAGE_OPTIONS } from '../utils/imagePipeline';
+import { normalizeRoomId } from '../utils/roomId';
+import { MAX_STICKER_SIZE, STICKER_MIME_TYPES, stickerLifetimeToTTL } from '../utils/stickers';
+
+const MY_STICKER_PACKS_KEY = ['stickerPacks'];
+
+function roomStickerPacksKey(roomId: string | null) {
+  return ['roomStickerPacks', roomId ? normalizeRoomId(roomId) : null];
+}
+
+// Runs a sticker operation with the connected actor, logging and sanitizing failures like the chat calls
+function useStickerMutation<TVariables, TResult>(
+  operation: string,
+  run: (actor: backendInterface, variables: TVariables) => Promise<TResult>,
+  getInvalidatedKeys: (variables: TVariables) => unknown[][] = () => [MY_STICKER_PACKS_KEY]
+) {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (variables: TVariables) => {
+      if (!actor) {
+        throw new Error('Connection not ready. Please wait and try again.');
+      }
+      try {
+        return await run(actor, variables);
+      } catch (error) {
+        const sanitized = sanitizeChatError(error);
+        console.error(`[${operation}] Mutation failed:`, sanitized);
+        throw new Error(sanitized);
+      }
+    },
+    onSuccess: (_result, variables) => {
+      for (const queryKey of getInvalidatedKeys(variables)) {
+        queryClient.invalidateQueries({ queryKey });
+      }
+    },
+  });
+}
+
+// The caller's sticker packs, which follow their identity across devices
+export function useMyStickerPacks() {
+  const { actor, isFetching: isActorFetching } = useActor();
+
+  return useQuery<StickerPack[]>({
+    queryKey: MY_STICKER_PACKS_KEY,
+    queryFn: async () => {
+      if (!actor) return [];
+      try {
+        return await actor.getMyStickerPacks();
+      } catch (error) {
+        const sanitized = sanitizeChatError(error);
+        console.error('[useMyStickerPacks] Query failed:', sanitized);
+        throw new Error(sanitized);
+      }
+    },
+    enabled: !!actor && !isActorFetching,
+    staleTime: 60000,
+    retry: 1,
+  });
+}
+
+// Packs shared into a room, which its participants can import
+export function useRoomStickerPacks(roomId: string | null) {
+  const { actor, isFetching: isActorFetching } = useActor();
+  const normalizedRoomId = roomId ? normalizeRoomId(roomId) : null;
+
+  return useQuery<SharedStickerPack[]>({
+    queryKey: roomStickerPacksKey(roomId),
+    queryFn: async () => {
+      if (!actor || !normalizedRoomId) return [];
+      try {
+        return await actor.getRoomStickerPacks(normalizedRoomId);
+      } catch (error) {
+        const sanitized = sanitizeChatError(error);
+        console.error('[useRoomStickerPacks] Query failed:', sanitized);
+        throw new Error(sanitized);
+      }
+    },
+    enabled: !!actor && !isActorFetching && !!normalizedRoomId,
+    staleTime: 30000,
+    retry: 1,
+  });
+}
+
+export function useCreateStickerPack() {
+  return useStickerMutation('useCreateStickerPack', (actor, name: string) => actor.createStickerPack(name));
+}
+
+export function useRenameStickerPack() {
+  return useStickerMutation('useRenameStickerPack', (actor, { packId, name }: { packId: bigint; name: string }) =>
+    actor.renameStickerPack(packId, name)
+  );
+}
+
+export function useDeleteStickerPack() {
+  return useStickerMutation('useDeleteStickerPack', (actor, packId: bigint) => actor.deleteStickerPack(packId));
+}
+
+// Downscales the image like other stickers, then uploads it to blob storage once
+export function useAddSticker() {
+  return useStickerMutation(
+    'useAddSticker',
+    async (
+      actor,
+      { packId, file, lifetimeMs, onProgress }: {
+        packId: bigint;
+        file: Blob;
+        lifetimeMs: number | null;
+        onProgress?: (percentage: number) => void;
+      }
+    ) => {
+      if (!STICKER_MIME_TYPES.includes(file.type)) {
+        throw new Error('Please select a valid image file (JPEG, PNG, GIF, or WEBP)');
+      }
+      const image = await processImage(file, STICKER_IMAGE_OPTIONS);
+      if (image.bytes.byteLength > MAX_STICKER_SIZE) {
+        throw new Error('Sticker size must be less than 2MB');
+      }
+      let blob = ExternalBlob.fromBytes(image.bytes);
+      if (onProgress) {
+        blob = blob.withUploadProgress(onProgress);
+      }
+      return actor.addSticker(packId, blob, image.type, BigInt(image.bytes.byteLength), stickerLifetimeToTTL(lifetimeMs));
+    }
+  );
+}
+
+export function useRemoveSticker() {
+  return useStickerMutation('useRemoveSticker', (actor, { packId, stickerId }: { packId: bigint; stickerId: bigint }) =>
+    actor.removeSticker(packId, stickerId)
+  );
+}
+
+export function useSetStickerLifetime() {
+  return useStickerMutation(
+    'useSetStickerLifetime',
+    (actor, { packId, stickerId, lifetimeMs }: { packId: bigint; stickerId: bigint; lifetimeMs: number | null }) =>
+      actor.setStickerLifetime(packId, stickerId, stickerLifetimeToTTL(lifetimeMs))
+  );
+}
+
+export function useShareStickerPack() {
+  return useStickerMutation(
+    'useShareStickerPack',
+    (actor, { roomId, packId }: { roomId: string; packId: bigint }) =>
+      actor.shareStickerPack(normalizeRoomId(roomId), packId),
+    ({ roomId }) => [roomStickerPacksKey(roomId)]
+  );
+}
+
+export function useUnshareStickerPack() {
+  return useStickerMutation(
+    'useUnshareStickerPack',
+    (actor, { roomId, sharedPackId }: { roomId: string; sharedPackId: bigint }) =>
+      actor.unshareStickerPack(normalizeRoomId(roomId), sharedPackId),
+    ({ roomId }) => [roomStickerPacksKey(roomId)]
+  );
+}
+
+export function useImportStickerPack() {
+  return useStickerMutation(
+    'useImportStickerPack',
+    (actor, { roomId, sharedPackId }: { roomId: string; sharedPackId: bigint }) =>
+      actor.importStickerPack(normalizeRoomId(roomId), sharedPackId)
+  );
+}
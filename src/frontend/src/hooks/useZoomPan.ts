@@ -0,0 +1,184 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export interface ZoomTransform {
+  scale: number;
+  // Offset of the image centre from the container centre, in pixels
+  x: number;
+  y: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 5;
+// Zoom applied by a double click on an image that is not zoomed
+const DOUBLE_CLICK_SCALE = 2.5;
+export const ZOOM_STEP = 1.5;
+const WHEEL_ZOOM_SPEED = 0.002;
+
+const IDENTITY: ZoomTransform = { scale: MIN_SCALE, x: 0, y: 0 };
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function midpoint(a: Point, b: Point): Point {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+/**
+ * Zoom and pan of an image inside a container, driven by the wheel, pinch,
+ * dragging and double clicks. Attach `containerRef` and `imageRef` to the
+ * elements and apply `transform` to the image with `getTransformStyle`.
+ */
+export function useZoomPan() {
+  const [transform, setTransform] = useState<ZoomTransform>(IDENTITY);
+  const [container, setContainer] = useState<HTMLDivElement | null>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const transformRef = useRef(transform);
+  const pointers = useRef(new Map<number, Point>());
+  // Spread and centre of the previous pinch step
+  const pinch = useRef<{ distance: number; center: Point } | null>(null);
+
+  useEffect(() => {
+    transformRef.current = transform;
+  }, [transform]);
+
+  // Keep the image covering the container on each axis where it is larger
+  const clamp = useCallback(
+    (next: ZoomTransform): ZoomTransform => {
+      const image = imageRef.current;
+      if (!container || !image || next.scale <= MIN_SCALE) return IDENTITY;
+      const maxX = Math.max(0, (image.offsetWidth * next.scale - container.clientWidth) / 2);
+      const maxY = Math.max(0, (image.offsetHeight * next.scale - container.clientHeight) / 2);
+      return {
+        scale: next.scale,
+        x: Math.min(maxX, Math.max(-maxX, next.x)),
+        y: Math.min(maxY, Math.max(-maxY, next.y)),
+      };
+    },
+    [container]
+  );
+
+  // Point relative to the container centre, the origin of the transform
+  const toLocal = useCallback(
+    (clientX: number, clientY: number): Point => {
+      if (!container) return { x: 0, y: 0 };
+      const rect = container.getBoundingClientRect();
+      return { x: clientX - rect.left - rect.width / 2, y: clientY - rect.top - rect.height / 2 };
+    },
+    [container]
+  );
+
+  // Scale by a factor, keeping the given point of the image under the same spot
+  const zoomBy = useCallback(
+    (factor: number, point: Point = { x: 0, y: 0 }) => {
+      setTransform((current) => {
+        const nextScale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, current.scale * factor));
+        const ratio = nextScale / current.scale;
+        return clamp({
+          scale: nextScale,
+          x: point.x - (point.x - current.x) * ratio,
+          y: point.y - (point.y - current.y) * ratio,
+        });
+      });
+    },
+    [clamp]
+  );
+
+  const reset = useCallback(() => setTransform(IDENTITY), []);
+
+  // Added by hand because React registers wheel listeners as passive, which cannot stop the page from scrolling
+  useEffect(() => {
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      zoomBy(Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED), toLocal(e.clientX, e.clientY));
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [container, zoomBy, toLocal]);
+
+  const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    pinch.current = null;
+    // Dragging an image that is not zoomed is left to the carousel, which swipes to the next one
+    if (pointers.current.size > 1 || transformRef.current.scale > MIN_SCALE) {
+      e.currentTarget.setPointerCapture(e.pointerId);
+    }
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const previous = pointers.current.get(e.pointerId);
+    if (!previous) return;
+    const point = { x: e.clientX, y: e.clientY };
+    pointers.current.set(e.pointerId, point);
+
+    if (pointers.current.size >= 2) {
+      const [first, second] = Array.from(pointers.current.values());
+      const current = { distance: distance(first, second), center: midpoint(first, second) };
+      const last = pinch.current;
+      pinch.current = current;
+      if (!last || last.distance === 0) return;
+
+      const center = toLocal(current.center.x, current.center.y);
+      setTransform((t) => {
+        const nextScale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, (t.scale * current.distance) / last.distance));
+        const ratio = nextScale / t.scale;
+        // Zoom around the fingers and follow them as they move together
+        return clamp({
+          scale: nextScale,
+          x: center.x - (center.x - t.x) * ratio + (current.center.x - last.center.x),
+          y: center.y - (center.y - t.y) * ratio + (current.center.y - last.center.y),
+        });
+      });
+      return;
+    }
+
+    if (transformRef.current.scale > MIN_SCALE) {
+      setTransform((t) => clamp({ ...t, x: t.x + point.x - previous.x, y: t.y + point.y - previous.y }));
+    }
+  };
+
+  const onPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointers.current.delete(e.pointerId);
+    pinch.current = null;
+  };
+
+  const onDoubleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const point = toLocal(e.clientX, e.clientY);
+    if (transformRef.current.scale > MIN_SCALE) {
+      reset();
+    } else {
+      zoomBy(DOUBLE_CLICK_SCALE, point);
+    }
+  };
+
+  // Read by the carousel when a drag starts, so it has to be current without a re-render
+  const isZoomed = useCallback(() => transformRef.current.scale > MIN_SCALE, []);
+
+  return {
+    transform,
+    containerRef: setContainer,
+    imageRef,
+    zoomBy,
+    reset,
+    isZoomed,
+    canZoomIn: transform.scale < MAX_SCALE,
+    canZoomOut: transform.scale > MIN_SCALE,
+    handlers: {
+      onPointerDown,
+      onPointerMove,
+      onPointerUp,
+      onPointerCancel: onPointerUp,
+      onDoubleClick,
+    },
+  };
+}
+
+export function getTransformStyle({ scale, x, y }: ZoomTransform): React.CSSProperties {
+  return { transform: `translate(${x}px, ${y}px) scale(${scale})` };
+}
@@ -1,5 +1,6 @@
 import { HttpAgent, isV3ResponseBody } from '@icp-sdk/core/agent';
 import { IDL } from '@icp-sdk/core/candid';
+import { createLocalDatabase } from './indexedDb';
 
 type Headers = Record<string, string>;
 
@@ -16,18 +17,37 @@ const DOMAIN_SEPARATOR_FOR_CHUNKS = new TextEncoder().encode('icfs-chunk/');
 const DOMAIN_SEPARATOR_FOR_METADATA = new TextEncoder().encode('icfs-metadata/');
 const DOMAIN_SEPARATOR_FOR_NODES = new TextEncoder().encode('ynode/');
 
+// Partial uploads older than this start over, since the gateway may have discarded their chunks
+const RESUMABLE_UPLOAD_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Wait for `ms`, rejecting with the abort reason as soon as `signal` is aborted
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
 // Utility function for exponential backoff retry logic - retries on network/server errors only
-async function withRetry<T>(operation: () => Promise<T>): Promise<T> {
+async function withRetry<T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
     let lastError: Error | undefined;
 
     for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+        signal?.throwIfAborted();
         try {
             return await operation();
         } catch (error) {
             lastError = error instanceof Error ? error : new Error(String(error));
 
-            // Check if this error should be retried
-            const shouldRetry = isRetriableError(error);
+            // Check if this error should be retried; aborted requests never are
+            const shouldRetry = !signal?.aborted && isRetriableError(error);
 
             // On the final attempt or non-retriable error, throw the error
             if (attempt === MAX_RETRIES || !shouldRetry) {
@@ -38,13 +58,13 @@ async function withRetry<T>(operation: () => Promise<T>): Promise<T> {
             }
 
             // Calculate delay with exponential backoff and jitter
-            const delay = Math.min(BASE_DELAY_MS * Math.pow(2, attempt) + Math.random() * 1000, MAX_DELAY_MS);
+            const delayMs = Math.min(BASE_DELAY_MS * Math.pow(2, attempt) + Math.random() * 1000, MAX_DELAY_MS);
 
             console.warn(
-                `Request failed (attempt ${attempt + 1}/${MAX_RETRIES + 1}): ${lastError.message}. Retrying in ${Math.round(delay)}ms...`
+                `Request failed (attempt ${attempt + 1}/${MAX_RETRIES + 1}): ${lastError.message}. Retrying in ${Math.round(delayMs)}ms...`
             );
 
-            await new Promise((resolve) => setTimeout(resolve, delay));
+            await delay(delayMs, signal);
         }
     }
 
@@ -178,6 +198,11 @@ class YHash {
         return new YHash(bytes);
     }
 
+    public static fromShaString(hash: string): YHash {
+        validateHashFormat(hash, 'YHash.fromShaString');
+        return YHash.fromHex(hash.substring(SHA256_PREFIX.length));
+    }
+
     public toShaString(): string {
         return `${SHA256_PREFIX}${this.toHex()}`;
     }
@@ -213,6 +238,14 @@ function nodeToJSON(node: TreeNode): TreeNodeJSON {
     };
 }
 
+function nodeFromJSON(json: TreeNodeJSON): TreeNode {
+    return {
+        hash: YHash.fromShaString(json.hash),
+        left: json.left ? nodeFromJSON(json.left) : null,
+        right: json.right ? nodeFromJSON(json.right) : null
+    };
+}
+
 type BlobHashTreeJSON = {
     tree_type: 'DSBMTWH';
     chunk_hashes: string[];
@@ -303,6 +336,101 @@ class BlobHashTree {
             headers: this.headers
         };
     }
+
+    public static fromJSON(json: BlobHashTreeJSON): BlobHashTree {
+        return new BlobHashTree(json.chunk_hashes.map(YHash.fromShaString), nodeFromJSON(json.tree), json.headers);
+    }
+}
+
+// Progress of an upload that can continue after an interruption, e.g. a page reload
+type ResumableUpload = {
+    resumeKey: string;
+    numBlobBytes: number;
+    blobHashTree: BlobHashTreeJSON;
+    treeUploaded: boolean;
+    completedChunks: number[];
+    updatedAt: number;
+};
+
+// Blob already stored by the gateway, keyed by its root hash so identical bytes can reuse it
+type UploadedBlob = {
+    hash: string;
+    numBlobBytes: number;
+    uploadedAt: number;
+};
+
+const RESUMABLE_UPLOADS_STORE = 'uploads';
+const UPLOADED_BLOBS_STORE = 'blobs';
+
+const resumableUploadsDb = createLocalDatabase('storage-uploads', 2, (db) => {
+    if (!db.objectStoreNames.contains(RESUMABLE_UPLOADS_STORE)) {
+        db.createObjectStore(RESUMABLE_UPLOADS_STORE, { keyPath: 'resumeKey' });
+    }
+    if (!db.objectStoreNames.contains(UPLOADED_BLOBS_STORE)) {
+        db.createObjectStore(UPLOADED_BLOBS_STORE, { keyPath: 'hash' });
+    }
+});
+
+// Persisting progress is best effort: without IndexedDB an upload simply cannot resume
+async function loadResumableUpload(resumeKey: string): Promise<ResumableUpload | undefined> {
+    try {
+        return await resumableUploadsDb.request(
+            RESUMABLE_UPLOADS_STORE,
+            'readonly',
+            (store) => store.get(resumeKey) as IDBRequest<ResumableUpload | undefined>
+        );
+    } catch (error) {
+        console.warn('Failed to load resumable upload:', error);
+        return undefined;
+    }
+}
+
+async function saveResumableUpload(upload: ResumableUpload): Promise<void> {
+    try {
+        await resumableUploadsDb.request(RESUMABLE_UPLOADS_STORE, 'readwrite', (store) =>
+            store.put({ ...upload, updatedAt: Date.now() })
+        );
+    } catch (error) {
+        console.warn('Failed to save resumable upload:', error);
+    }
+}
+
+async function deleteResumableUpload(resumeKey: string): Promise<void> {
+    try {
+        await resumableUploadsDb.request(RESUMABLE_UPLOADS_STORE, 'readwrite', (store) => store.delete(resumeKey));
+    } catch (error) {
+        console.warn('Failed to delete resumable upload:', error);
+    }
+}
+
+// Like resumable uploads, the cache is best effort: without it every blob is uploaded
+async function loadUploadedBlob(hash: string): Promise<UploadedBlob | undefined> {
+    try {
+        return await resumableUploadsDb.request(
+            UPLOADED_BLOBS_STORE,
+            'readonly',
+            (store) => store.get(hash) as IDBRequest<UploadedBlob | undefined>
+        );
+    } catch (error) {
+        console.warn('Failed to load uploaded blob:', error);
+        return undefined;
+    }
+}
+
+async function saveUploadedBlob(blob: UploadedBlob): Promise<void> {
+    try {
+        await resumableUploadsDb.request(UPLOADED_BLOBS_STORE, 'readwrite', (store) => store.put(blob));
+    } catch (error) {
+        console.warn('Failed to save uploaded blob:', error);
+    }
+}
+
+async function deleteUploadedBlob(hash: string): Promise<void> {
+    try {
+        await resumableUploadsDb.request(UPLOADED_BLOBS_STORE, 'readwrite', (store) => store.delete(hash));
+    } catch (error) {
+        console.warn('Failed to delete uploaded blob:', error);
+    }
 }
 
 interface UploadChunkParams {
@@ -314,6 +442,16 @@ interface UploadChunkParams {
     owner: string;
     projectId: string;
     httpHeaders: Headers;
+    signal?: AbortSignal;
+}
+
+export interface PutFileOptions {
+    // Aborts the upload, including pending retries
+    signal?: AbortSignal;
+    // Stable key of the blob's content; progress is persisted under it so an interrupted upload can resume
+    resumeKey?: string;
+    // Whether a blob uploaded earlier is still kept by the backend; without it identical bytes are uploaded again
+    isBlobLive?: (hash: string) => Promise<boolean>;
 }
 
 class StorageGatewayClient {
@@ -348,7 +486,8 @@ class StorageGatewayClient {
                     'Content-Type': 'application/octet-stream',
                     'X-Caffeine-Project-ID': params.projectId
                 },
-                body: params.chunkData as BodyInit
+                body: params.chunkData as BodyInit,
+                signal: params.signal
             });
 
             if (!response.ok) {
@@ -367,7 +506,7 @@ class StorageGatewayClient {
             return {
                 isComplete: result.status === 'blob_complete'
             };
-        });
+        }, params.signal);
     }
 
     public async uploadBlobTree(
@@ -376,7 +515,8 @@ class StorageGatewayClient {
         numBlobBytes: number,
         owner: string,
         projectId: string,
-        certificateBytes: Uint8Array
+        certificateBytes: Uint8Array,
+        signal?: AbortSignal
     ): Promise<void> {
         // Validate all hashes in the tree before sending to server (validation errors should not be retried)
         const treeJSON = blobHashTree.toJSON();
@@ -405,7 +545,8 @@ class StorageGatewayClient {
                     'Content-Type': 'application/json',
                     'X-Caffeine-Project-ID': projectId
                 },
-                body: JSON.stringify(requestBody)
+                body: JSON.stringify(requestBody),
+                signal
             });
 
             if (!response.ok) {
@@ -417,7 +558,7 @@ class StorageGatewayClient {
                 (error as any).response = { status: response.status };
                 throw error;
             }
-        });
+        }, signal);
     }
 }
 
@@ -448,37 +589,167 @@ export class StorageClient {
         throw new Error('Expected v3 response body');
     }
 
-    public async putFile(blobBytes: Uint8Array, onProgress?: (percentage: number) => void): Promise<{ hash: string }> {
+    public async putFile(
+        blobBytes: Uint8Array,
+        onProgress?: (percentage: number) => void,
+        options: PutFileOptions = {}
+    ): Promise<{ hash: string }> {
+        const { signal, resumeKey, isBlobLive } = options;
         // HTTP headers for fetch requests (used for the PUT request to gateway)
         const httpHeaders: Headers = {
             'Content-Type': 'application/json'
         };
         // Create a Blob from the bytes
         const file = new Blob([new Uint8Array(blobBytes)], { type: 'application/octet-stream' });
-        // File metadata headers that will be stored with the blob tree
-        const fileHeaders: Headers = {
-            'Content-Type': 'application/octet-stream',
-            'Content-Length': file.size.toString()
-        };
+        const fileHeaders = StorageClient.fileHeaders(file);
 
-        const { chunks, chunkHashes, blobHashTree } = await this.processFileForUpload(file, fileHeaders);
+        const resumed = resumeKey ? await this.restoreUpload(resumeKey, file) : null;
+        const { chunks, chunkHashes, blobHashTree } = resumed ?? (await StorageClient.processFileForUpload(file, fileHeaders));
         const blobRootHash = blobHashTree.tree.hash;
         const hashString = blobRootHash.toShaString();
 
-        const certificateBytes = await this.getCertificate(hashString);
+        if (isBlobLive && (await this.isUploaded(hashString, file.size, isBlobLive))) {
+            if (resumeKey) {
+                await deleteResumableUpload(resumeKey);
+            }
+            onProgress?.(100);
+            return { hash: hashString };
+        }
+
+        const upload: ResumableUpload | null = resumeKey
+            ? (resumed?.upload ?? {
+                  resumeKey,
+                  numBlobBytes: file.size,
+                  blobHashTree: blobHashTree.toJSON(),
+                  treeUploaded: false,
+                  completedChunks: [],
+                  updatedAt: Date.now()
+              })
+            : null;
 
-        await this.storageGatewayClient.uploadBlobTree(
-            blobHashTree,
-            this.bucket,
-            file.size,
-            this.backendCanisterId,
-            this.projectId,
-            certificateBytes
-        );
-        await this.parallelUpload(chunks, chunkHashes, blobRootHash, httpHeaders, onProgress);
+        try {
+            signal?.throwIfAborted();
+            if (!upload?.treeUploaded) {
+                const certificateBytes = await this.getCertificate(hashString);
+
+                await this.storageGatewayClient.uploadBlobTree(
+                    blobHashTree,
+                    this.bucket,
+                    file.size,
+                    this.backendCanisterId,
+                    this.projectId,
+                    certificateBytes,
+                    signal
+                );
+                if (upload) {
+                    upload.treeUploaded = true;
+                    await saveResumableUpload(upload);
+                }
+            }
+
+            // Saves are chained so they land in order and before the record is deleted
+            const completedChunks = new Set(upload?.completedChunks);
+            let pendingSave = Promise.resolve();
+            try {
+                await this.parallelUpload(chunks, chunkHashes, blobRootHash, httpHeaders, onProgress, {
+                    signal,
+                    completedChunks,
+                    onChunkComplete: upload
+                        ? () => {
+                              const snapshot = { ...upload, completedChunks: Array.from(completedChunks) };
+                              pendingSave = pendingSave.then(() => saveResumableUpload(snapshot));
+                          }
+                        : undefined
+                });
+            } finally {
+                await pendingSave;
+            }
+        } catch (error) {
+            // A cancelled upload will not be resumed; anything else keeps its progress
+            if (resumeKey && signal?.aborted) {
+                await deleteResumableUpload(resumeKey);
+            }
+            throw error;
+        }
+
+        if (resumeKey) {
+            await deleteResumableUpload(resumeKey);
+        }
+        await saveUploadedBlob({ hash: hashString, numBlobBytes: file.size, uploadedAt: Date.now() });
         return { hash: hashString };
     }
 
+    /**
+     * Whether this client uploaded the same bytes before and the backend still
+     * references them. Blobs die once no message uses them, e.g. after
+     * retention expired, so the cache alone is not enough.
+     */
+    private async isUploaded(
+        hash: string,
+        numBlobBytes: number,
+        isBlobLive: (hash: string) => Promise<boolean>
+    ): Promise<boolean> {
+        const uploaded = await loadUploadedBlob(hash);
+        if (!uploaded || uploaded.numBlobBytes !== numBlobBytes) return false;
+
+        try {
+            if (await isBlobLive(hash)) return true;
+        } catch (error) {
+            // Uploading again is always safe, so a failed check is not fatal
+            console.warn('Failed to check whether blob is live:', error);
+            return false;
+        }
+        await deleteUploadedBlob(hash);
+        return false;
+    }
+
+    // Pick up the persisted progress of an interrupted upload of the same bytes
+    private async restoreUpload(
+        resumeKey: string,
+        file: Blob
+    ): Promise<{ chunks: Blob[]; chunkHashes: YHash[]; blobHashTree: BlobHashTree; upload: ResumableUpload } | null> {
+        const upload = await loadResumableUpload(resumeKey);
+        if (!upload) return null;
+
+        const chunks = StorageClient.createFileChunks(file);
+        const isStale = Date.now() - upload.updatedAt > RESUMABLE_UPLOAD_MAX_AGE_MS;
+        if (isStale || upload.numBlobBytes !== file.size || upload.blobHashTree.chunk_hashes.length !== chunks.length) {
+            await deleteResumableUpload(resumeKey);
+            return null;
+        }
+
+        const blobHashTree = BlobHashTree.fromJSON(upload.blobHashTree);
+        // Cheap check that the key still refers to the same content
+        if (chunks.length > 0) {
+            const firstChunkHash = await YHash.fromChunk(new Uint8Array(await chunks[0].arrayBuffer()));
+            if (firstChunkHash.toShaString() !== upload.blobHashTree.chunk_hashes[0]) {
+                await deleteResumableUpload(resumeKey);
+                return null;
+            }
+        }
+        return { chunks, chunkHashes: blobHashTree.chunk_hashes, blobHashTree, upload };
+    }
+
+    /**
+     * Root hash the gateway stores the bytes under, computed like putFile does
+     * before uploading, so callers can refer to a blob before it is uploaded.
+     */
+    public static async computeBlobHash(blobBytes: Uint8Array): Promise<string> {
+        const file = new Blob([new Uint8Array(blobBytes)], { type: 'application/octet-stream' });
+        const { blobHashTree } = await StorageClient.processFileForUpload(file, StorageClient.fileHeaders(file));
+        return blobHashTree.tree.hash.toShaString();
+    }
+
+    // The hash in a URL made by getDirectURL, or null for any other URL
+    public static parseDirectURL(url: string): string | null {
+        try {
+            const hash = new URL(url).searchParams.get('blob_hash');
+            return hash && hash.startsWith(SHA256_PREFIX) ? hash : null;
+        } catch {
+            return null;
+        }
+    }
+
     public async getDirectURL(hash: string): Promise<string> {
         if (!hash) {
             throw new Error('Hash must not be empty');
@@ -487,7 +758,15 @@ export class StorageClient {
         return `${this.storageGatewayClient.getStorageGatewayUrl()}/${GATEWAY_VERSION}/blob/?blob_hash=${encodeURIComponent(hash)}&owner_id=${encodeURIComponent(this.backendCanisterId)}&project_id=${encodeURIComponent(this.projectId)}`;
     }
 
-    private async processFileForUpload(
+    // File metadata headers that will be stored with the blob tree
+    private static fileHeaders(file: Blob): Headers {
+        return {
+            'Content-Type': 'application/octet-stream',
+            'Content-Length': file.size.toString()
+        };
+    }
+
+    private static async processFileForUpload(
         file: Blob,
         headers: Headers
     ): Promise<{
@@ -495,7 +774,7 @@ export class StorageClient {
         chunkHashes: YHash[];
         blobHashTree: BlobHashTree;
     }> {
-        const chunks = this.createFileChunks(file);
+        const chunks = StorageClient.createFileChunks(file);
         const chunkHashes: YHash[] = [];
         for (let i = 0; i < chunks.length; i++) {
             const chunkData = new Uint8Array(await chunks[i].arrayBuffer());
@@ -511,10 +790,24 @@ export class StorageClient {
         chunkHashes: YHash[],
         blobRootHash: YHash,
         httpHeaders: Headers,
-        onProgress: ((percentage: number) => void) | undefined
+        onProgress: ((percentage: number) => void) | undefined,
+        {
+            signal,
+            completedChunks: completedIndices = new Set<number>(),
+            onChunkComplete
+        }: {
+            signal?: AbortSignal;
+            // Chunks already stored by an earlier attempt; indices are added as chunks finish
+            completedChunks?: Set<number>;
+            onChunkComplete?: (index: number) => void;
+        } = {}
     ): Promise<void> {
-        let completedChunks = 0;
+        let completedChunks = completedIndices.size;
+        if (completedChunks > 0 && onProgress != null) {
+            onProgress(Math.round((completedChunks / chunks.length) * 100));
+        }
         const uploadSingleChunk = async (index: number): Promise<void> => {
+            signal?.throwIfAborted();
             const chunkData = new Uint8Array(await chunks[index].arrayBuffer());
             const chunkHash = chunkHashes[index];
             await this.storageGatewayClient.uploadChunk({
@@ -525,8 +818,11 @@ export class StorageClient {
                 bucketName: this.bucket,
                 owner: this.backendCanisterId,
                 projectId: this.projectId,
-                httpHeaders
+                httpHeaders,
+                signal
             });
+            completedIndices.add(index);
+            onChunkComplete?.(index);
             // Use atomic increment to avoid race conditions
             const currentCompleted = ++completedChunks;
             if (onProgress != null) {
@@ -537,13 +833,15 @@ export class StorageClient {
         await Promise.all(
             Array.from({ length: MAXIMUM_CONCURRENT_UPLOADS }, async (_, workerId) => {
                 for (let i = workerId; i < chunks.length; i += MAXIMUM_CONCURRENT_UPLOADS) {
-                    await uploadSingleChunk(i);
+                    if (!completedIndices.has(i)) {
+                        await uploadSingleChunk(i);
+                    }
                 }
             })
         );
     }
 
-    private createFileChunks(file: Blob, chunkSize = 1024 * 1024): Blob[] {
+    private static createFileChunks(file: Blob, chunkSize = 1024 * 1024): Blob[] {
         const chunks: Blob[] = [];
         const totalChunks = Math.ceil(file.size / chunkSize);
         for (let index = 0; index < totalChunks; index++) {
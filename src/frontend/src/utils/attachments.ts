@@ -0,0 +1,127 @@
+import { AttachmentKind, ExternalBlob, type Attachment } from '../backend';
+import { sanitizeFileName, sniffMimeType, SNIFF_LENGTH } from './fileTypes';
+
+/**
+ * Attachments of a message and the metadata recorded with them.
+ *
+ * Mime type, size, dimensions and duration are read on the sender's device before
+ * upload, since blobs of encrypted rooms are opaque to the backend; there the file
+ * name and mime type are also sealed with the message's media key. Everything but
+ * the kind is best-effort: media migrated from single-attachment messages has an
+ * empty mime type and a zero size, and recordings often have no known duration.
+ */
+
+// Matches the backend's limit per message
+export const MAX_ATTACHMENTS = 10;
+
+const MB = 1024 * 1024;
+
+// Largest file attachment a room accepts, chosen when it is created
+export const FILE_SIZE_LIMIT_OPTIONS = [
+  { label: '5 MB', bytes: 5 * MB },
+  { label: '10 MB', bytes: 10 * MB },
+  { label: '25 MB', bytes: 25 * MB },
+  { label: '50 MB', bytes: 50 * MB },
+  { label: '100 MB', bytes: 100 * MB },
+] as const;
+
+// Also what the backend assumes for rooms created before the limit was configurable
+export const DEFAULT_FILE_SIZE_LIMIT = 25 * MB;
+
+type MediaMetadata = Pick<Attachment, 'width' | 'height' | 'durationMs'>;
+
+const ATTACHMENT_LABELS: Record<AttachmentKind, { icon: string; label: string }> = {
+  [AttachmentKind.image]: { icon: '📷', label: 'Image' },
+  [AttachmentKind.video]: { icon: '🎬', label: 'Video' },
+  [AttachmentKind.audio]: { icon: '🎵', label: 'Audio' },
+  [AttachmentKind.file]: { icon: '📎', label: 'File' },
+};
+
+// A placeholder part like "📷 Image" or "📷 3 Images"; older clients wrote "🎵 Audio message"
+const PLACEHOLDER_PART = '(?:📷|🎬|🎵|📎) (?:\\d+ )?(?:Image|Video|Audio|File)s?(?: message)?';
+const PLACEHOLDER_PATTERN = new RegExp(`^${PLACEHOLDER_PART}(?: · ${PLACEHOLDER_PART})*$`, 'u');
+
+export function getAttachmentKind(mimeType: string): AttachmentKind | null {
+  if (mimeType.startsWith('image/')) return AttachmentKind.image;
+  if (mimeType.startsWith('video/')) return AttachmentKind.video;
+  if (mimeType.startsWith('audio/')) return AttachmentKind.audio;
+  return null;
+}
+
+async function readImageMetadata(url: string): Promise<MediaMetadata> {
+  const image = new Image();
+  image.src = url;
+  try {
+    await image.decode();
+    return { width: BigInt(image.naturalWidth), height: BigInt(image.naturalHeight) };
+  } catch {
+    return {};
+  }
+}
+
+function readPlaybackMetadata(url: string, kind: AttachmentKind): Promise<MediaMetadata> {
+  return new Promise((resolve) => {
+    const element = document.createElement(kind === AttachmentKind.video ? 'video' : 'audio');
+    element.preload = 'metadata';
+    element.onloadedmetadata = () => {
+      const metadata: MediaMetadata = {};
+      // MediaRecorder output reports an infinite duration until it has been played through
+      if (Number.isFinite(element.duration)) {
+        metadata.durationMs = BigInt(Math.round(element.duration * 1000));
+      }
+      if (element instanceof HTMLVideoElement && element.videoWidth > 0) {
+        metadata.width = BigInt(element.videoWidth);
+        metadata.height = BigInt(element.videoHeight);
+      }
+      resolve(metadata);
+    };
+    element.onerror = () => resolve({});
+    element.src = url;
+  });
+}
+
+/**
+ * Describe local media as an attachment, reading its size, dimensions and
+ * duration. Must be called with the plaintext blob, before it is encrypted.
+ */
+export async function createAttachment(kind: AttachmentKind, blob: ExternalBlob, mimeType: string): Promise<Attachment> {
+  const bytes = await blob.getBytes();
+  const url = blob.getDirectURL();
+  const metadata = kind === AttachmentKind.image ? await readImageMetadata(url) : await readPlaybackMetadata(url, kind);
+  return { kind, blob, mimeType, size: BigInt(bytes.byteLength), ...metadata };
+}
+
+/**
+ * Describe any file as a download-only attachment of `bytes`, already scrubbed if
+ * they are media. The type is sniffed from the content rather than taken from
+ * the browser, which only looks at the extension.
+ */
+export function createFileAttachment(name: string, bytes: Uint8Array<ArrayBuffer>): Attachment {
+  const fileName = sanitizeFileName(name);
+  return {
+    kind: AttachmentKind.file,
+    blob: ExternalBlob.fromBytes(bytes),
+    mimeType: sniffMimeType(bytes.subarray(0, SNIFF_LENGTH), fileName),
+    size: BigInt(bytes.byteLength),
+    fileName,
+  };
+}
+
+/**
+ * Stored as the content of messages sent without text, e.g. "📷 3 Images · 🎵 Audio",
+ * so previews that only show content still say what was sent.
+ */
+export function describeAttachments(attachments: Attachment[]): string {
+  return Object.values(AttachmentKind)
+    .map((kind) => ({ kind, count: attachments.filter((attachment) => attachment.kind === kind).length }))
+    .filter(({ count }) => count > 0)
+    .map(({ kind, count }) => {
+      const { icon, label } = ATTACHMENT_LABELS[kind];
+      return count === 1 ? `${icon} ${label}` : `${icon} ${count} ${label}s`;
+    })
+    .join(' · ');
+}
+
+export function isAttachmentPlaceholder(content: string): boolean {
+  return PLACEHOLDER_PATTERN.test(content);
+}
@@ -0,0 +1,23 @@
+import { Ed25519KeyIdentity } from '@icp-sdk/core/identity';
+
+const DEVICE_IDENTITY_STORAGE_KEY = 'chatDeviceIdentity';
+
+/**
+ * Key identity generated once per browser and kept in localStorage.
+ * Used to sign calls when the user is not logged in with Internet Identity,
+ * so the backend can tie message ownership to a stable caller principal.
+ */
+export function getDeviceIdentity(): Ed25519KeyIdentity {
+  const stored = localStorage.getItem(DEVICE_IDENTITY_STORAGE_KEY);
+  if (stored) {
+    try {
+      return Ed25519KeyIdentity.fromJSON(stored);
+    } catch (error) {
+      console.warn('[deviceIdentity] Stored identity is invalid, generating a new one:', error);
+    }
+  }
+
+  const identity = Ed25519KeyIdentity.generate();
+  localStorage.setItem(DEVICE_IDENTITY_STORAGE_KEY, JSON.stringify(identity.toJSON()));
+  return identity;
+}
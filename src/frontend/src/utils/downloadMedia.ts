@@ -2,29 +2,34 @@
  * Media download utilities with format conversion.
  * - Images (uploaded and embedded URLs) are converted to PNG
  * - Videos can be downloaded as MP4 or extracted as MP3 audio
+ * - Other files are downloaded as they are, under their original name
+ * - Encrypted media is decrypted while streaming when a media key is given
  */
 
-import { ExternalBlob } from '../backend';
+import { AttachmentKind, ExternalBlob, type Attachment } from '../backend';
+import { decryptMediaToBlob } from './mediaCrypto';
 
 /**
- * Downloads an image and converts it to PNG format.
+ * Loads an image and re-encodes it as PNG.
  * Works with both direct URLs and ExternalBlob instances.
+ * Pass the message's media key to decrypt an encrypted ExternalBlob first.
  */
-export async function downloadImageAsPNG(
-  source: string | ExternalBlob,
-  filename: string = 'image.png'
-): Promise<void> {
-  try {
-    let imageUrl: string;
-    let shouldRevoke = false;
-
-    // Handle ExternalBlob
-    if (typeof source !== 'string') {
-      imageUrl = source.getDirectURL();
-    } else {
-      imageUrl = source;
-    }
+async function convertImageToPNG(source: string | ExternalBlob, mediaKey?: CryptoKey): Promise<Blob> {
+  let imageUrl: string;
+  let shouldRevoke = false;
+
+  // Handle ExternalBlob
+  if (typeof source !== 'string' && mediaKey) {
+    const decrypted = await decryptMediaToBlob(source.getDirectURL(), mediaKey);
+    imageUrl = URL.createObjectURL(decrypted);
+    shouldRevoke = true;
+  } else if (typeof source !== 'string') {
+    imageUrl = source.getDirectURL();
+  } else {
+    imageUrl = source;
+  }
 
+  try {
     // Load image into canvas to convert to PNG
     const img = new Image();
     img.crossOrigin = 'anonymous'; // Try to enable CORS
@@ -40,15 +45,14 @@ export async function downloadImageAsPNG(
     canvas.width = img.naturalWidth;
     canvas.height = img.naturalHeight;
     const ctx = canvas.getContext('2d');
-    
+
     if (!ctx) {
       throw new Error('Failed to get canvas context');
     }
 
     ctx.drawImage(img, 0, 0);
 
-    // Convert to PNG blob
-    const blob = await new Promise<Blob>((resolve, reject) => {
+    return await new Promise<Blob>((resolve, reject) => {
       canvas.toBlob(
         (blob) => {
           if (blob) {
@@ -61,6 +65,25 @@ export async function downloadImageAsPNG(
         1.0
       );
     });
+  } finally {
+    if (shouldRevoke) {
+      URL.revokeObjectURL(imageUrl);
+    }
+  }
+}
+
+/**
+ * Downloads an image and converts it to PNG format.
+ * Works with both direct URLs and ExternalBlob instances.
+ * Pass the message's media key to decrypt an encrypted ExternalBlob first.
+ */
+export async function downloadImageAsPNG(
+  source: string | ExternalBlob,
+  filename: string = 'image.png',
+  mediaKey?: CryptoKey
+): Promise<void> {
+  try {
+    const blob = await convertImageToPNG(source, mediaKey);
 
     // Trigger download
     const url = URL.createObjectURL(blob);
@@ -92,25 +115,50 @@ export async function downloadImageAsPNG(
   }
 }
 
+/**
+ * Copies an image to the clipboard as PNG, the one image type every browser accepts there.
+ * Images linked from other sites can only be copied when they allow CORS.
+ */
+export async function copyImageToClipboard(source: string | ExternalBlob, mediaKey?: CryptoKey): Promise<void> {
+  if (!navigator.clipboard?.write || typeof ClipboardItem === 'undefined') {
+    throw new Error('Copying images is not supported in this browser');
+  }
+
+  // Safari only allows the write while handling the click, so the blob is handed over as a promise
+  await navigator.clipboard.write([new ClipboardItem({ 'image/png': convertImageToPNG(source, mediaKey) })]);
+}
+
 /**
  * Downloads a video as MP4 file.
  * Uses the ExternalBlob's direct URL or bytes to download the original video.
+ * With a media key the video is decrypted chunk by chunk while it downloads, so the
+ * ciphertext is never held in memory next to the plaintext.
  */
 export async function downloadVideoAsMP4(
   source: ExternalBlob,
   filename: string = 'video.mp4',
-  onProgress?: (percentage: number) => void
+  onProgress?: (percentage: number) => void,
+  mediaKey?: CryptoKey
 ): Promise<void> {
   try {
     onProgress?.(20);
     
-    // Get video bytes
-    const videoBytes = await source.getBytes();
-    
-    onProgress?.(60);
-    
-    // Create blob from bytes
-    const videoBlob = new Blob([videoBytes], { type: 'video/mp4' });
+    let videoBlob: Blob;
+    if (mediaKey) {
+      // Map download progress onto the 20-80% range
+      videoBlob = await decryptMediaToBlob(source.getDirectURL(), mediaKey, {
+        type: 'video/mp4',
+        onProgress: (percentage) => onProgress?.(20 + Math.round(percentage * 0.6)),
+      });
+    } else {
+      // Get video bytes
+      const videoBytes = await source.getBytes();
+      
+      onProgress?.(60);
+      
+      // Create blob from bytes
+      videoBlob = new Blob([videoBytes], { type: 'video/mp4' });
+    }
     
     onProgress?.(80);
     
@@ -134,6 +182,63 @@ export async function downloadVideoAsMP4(
   }
 }
 
+/**
+ * Loads an attachment's original bytes as a Blob of the given type.
+ * With a media key the bytes are decrypted while they download.
+ */
+export async function fetchAttachmentBlob(
+  source: ExternalBlob,
+  type: string,
+  mediaKey?: CryptoKey,
+  onProgress?: (percentage: number) => void
+): Promise<Blob> {
+  if (mediaKey) {
+    return decryptMediaToBlob(source.getDirectURL(), mediaKey, { type, onProgress });
+  }
+  const bytes = await source.getBytes();
+  onProgress?.(100);
+  return new Blob([bytes], { type });
+}
+
+/**
+ * Downloads a file attachment. The blob is typed as opaque binary data so the
+ * browser saves it instead of opening it, whatever the sender claimed it is.
+ */
+export async function downloadFile(
+  source: ExternalBlob,
+  filename: string,
+  onProgress?: (percentage: number) => void,
+  mediaKey?: CryptoKey
+): Promise<void> {
+  try {
+    const blob = await fetchAttachmentBlob(source, 'application/octet-stream', mediaKey, onProgress);
+    saveBlobToFile(blob, filename);
+  } catch (error) {
+    console.error('Error downloading file:', error);
+    throw error;
+  }
+}
+
+/**
+ * Downloads any attachment in the format offered for its kind: images as PNG,
+ * videos as MP4, and audio and files as they were sent.
+ */
+export async function downloadAttachment(
+  attachment: Attachment,
+  filename: string,
+  mediaKey?: CryptoKey
+): Promise<void> {
+  switch (attachment.kind) {
+    case AttachmentKind.image:
+      return downloadImageAsPNG(attachment.blob, filename, mediaKey);
+    case AttachmentKind.video:
+      return downloadVideoAsMP4(attachment.blob, filename, undefined, mediaKey);
+    case AttachmentKind.audio:
+    case AttachmentKind.file:
+      return downloadFile(attachment.blob, filename, undefined, mediaKey);
+  }
+}
+
 /**
  * Downloads a video and extracts audio as MP3.
  * Uses Web Audio API for audio extraction and encoding.
@@ -0,0 +1,194 @@
+/**
+ * Unicode emoji with their shortcodes, and the custom emoji rooms register
+ * under their own. Custom emoji are written as :shortcode: in message text and
+ * reactions, and drawn as images wherever the room knows the shortcode.
+ */
+
+import type { CustomEmoji } from '../backend';
+
+export interface UnicodeEmoji {
+  emoji: string;
+  shortcode: string;
+}
+
+export const EMOJI_CATEGORIES: Record<string, UnicodeEmoji[]> = {
+  'Smileys': [
+    { emoji: '😀', shortcode: 'grinning' },
+    { emoji: '😃', shortcode: 'smiley' },
+    { emoji: '😄', shortcode: 'smile' },
+    { emoji: '😁', shortcode: 'grin' },
+    { emoji: '😅', shortcode: 'sweat_smile' },
+    { emoji: '😂', shortcode: 'joy' },
+    { emoji: '🤣', shortcode: 'rofl' },
+    { emoji: '😊', shortcode: 'blush' },
+    { emoji: '😇', shortcode: 'innocent' },
+    { emoji: '🙂', shortcode: 'slightly_smiling_face' },
+    { emoji: '🙃', shortcode: 'upside_down_face' },
+    { emoji: '😉', shortcode: 'wink' },
+    { emoji: '😌', shortcode: 'relieved' },
+    { emoji: '😍', shortcode: 'heart_eyes' },
+    { emoji: '🥰', shortcode: 'smiling_face_with_three_hearts' },
+    { emoji: '😘', shortcode: 'kissing_heart' },
+    { emoji: '😗', shortcode: 'kissing' },
+    { emoji: '😙', shortcode: 'kissing_smiling_eyes' },
+    { emoji: '😚', shortcode: 'kissing_closed_eyes' },
+    { emoji: '😋', shortcode: 'yum' },
+  ],
+  'Gestures': [
+    { emoji: '👍', shortcode: 'thumbsup' },
+    { emoji: '👎', shortcode: 'thumbsdown' },
+    { emoji: '👌', shortcode: 'ok_hand' },
+    { emoji: '✌️', shortcode: 'v' },
+    { emoji: '🤞', shortcode: 'crossed_fingers' },
+    { emoji: '🤟', shortcode: 'love_you_gesture' },
+    { emoji: '🤘', shortcode: 'metal' },
+    { emoji: '🤙', shortcode: 'call_me_hand' },
+    { emoji: '👈', shortcode: 'point_left' },
+    { emoji: '👉', shortcode: 'point_right' },
+    { emoji: '👆', shortcode: 'point_up_2' },
+    { emoji: '👇', shortcode: 'point_down' },
+    { emoji: '☝️', shortcode: 'point_up' },
+    { emoji: '👏', shortcode: 'clap' },
+    { emoji: '🙌', shortcode: 'raised_hands' },
+    { emoji: '👐', shortcode: 'open_hands' },
+    { emoji: '🤲', shortcode: 'palms_up_together' },
+    { emoji: '🤝', shortcode: 'handshake' },
+    { emoji: '🙏', shortcode: 'pray' },
+    { emoji: '✍️', shortcode: 'writing_hand' },
+  ],
+  'Hearts': [
+    { emoji: '❤️', shortcode: 'heart' },
+    { emoji: '🧡', shortcode: 'orange_heart' },
+    { emoji: '💛', shortcode: 'yellow_heart' },
+    { emoji: '💚', shortcode: 'green_heart' },
+    { emoji: '💙', shortcode: 'blue_heart' },
+    { emoji: '💜', shortcode: 'purple_heart' },
+    { emoji: '🖤', shortcode: 'black_heart' },
+    { emoji: '🤍', shortcode: 'white_heart' },
+    { emoji: '🤎', shortcode: 'brown_heart' },
+    { emoji: '💔', shortcode: 'broken_heart' },
+    { emoji: '❣️', shortcode: 'heavy_heart_exclamation' },
+    { emoji: '💕', shortcode: 'two_hearts' },
+    { emoji: '💞', shortcode: 'revolving_hearts' },
+    { emoji: '💓', shortcode: 'heartbeat' },
+    { emoji: '💗', shortcode: 'heartpulse' },
+    { emoji: '💖', shortcode: 'sparkling_heart' },
+    { emoji: '💘', shortcode: 'cupid' },
+    { emoji: '💝', shortcode: 'gift_heart' },
+    { emoji: '💟', shortcode: 'heart_decoration' },
+    { emoji: '♥️', shortcode: 'hearts' },
+  ],
+  'Objects': [
+    { emoji: '🎉', shortcode: 'tada' },
+    { emoji: '🎊', shortcode: 'confetti_ball' },
+    { emoji: '🎈', shortcode: 'balloon' },
+    { emoji: '🎁', shortcode: 'gift' },
+    { emoji: '🏆', shortcode: 'trophy' },
+    { emoji: '🥇', shortcode: '1st_place_medal' },
+    { emoji: '🥈', shortcode: '2nd_place_medal' },
+    { emoji: '🥉', shortcode: '3rd_place_medal' },
+    { emoji: '⚽', shortcode: 'soccer' },
+    { emoji: '🏀', shortcode: 'basketball' },
+    { emoji: '🏈', shortcode: 'football' },
+    { emoji: '⚾', shortcode: 'baseball' },
+    { emoji: '🎾', shortcode: 'tennis' },
+    { emoji: '🏐', shortcode: 'volleyball' },
+    { emoji: '🏉', shortcode: 'rugby_football' },
+    { emoji: '🎱', shortcode: '8ball' },
+    { emoji: '🎮', shortcode: 'video_game' },
+    { emoji: '🎯', shortcode: 'dart' },
+    { emoji: '🎲', shortcode: 'game_die' },
+    { emoji: '🎰', shortcode: 'slot_machine' },
+  ],
+};
+
+const UNICODE_EMOJI = Object.values(EMOJI_CATEGORIES).flat();
+
+// Must match the backend's shortcode rules
+export const SHORTCODE_PATTERN = /^[a-z0-9_]{2,32}$/;
+const CUSTOM_EMOJI_PATTERN = /:([a-z0-9_]{2,32}):/g;
+
+// Largest custom emoji accepted after downscaling
+export const MAX_CUSTOM_EMOJI_SIZE = 256 * 1024;
+
+export const CUSTOM_EMOJI_MIME_TYPES = ['image/png', 'image/gif', 'image/webp', 'image/jpeg'];
+
+export function formatShortcode(shortcode: string): string {
+  return `:${shortcode}:`;
+}
+
+// Suggests a shortcode from an uploaded file's name, e.g. "Party Parrot.gif" becomes party_parrot
+export function suggestShortcode(fileName: string): string {
+  return fileName
+    .replace(/\.[^.]+$/, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 32);
+}
+
+// Image URLs of the room's custom emoji by shortcode
+export function getCustomEmojiUrls(customEmoji: CustomEmoji[]): Map<string, string> {
+  return new Map(customEmoji.map((emoji) => [emoji.shortcode, emoji.blob.getDirectURL()]));
+}
+
+// If the reaction is a custom emoji the room knows, the image URL to draw it with
+export function getCustomEmojiUrl(emoji: string, customEmojiUrls: Map<string, string>): string | null {
+  const match = /^:([a-z0-9_]{2,32}):$/.exec(emoji);
+  return match ? customEmojiUrls.get(match[1]) ?? null : null;
+}
+
+export type EmojiTextPart = string | { shortcode: string; url: string };
+
+// Splits message text around the custom emoji it uses; unknown shortcodes stay as text
+export function splitCustomEmoji(text: string, customEmojiUrls: Map<string, string>): EmojiTextPart[] {
+  if (customEmojiUrls.size === 0) return [text];
+  const parts: EmojiTextPart[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(CUSTOM_EMOJI_PATTERN)) {
+    const url = customEmojiUrls.get(match[1]);
+    if (!url) continue;
+    if (match.index > lastIndex) parts.push(text.slice(lastIndex, match.index));
+    parts.push({ shortcode: match[1], url });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < text.length) parts.push(text.slice(lastIndex));
+  return parts;
+}
+
+export type EmojiSuggestion =
+  | { kind: 'unicode'; shortcode: string; emoji: string }
+  | { kind: 'custom'; shortcode: string; url: string };
+
+// What a chosen suggestion is written as in the message
+export function getSuggestionText(suggestion: EmojiSuggestion): string {
+  return suggestion.kind === 'unicode' ? suggestion.emoji : formatShortcode(suggestion.shortcode);
+}
+
+/**
+ * Finds the shortcode being typed just before the caret, like ":sm". The colon
+ * has to start a word and be followed by two characters, so times like "10:30"
+ * and emoticons like ":P" do not open suggestions.
+ */
+export function findShortcodeQuery(text: string, caret: number): { start: number; query: string } | null {
+  const match = /(^|\s):([a-z0-9_]{2,32})$/i.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { start: match.index + match[1].length, query: match[2].toLowerCase() };
+}
+
+// Exact shortcodes first, then ones starting with the query, then ones containing it; custom emoji lead each group
+export function searchEmoji(query: string, customEmoji: CustomEmoji[], limit = 8): EmojiSuggestion[] {
+  const candidates: EmojiSuggestion[] = [
+    ...customEmoji.map((emoji): EmojiSuggestion => ({
+      kind: 'custom',
+      shortcode: emoji.shortcode,
+      url: emoji.blob.getDirectURL(),
+    })),
+    ...UNICODE_EMOJI.map((emoji): EmojiSuggestion => ({ kind: 'unicode', ...emoji })),
+  ];
+  const rank = (shortcode: string) => (shortcode === query ? 0 : shortcode.startsWith(query) ? 1 : 2);
+  return candidates
+    .filter((candidate) => candidate.shortcode.includes(query))
+    .sort((a, b) => rank(a.shortcode) - rank(b.shortcode))
+    .slice(0, limit);
+}
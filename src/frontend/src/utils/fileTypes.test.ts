@@ -0,0 +1,81 @@
+import { readFileSync } from 'fs';
+import { gzipSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { SNIFF_LENGTH, sanitizeFileName, sniffMimeType } from './fileTypes';
+
+/**
+ * Besides the media fixtures, notes.pdf was written by pdfkit, the icons by sharp,
+ * report.docx and notes.tar by Python's zipfile and tarfile, and tone.wav by its
+ * wave module.
+ */
+function readHeader(name: string): Uint8Array {
+  return new Uint8Array(readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url))).subarray(0, SNIFF_LENGTH);
+}
+
+describe('sniffMimeType', () => {
+  it.each([
+    ['notes.pdf', 'application/pdf'],
+    ['icon.png', 'image/png'],
+    ['photo.jpg', 'image/jpeg'],
+    ['icon.gif', 'image/gif'],
+    ['icon.webp', 'image/webp'],
+    ['photo.avif', 'image/avif'],
+    ['video.mp4', 'video/mp4'],
+    ['voice.ogg', 'audio/ogg'],
+    ['tone.wav', 'audio/wav'],
+    ['notes.tar', 'application/x-tar'],
+  ])('recognises %s from its content', (name, mimeType) => {
+    expect(sniffMimeType(readHeader(name), 'upload.bin')).toBe(mimeType);
+  });
+
+  it('ignores an extension that contradicts the content', () => {
+    expect(sniffMimeType(readHeader('notes.pdf'), 'notes.txt')).toBe('application/pdf');
+    expect(sniffMimeType(readHeader('icon.png'), 'icon.html')).toBe('image/png');
+  });
+
+  it('tells ZIP-based documents apart by their extension', () => {
+    const header = readHeader('report.docx');
+
+    expect(sniffMimeType(header, 'report.docx')).toBe(
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    );
+    expect(sniffMimeType(header, 'report.zip')).toBe('application/zip');
+    expect(sniffMimeType(header, 'report.pdf')).toBe('application/zip');
+  });
+
+  it('recognises compressed data', () => {
+    expect(sniffMimeType(gzipSync('Meeting notes\n'), 'notes.gz')).toBe('application/gzip');
+  });
+
+  it('treats UTF-8 text as text, even when the sample ends inside a character', () => {
+    const text = new TextEncoder().encode('# Notes\n' + 'é'.repeat(SNIFF_LENGTH));
+
+    expect(sniffMimeType(text.subarray(0, SNIFF_LENGTH - 1), 'notes.md')).toBe('text/markdown');
+    expect(sniffMimeType(text.subarray(0, SNIFF_LENGTH - 1), 'notes')).toBe('text/plain');
+  });
+
+  it('reports unknown binary data as octet-stream', () => {
+    const header = readHeader('voice.ogg').slice(100, 200);
+
+    expect(sniffMimeType(header, 'notes.txt')).toBe('application/octet-stream');
+  });
+});
+
+describe('sanitizeFileName', () => {
+  it('keeps only the last path segment', () => {
+    expect(sanitizeFileName('../../etc/passwd')).toBe('passwd');
+    expect(sanitizeFileName('C:\\Users\\me\\report.docx')).toBe('report.docx');
+  });
+
+  it('drops control characters and falls back for empty names', () => {
+    expect(sanitizeFileName('re\u0000port\n.pdf')).toBe('report.pdf');
+    expect(sanitizeFileName('..')).toBe('file');
+  });
+
+  it('shortens long names but keeps the extension', () => {
+    const name = sanitizeFileName(`${'a'.repeat(300)}.pdf`);
+
+    expect(name).toHaveLength(255);
+    expect(name.endsWith('.pdf')).toBe(true);
+  });
+});
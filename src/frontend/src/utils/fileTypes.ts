@@ -0,0 +1,176 @@
+/**
+ * Content-based file type detection for file attachments.
+ *
+ * The type a browser reports for a picked file comes from its extension, and the
+ * type stored with an attachment comes from the sender's device, so neither is
+ * trusted for previews. Types are sniffed from the leading bytes instead; the
+ * extension only tells apart formats that share a container, like ZIP-based
+ * office documents.
+ */
+
+// Enough to recognise every signature below and to judge whether a file is text
+export const SNIFF_LENGTH = 4096;
+
+const FALLBACK_MIME_TYPE = 'application/octet-stream';
+
+interface Signature {
+  offset?: number;
+  bytes: Array<number | null>;
+  mimeType: string;
+}
+
+// null matches any byte, e.g. the size field of a RIFF header
+const SIGNATURES: Signature[] = [
+  { bytes: [0x25, 0x50, 0x44, 0x46, 0x2d], mimeType: 'application/pdf' },
+  { bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], mimeType: 'image/png' },
+  { bytes: [0xff, 0xd8, 0xff], mimeType: 'image/jpeg' },
+  { bytes: [0x47, 0x49, 0x46, 0x38], mimeType: 'image/gif' },
+  { bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50], mimeType: 'image/webp' },
+  { bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x41, 0x56, 0x45], mimeType: 'audio/wav' },
+  { bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x41, 0x56, 0x49, 0x20], mimeType: 'video/x-msvideo' },
+  // HEIF photos share the ISO container of MP4 and are told apart by their major brand
+  { offset: 4, bytes: [0x66, 0x74, 0x79, 0x70, 0x61, 0x76, 0x69, 0x66], mimeType: 'image/avif' },
+  { offset: 4, bytes: [0x66, 0x74, 0x79, 0x70, 0x68, 0x65, 0x69, 0x63], mimeType: 'image/heic' },
+  { offset: 4, bytes: [0x66, 0x74, 0x79, 0x70, 0x6d, 0x69, 0x66, 0x31], mimeType: 'image/heif' },
+  { offset: 4, bytes: [0x66, 0x74, 0x79, 0x70, 0x71, 0x74], mimeType: 'video/quicktime' },
+  { offset: 4, bytes: [0x66, 0x74, 0x79, 0x70, 0x4d, 0x34, 0x41], mimeType: 'audio/mp4' },
+  { offset: 4, bytes: [0x66, 0x74, 0x79, 0x70], mimeType: 'video/mp4' },
+  { bytes: [0x1a, 0x45, 0xdf, 0xa3], mimeType: 'video/webm' },
+  { bytes: [0x4f, 0x67, 0x67, 0x53], mimeType: 'audio/ogg' },
+  { bytes: [0x66, 0x4c, 0x61, 0x43], mimeType: 'audio/flac' },
+  { bytes: [0x49, 0x44, 0x33], mimeType: 'audio/mpeg' },
+  { bytes: [0x1f, 0x8b], mimeType: 'application/gzip' },
+  { bytes: [0x42, 0x5a, 0x68], mimeType: 'application/x-bzip2' },
+  { bytes: [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00], mimeType: 'application/x-xz' },
+  { bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c], mimeType: 'application/x-7z-compressed' },
+  { bytes: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07], mimeType: 'application/vnd.rar' },
+  { offset: 257, bytes: [0x75, 0x73, 0x74, 0x61, 0x72], mimeType: 'application/x-tar' },
+  { bytes: [0x7b, 0x5c, 0x72, 0x74, 0x66], mimeType: 'application/rtf' },
+];
+
+const ZIP_SIGNATURES = [
+  [0x50, 0x4b, 0x03, 0x04],
+  [0x50, 0x4b, 0x05, 0x06],
+];
+
+// Compound File Binary, the container of pre-2007 Office documents
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+const ZIP_BASED_TYPES: Record<string, string> = {
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  odt: 'application/vnd.oasis.opendocument.text',
+  ods: 'application/vnd.oasis.opendocument.spreadsheet',
+  odp: 'application/vnd.oasis.opendocument.presentation',
+  epub: 'application/epub+zip',
+  jar: 'application/java-archive',
+};
+
+const OLE_BASED_TYPES: Record<string, string> = {
+  doc: 'application/msword',
+  xls: 'application/vnd.ms-excel',
+  ppt: 'application/vnd.ms-powerpoint',
+};
+
+const TEXT_TYPES: Record<string, string> = {
+  csv: 'text/csv',
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  html: 'text/html',
+  htm: 'text/html',
+  css: 'text/css',
+  xml: 'application/xml',
+  svg: 'image/svg+xml',
+  json: 'application/json',
+  js: 'text/javascript',
+  mjs: 'text/javascript',
+};
+
+function matches(bytes: Uint8Array, pattern: Array<number | null>, offset = 0): boolean {
+  if (bytes.length < offset + pattern.length) return false;
+  return pattern.every((byte, index) => byte === null || bytes[offset + index] === byte);
+}
+
+export function getFileExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(dot + 1).toLowerCase() : '';
+}
+
+/**
+ * Whether the bytes look like UTF-8 text: they decode without errors and contain
+ * no NUL or other control characters besides whitespace.
+ */
+function looksLikeText(bytes: Uint8Array): boolean {
+  if (bytes.length === 0) return true;
+  let text: string;
+  try {
+    // Streaming mode tolerates a multi-byte character cut off at the end of the sample
+    text = new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+  } catch {
+    return false;
+  }
+  return !/[\u0000-\u0008\u000e-\u001a\u001c-\u001f]/.test(text);
+}
+
+/**
+ * Detect a file's MIME type from its first `SNIFF_LENGTH` bytes, using the file
+ * name only to tell apart formats with the same signature. Unknown binary data
+ * is reported as application/octet-stream.
+ */
+export function sniffMimeType(header: Uint8Array, fileName: string): string {
+  const extension = getFileExtension(fileName);
+
+  const signature = SIGNATURES.find((candidate) => matches(header, candidate.bytes, candidate.offset));
+  if (signature) return signature.mimeType;
+
+  if (ZIP_SIGNATURES.some((pattern) => matches(header, pattern))) {
+    return ZIP_BASED_TYPES[extension] ?? 'application/zip';
+  }
+  if (matches(header, OLE_SIGNATURE)) {
+    return OLE_BASED_TYPES[extension] ?? FALLBACK_MIME_TYPE;
+  }
+  if (looksLikeText(header)) {
+    return TEXT_TYPES[extension] ?? 'text/plain';
+  }
+  return FALLBACK_MIME_TYPE;
+}
+
+// Types shown as source text in previews; markup is never rendered
+export function isTextMimeType(mimeType: string): boolean {
+  return (
+    mimeType.startsWith('text/') ||
+    mimeType === 'application/json' ||
+    mimeType === 'application/xml' ||
+    mimeType === 'image/svg+xml'
+  );
+}
+
+export function isArchiveMimeType(mimeType: string): boolean {
+  return [
+    'application/zip',
+    'application/gzip',
+    'application/x-bzip2',
+    'application/x-xz',
+    'application/x-7z-compressed',
+    'application/vnd.rar',
+    'application/x-tar',
+    'application/java-archive',
+  ].includes(mimeType);
+}
+
+/**
+ * Keep only the last path segment of a file name and drop control characters,
+ * so a name can be shown and used for a download as it is.
+ */
+export function sanitizeFileName(fileName: string, maxLength = 255): string {
+  const baseName = fileName.split(/[/\\]/).pop() ?? '';
+  const cleaned = baseName.replace(/[\u0000-\u001f\u007f]/g, '').trim();
+  if (!cleaned || cleaned === '.' || cleaned === '..') return 'file';
+  if (cleaned.length <= maxLength) return cleaned;
+
+  // Shorten the stem and keep the extension
+  const extension = getFileExtension(cleaned);
+  const suffix = extension ? `.${extension}` : '';
+  return cleaned.slice(0, maxLength - suffix.length) + suffix;
+}
@@ -0,0 +1,194 @@
+/**
+ * GIF search backends for the media picker. Each provider lists trending GIFs,
+ * searches, and pages through results with an opaque cursor. The one in use is
+ * chosen at build time, so deployments without third-party access can use the
+ * bundled index.
+ */
+
+export type GifProviderId = 'tenor' | 'giphy' | 'local';
+
+export interface GifResult {
+  id: string;
+  // Full-size GIF that is sent
+  url: string;
+  // Smaller rendition shown in the picker
+  preview: string;
+  title: string;
+}
+
+export interface GifPage {
+  results: GifResult[];
+  // Passed back to load the following page, or null after the last one
+  next: string | null;
+}
+
+export interface GifProvider {
+  id: GifProviderId;
+  // Shown under the results, as the Tenor and GIPHY terms require
+  attribution: string;
+  trending(cursor?: string): Promise<GifPage>;
+  search(query: string, cursor?: string): Promise<GifPage>;
+}
+
+export const GIF_PAGE_SIZE = 20;
+
+const TENOR_BASE_URL = 'https://tenor.googleapis.com/v2';
+const GIPHY_BASE_URL = 'https://api.giphy.com/v1/gifs';
+const DEFAULT_LOCAL_GIF_INDEX_URL = '/gifs/index.json';
+
+async function fetchJson(url: string): Promise<any> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`GIF request failed with status ${response.status}`);
+  }
+  return response.json();
+}
+
+export function createTenorProvider(apiKey: string): GifProvider {
+  const request = async (endpoint: string, params: Record<string, string>, cursor?: string): Promise<GifPage> => {
+    const query = new URLSearchParams({
+      ...params,
+      key: apiKey,
+      contentfilter: 'high',
+      media_filter: 'gif,tinygif',
+      limit: String(GIF_PAGE_SIZE),
+    });
+    if (cursor) query.set('pos', cursor);
+
+    const data = await fetchJson(`${TENOR_BASE_URL}/${endpoint}?${query}`);
+    const results: GifResult[] = (data.results ?? [])
+      .map((item: any) => ({
+        id: String(item.id),
+        url: item.media_formats?.gif?.url || item.media_formats?.tinygif?.url || '',
+        preview: item.media_formats?.tinygif?.url || item.media_formats?.gif?.url || '',
+        title: item.content_description || 'GIF',
+      }))
+      .filter((item: GifResult) => item.url && item.preview);
+    // Tenor keeps returning a position after the last page, so an empty page ends the list
+    return { results, next: data.next && results.length > 0 ? String(data.next) : null };
+  };
+
+  return {
+    id: 'tenor',
+    attribution: 'Powered by Tenor',
+    trending: (cursor) => request('featured', {}, cursor),
+    search: (query, cursor) => request('search', { q: query }, cursor),
+  };
+}
+
+export function createGiphyProvider(apiKey: string): GifProvider {
+  const request = async (endpoint: string, params: Record<string, string>, cursor?: string): Promise<GifPage> => {
+    const offset = cursor ? Number(cursor) : 0;
+    const query = new URLSearchParams({
+      ...params,
+      api_key: apiKey,
+      rating: 'g',
+      limit: String(GIF_PAGE_SIZE),
+      offset: String(offset),
+    });
+
+    const data = await fetchJson(`${GIPHY_BASE_URL}/${endpoint}?${query}`);
+    const results: GifResult[] = (data.data ?? [])
+      .map((item: any) => ({
+        id: String(item.id),
+        url: item.images?.original?.url || item.images?.fixed_width?.url || '',
+        preview: item.images?.fixed_width_small?.url || item.images?.fixed_width?.url || '',
+        title: item.title || 'GIF',
+      }))
+      .filter((item: GifResult) => item.url && item.preview);
+    const nextOffset = offset + (data.pagination?.count ?? results.length);
+    const total = data.pagination?.total_count ?? 0;
+    return { results, next: results.length > 0 && nextOffset < total ? String(nextOffset) : null };
+  };
+
+  return {
+    id: 'giphy',
+    attribution: 'Powered by GIPHY',
+    trending: (cursor) => request('trending', {}, cursor),
+    search: (query, cursor) => request('search', { q: query }, cursor),
+  };
+}
+
+interface LocalGifEntry {
+  id: string;
+  title: string;
+  tags?: string[];
+  // Relative to the index file
+  url: string;
+  preview?: string;
+}
+
+type LocalGif = GifResult & { keywords: string };
+
+/**
+ * GIFs listed in a static index served with the app, for deployments that must
+ * not reach third-party services. The index is `{ "gifs": [...] }`, in the order
+ * shown before searching; a search matches every word against titles and tags.
+ */
+export function createLocalProvider(indexUrl: string = DEFAULT_LOCAL_GIF_INDEX_URL): GifProvider {
+  let entries: Promise<LocalGif[]> | null = null;
+
+  const loadIndex = () => {
+    if (!entries) {
+      const base = new URL(indexUrl, window.location.href);
+      entries = fetchJson(base.href)
+        .then((data) =>
+          (data.gifs ?? []).map((entry: LocalGifEntry): LocalGif => ({
+            id: entry.id,
+            url: new URL(entry.url, base).href,
+            preview: new URL(entry.preview ?? entry.url, base).href,
+            title: entry.title,
+            keywords: [entry.title, ...(entry.tags ?? [])].join(' ').toLowerCase(),
+          }))
+        )
+        .catch((error) => {
+          // Let a later attempt fetch the index again
+          entries = null;
+          throw error;
+        });
+    }
+    return entries;
+  };
+
+  const paginate = (results: LocalGif[], cursor?: string): GifPage => {
+    const offset = cursor ? Number(cursor) : 0;
+    const nextOffset = offset + GIF_PAGE_SIZE;
+    return {
+      results: results.slice(offset, nextOffset).map(({ id, url, preview, title }) => ({ id, url, preview, title })),
+      next: nextOffset < results.length ? String(nextOffset) : null,
+    };
+  };
+
+  return {
+    id: 'local',
+    attribution: 'GIFs included with this app',
+    trending: async (cursor) => paginate(await loadIndex(), cursor),
+    search: async (query, cursor) => {
+      const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+      const all = await loadIndex();
+      return paginate(all.filter((gif) => words.every((word) => gif.keywords.includes(word))), cursor);
+    },
+  };
+}
+
+/**
+ * Provider configured for this build. GIF_PROVIDER picks one explicitly;
+ * otherwise Tenor or GIPHY is used when its API key is set, and the bundled
+ * index when neither is.
+ */
+export function createConfiguredGifProvider(): GifProvider {
+  const requested = process.env.GIF_PROVIDER;
+  const tenorKey = process.env.TENOR_API_KEY;
+  const giphyKey = process.env.GIPHY_API_KEY;
+
+  if (requested === 'tenor' || (!requested && tenorKey)) {
+    if (tenorKey) return createTenorProvider(tenorKey);
+    console.warn('GIF_PROVIDER is tenor but TENOR_API_KEY is not set; using the bundled GIFs');
+  } else if (requested === 'giphy' || (!requested && giphyKey)) {
+    if (giphyKey) return createGiphyProvider(giphyKey);
+    console.warn('GIF_PROVIDER is giphy but GIPHY_API_KEY is not set; using the bundled GIFs');
+  } else if (requested && requested !== 'local') {
+    console.warn(`Unknown GIF_PROVIDER "${requested}"; using the bundled GIFs`);
+  }
+  return createLocalProvider(process.env.GIF_INDEX_URL || undefined);
+}
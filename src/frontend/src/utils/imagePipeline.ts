@@ -0,0 +1,118 @@
+/**
+ * Client-side image pipeline run before images are uploaded: downscales to a
+ * maximum dimension and re-encodes at a target quality in a Web Worker with
+ * OffscreenCanvas, so large photos do not block the UI.
+ *
+ * Animated GIFs are passed through untouched since a canvas keeps only their
+ * first frame. The original bytes are also kept whenever processing fails, is
+ * unsupported by the browser or would not make the image smaller.
+ */
+
+export interface ImagePipelineOptions {
+  // Longest side of the output in pixels; smaller images are not upscaled
+  maxDimension: number;
+  // Encoder quality between 0 and 1
+  quality: number;
+  // Preferred output format; browsers that cannot encode WebP produce PNG instead
+  format: 'image/webp' | 'image/jpeg';
+}
+
+export const DEFAULT_IMAGE_OPTIONS: ImagePipelineOptions = {
+  maxDimension: 2048,
+  quality: 0.82,
+  format: 'image/webp',
+};
+
+// Stickers are shown small, so they are stored much smaller
+export const STICKER_IMAGE_OPTIONS: ImagePipelineOptions = {
+  maxDimension: 512,
+  quality: 0.8,
+  format: 'image/webp',
+};
+
+// Custom emoji are drawn at text size, with room for high-density screens
+export const EMOJI_IMAGE_OPTIONS: ImagePipelineOptions = {
+  maxDimension: 128,
+  quality: 0.85,
+  format: 'image/webp',
+};
+
+export interface ImagePipelineRequest {
+  id: number;
+  bytes: ArrayBuffer;
+  type: string;
+  options: ImagePipelineOptions;
+}
+
+export type ImagePipelineResponse =
+  | { id: number; bytes: ArrayBuffer; type: string }
+  | { id: number; error: string };
+
+export interface ProcessedImage {
+  bytes: Uint8Array<ArrayBuffer>;
+  type: string;
+}
+
+// More than one graphic control extension means more than one frame
+export function isAnimatedGif(bytes: Uint8Array): boolean {
+  if (bytes[0] !== 0x47 || bytes[1] !== 0x49 || bytes[2] !== 0x46) return false;
+  let frames = 0;
+  for (let i = 0; i + 2 < bytes.length; i++) {
+    if (bytes[i] === 0x21 && bytes[i + 1] === 0xf9 && bytes[i + 2] === 0x04 && ++frames > 1) return true;
+  }
+  return false;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, (response: ImagePipelineResponse) => void>();
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/imagePipeline.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ImagePipelineResponse>) => {
+      pendingRequests.get(event.data.id)?.(event.data);
+      pendingRequests.delete(event.data.id);
+    };
+    worker.onerror = (event) => {
+      // A worker that failed to load cannot answer; fail everything waiting on it
+      console.warn('[imagePipeline] Worker failed:', event.message);
+      for (const [id, resolve] of pendingRequests) resolve({ id, error: event.message || 'Worker failed' });
+      pendingRequests.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+}
+
+function isPipelineSupported(): boolean {
+  return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+}
+
+/**
+ * Downscale and re-encode an image. Resolves with the original bytes whenever
+ * the image is better left alone; never rejects.
+ */
+export async function processImage(
+  blob: Blob,
+  options: ImagePipelineOptions = DEFAULT_IMAGE_OPTIONS
+): Promise<ProcessedImage> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const original: ProcessedImage = { bytes, type: blob.type };
+  if (!isPipelineSupported() || isAnimatedGif(bytes)) return original;
+
+  const id = nextRequestId++;
+  const response = await new Promise<ImagePipelineResponse>((resolve) => {
+    pendingRequests.set(id, resolve);
+    // The worker gets its own copy so `bytes` stays usable as the fallback
+    const request: ImagePipelineRequest = { id, bytes: bytes.slice().buffer, type: blob.type, options };
+    getWorker().postMessage(request, [request.bytes]);
+  });
+
+  if ('error' in response) {
+    console.warn('[imagePipeline] Keeping original image:', response.error);
+    return original;
+  }
+  return { bytes: new Uint8Array(response.bytes), type: response.type };
+}
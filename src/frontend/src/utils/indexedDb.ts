@@ -0,0 +1,44 @@
+/**
+ * Minimal promise wrapper around an IndexedDB database used for local state
+ * that has to survive reloads, such as the outbox and resumable uploads.
+ */
+export interface LocalDatabase {
+  request<T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T>;
+}
+
+export function createLocalDatabase(
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase) => void
+): LocalDatabase {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = () => upgrade(request.result);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to try again, e.g. after a blocked upgrade
+      dbPromise.catch(() => {
+        dbPromise = null;
+      });
+    }
+    return dbPromise;
+  };
+
+  return {
+    async request(storeName, mode, run) {
+      const db = await open();
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = run(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+    },
+  };
+}
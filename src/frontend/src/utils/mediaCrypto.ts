@@ -0,0 +1,204 @@
+import { ExternalBlob, type Attachment } from '../backend';
+import { getRoomKey, sealAttachmentDetails, wrapMediaKey } from './roomCrypto';
+
+/**
+ * Client-side encryption of uploaded media in encrypted rooms.
+ *
+ * Every message gets a fresh AES-GCM media key, wrapped with the room key and stored
+ * on the message. Blobs are sealed in fixed-size chunks so they can be decrypted as a
+ * stream while downloading, without holding ciphertext and plaintext in memory at once.
+ *
+ * Layout: magic "SCM1" | chunk size (uint32 BE) | nonce prefix (8 bytes) | sealed chunks.
+ * Chunk i is sealed with IV = nonce prefix || i and additional data i || final flag, so
+ * chunks cannot be reordered, dropped or the stream truncated without detection.
+ */
+
+const MAGIC = [0x53, 0x43, 0x4d, 0x31];
+const NONCE_PREFIX_BYTES = 8;
+const HEADER_BYTES = MAGIC.length + 4 + NONCE_PREFIX_BYTES;
+const TAG_BYTES = 16;
+const CHUNK_SIZE = 256 * 1024;
+// Upper bound accepted from a header, so a corrupt blob cannot make us buffer unbounded data
+const MAX_CHUNK_SIZE = 8 * 1024 * 1024;
+
+export class MediaDecryptionError extends Error {
+  constructor(message = 'Media could not be decrypted.') {
+    super(message);
+    this.name = 'MediaDecryptionError';
+  }
+}
+
+export interface SealedMessageMedia {
+  attachments: Attachment[];
+  // Media key wrapped with the room key, or null when the media is not encrypted
+  mediaKey: string | null;
+}
+
+function chunkIv(prefix: Uint8Array, index: number): Uint8Array<ArrayBuffer> {
+  const iv = new Uint8Array(12);
+  iv.set(prefix);
+  new DataView(iv.buffer).setUint32(NONCE_PREFIX_BYTES, index);
+  return iv;
+}
+
+function chunkAad(index: number, isFinal: boolean): Uint8Array<ArrayBuffer> {
+  const aad = new Uint8Array(5);
+  new DataView(aad.buffer).setUint32(0, index);
+  aad[4] = isFinal ? 1 : 0;
+  return aad;
+}
+
+export function createMediaKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Seal media bytes into the chunked format. The output buffer is allocated once
+ * and each chunk is encrypted from a view of the input.
+ */
+export async function encryptMediaBytes(key: CryptoKey, bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  const chunkCount = Math.max(1, Math.ceil(bytes.length / CHUNK_SIZE));
+  const output = new Uint8Array(HEADER_BYTES + bytes.length + chunkCount * TAG_BYTES);
+
+  const prefix = crypto.getRandomValues(new Uint8Array(NONCE_PREFIX_BYTES));
+  output.set(MAGIC, 0);
+  new DataView(output.buffer).setUint32(MAGIC.length, CHUNK_SIZE);
+  output.set(prefix, MAGIC.length + 4);
+
+  let offset = HEADER_BYTES;
+  for (let index = 0; index < chunkCount; index++) {
+    const chunk = bytes.subarray(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE);
+    const sealed = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: chunkIv(prefix, index), additionalData: chunkAad(index, index === chunkCount - 1) },
+      key,
+      chunk
+    );
+    output.set(new Uint8Array(sealed), offset);
+    offset += sealed.byteLength;
+  }
+  return output;
+}
+
+/**
+ * Stream that turns sealed media back into plaintext. A full chunk is only opened
+ * once more bytes follow it, so the last chunk is always checked with the final flag.
+ */
+export function createMediaDecryptionStream(key: CryptoKey): TransformStream<Uint8Array, Uint8Array> {
+  let buffer = new Uint8Array(0);
+  let prefix: Uint8Array | null = null;
+  let sealedChunkSize = 0;
+  let index = 0;
+
+  const append = (bytes: Uint8Array) => {
+    const next = new Uint8Array(buffer.length + bytes.length);
+    next.set(buffer);
+    next.set(bytes, buffer.length);
+    buffer = next;
+  };
+
+  const readHeader = () => {
+    if (MAGIC.some((byte, i) => buffer[i] !== byte)) {
+      throw new MediaDecryptionError('Unsupported encrypted media format.');
+    }
+    const chunkSize = new DataView(buffer.buffer, buffer.byteOffset).getUint32(MAGIC.length);
+    if (chunkSize === 0 || chunkSize > MAX_CHUNK_SIZE) {
+      throw new MediaDecryptionError('Unsupported encrypted media format.');
+    }
+    sealedChunkSize = chunkSize + TAG_BYTES;
+    prefix = buffer.slice(MAGIC.length + 4, HEADER_BYTES);
+    buffer = buffer.slice(HEADER_BYTES);
+  };
+
+  const openChunk = async (sealed: Uint8Array<ArrayBuffer>, isFinal: boolean): Promise<Uint8Array> => {
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: chunkIv(prefix!, index), additionalData: chunkAad(index, isFinal) },
+        key,
+        sealed
+      );
+      index++;
+      return new Uint8Array(plaintext);
+    } catch {
+      throw new MediaDecryptionError();
+    }
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async transform(bytes, controller) {
+      append(bytes);
+      if (!prefix) {
+        if (buffer.length < HEADER_BYTES) return;
+        readHeader();
+      }
+      while (buffer.length > sealedChunkSize) {
+        controller.enqueue(await openChunk(buffer.slice(0, sealedChunkSize), false));
+        buffer = buffer.slice(sealedChunkSize);
+      }
+    },
+    async flush(controller) {
+      if (!prefix || buffer.length < TAG_BYTES) {
+        throw new MediaDecryptionError('Encrypted media is truncated.');
+      }
+      controller.enqueue(await openChunk(buffer, true));
+      buffer = new Uint8Array(0);
+    },
+  });
+}
+
+/**
+ * Download sealed media and decrypt it while it streams in.
+ * `onProgress` receives a percentage when the response size is known.
+ */
+export async function decryptMediaToBlob(
+  url: string,
+  key: CryptoKey,
+  options: { type?: string; onProgress?: (percentage: number) => void } = {}
+): Promise<Blob> {
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to fetch media (${response.status})`);
+  }
+
+  let body: ReadableStream<Uint8Array> = response.body;
+  const total = Number(response.headers.get('Content-Length')) || 0;
+  if (options.onProgress && total > 0) {
+    const onProgress = options.onProgress;
+    let received = 0;
+    body = body.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(bytes, controller) {
+          received += bytes.length;
+          onProgress(Math.min(100, Math.round((received / total) * 100)));
+          controller.enqueue(bytes);
+        },
+      })
+    );
+  }
+
+  const plaintext = body.pipeThrough(createMediaDecryptionStream(key));
+  const blob = await new Response(plaintext).blob();
+  return options.type ? new Blob([blob], { type: options.type }) : blob;
+}
+
+async function encryptMediaBlob(key: CryptoKey, blob: ExternalBlob): Promise<ExternalBlob> {
+  const sealed = ExternalBlob.fromBytes(await encryptMediaBytes(key, await blob.getBytes()));
+  return blob.onProgress ? sealed.withUploadProgress(blob.onProgress) : sealed;
+}
+
+/**
+ * Encrypt a message's attachments before upload if the room is unlocked with a key.
+ * All attachments of a message share one media key, which also seals their names
+ * and types. Attachments of plain rooms are returned unchanged with a null media key.
+ */
+export async function encryptMessageMedia(roomId: string, attachments: Attachment[]): Promise<SealedMessageMedia> {
+  if (!getRoomKey(roomId) || attachments.length === 0) {
+    return { attachments, mediaKey: null };
+  }
+
+  const key = await createMediaKey();
+  const sealed: Attachment[] = [];
+  for (const attachment of attachments) {
+    sealed.push({ ...attachment, blob: await encryptMediaBlob(key, attachment.blob) });
+  }
+  return { attachments: await sealAttachmentDetails(key, sealed), mediaKey: await wrapMediaKey(roomId, key) };
+}
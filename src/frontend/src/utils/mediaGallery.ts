@@ -0,0 +1,225 @@
+import { AttachmentKind, type Attachment, type MessageView } from '../backend';
+import type { DecryptedMessageView } from './roomCrypto';
+
+/**
+ * Collects the media and links shared in a room's loaded history for the
+ * gallery. Self-destructing messages are left out so the gallery never shows
+ * what a recipient has not opened, or keeps showing what has been consumed.
+ */
+
+export type GalleryFilter = 'images' | 'videos' | 'audio' | 'files' | 'links';
+
+export interface GalleryMedia {
+  key: string;
+  messageId: bigint;
+  timestamp: bigint;
+  attachment: Attachment;
+  // Position of the attachment among the message's attachments of the same kind
+  index: number;
+  isEncrypted: boolean;
+  mediaCryptoKey?: CryptoKey;
+}
+
+export interface GalleryLink {
+  key: string;
+  messageId: bigint;
+  timestamp: bigint;
+  url: string;
+}
+
+export interface GalleryItems {
+  media: GalleryMedia[];
+  links: GalleryLink[];
+}
+
+// An image linked in a message's text; the canister only loads links it finds in a message the reader can see
+export interface ExternalLink {
+  roomId: string;
+  messageId: bigint;
+  url: string;
+  // Encrypted messages hide their links from the canister
+  isEncrypted: boolean;
+}
+
+// An image or video shown in the album viewer: an uploaded attachment, or an image linked in the text
+export type ViewerItem =
+  | {
+      key: string;
+      messageId: bigint;
+      attachment: Attachment;
+      isEncrypted: boolean;
+      mediaCryptoKey?: CryptoKey;
+    }
+  | (ExternalLink & { key: string });
+
+export interface GalleryDayGroup<T> {
+  label: string;
+  items: T[];
+}
+
+const FILTER_KINDS: Record<Exclude<GalleryFilter, 'links'>, AttachmentKind> = {
+  images: AttachmentKind.image,
+  videos: AttachmentKind.video,
+  audio: AttachmentKind.audio,
+  files: AttachmentKind.file,
+};
+
+const LINK_PATTERN = /https?:\/\/[^\s<>"]+/gi;
+
+// Links shown inline as images: direct image files and the common GIF and image hosts
+const MEDIA_URL_PATTERNS = [
+  /(https?:\/\/[^\s<>"]+\.(gif|png|jpe?g|webp)(?:[?#][^\s<>"]*)?)/gi,
+  /(https?:\/\/(?:[a-z0-9-]+\.)?tenor\.com\/[^\s<>"]+)/gi,
+  /(https?:\/\/(?:[a-z0-9-]+\.)?giphy\.com\/[^\s<>"]+)/gi,
+  /(https?:\/\/(?:i\.)?imgur\.com\/[^\s<>"]+)/gi,
+];
+
+// Sentence punctuation that usually follows a link rather than belonging to it
+const TRAILING_PUNCTUATION = /[.,;:!?)\]}'"]+$/;
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+};
+
+export function extractLinks(content: string): string[] {
+  const links = (content.match(LINK_PATTERN) ?? []).map((url) => url.replace(TRAILING_PUNCTUATION, ''));
+  return Array.from(new Set(links));
+}
+
+// Host of a link, shown in place of media that has not been loaded; the raw text if it does not parse
+export function getLinkDomain(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+}
+
+export function detectMediaUrls(content: string): string[] {
+  const urls = MEDIA_URL_PATTERNS.flatMap((pattern) => content.match(pattern) ?? []);
+  return Array.from(new Set(urls));
+}
+
+function getAttachmentKey(messageId: bigint, position: number): string {
+  return `${messageId}-${position}`;
+}
+
+// Images of a message in the order they are shown: the attachments, then images linked in the text
+export function collectMessageImages(roomId: string, message: MessageView): ViewerItem[] {
+  const isEncrypted = message.mediaKey !== undefined && message.mediaKey !== null;
+  const mediaCryptoKey = (message as DecryptedMessageView).mediaCryptoKey;
+  const attachments: ViewerItem[] = message.attachments.flatMap((attachment, position) =>
+    attachment.kind === AttachmentKind.image
+      ? [{ key: getAttachmentKey(message.id, position), messageId: message.id, attachment, isEncrypted, mediaCryptoKey }]
+      : []
+  );
+  const embedded: ViewerItem[] = detectMediaUrls(message.content).map((url) => ({
+    key: `${message.id}-url-${url}`,
+    roomId,
+    messageId: message.id,
+    url,
+    isEncrypted: (message as DecryptedMessageView).contentState === 'decrypted',
+  }));
+  return [...attachments, ...embedded];
+}
+
+// Every image of the loaded history, oldest first, leaving out self-destructing messages like the gallery
+export function collectRoomImages(roomId: string, messages: MessageView[]): ViewerItem[] {
+  return messages
+    .filter((message) => !message.selfDestruct && !message.isConsumed)
+    .flatMap((message) => collectMessageImages(roomId, message));
+}
+
+// Messages are given oldest first; the gallery lists the newest first
+export function collectGalleryItems(messages: MessageView[]): GalleryItems {
+  const media: GalleryMedia[] = [];
+  const links: GalleryLink[] = [];
+
+  for (const message of [...messages].reverse()) {
+    if (message.selfDestruct || message.isConsumed) continue;
+
+    const isEncrypted = message.mediaKey !== undefined && message.mediaKey !== null;
+    const mediaCryptoKey = (message as DecryptedMessageView).mediaCryptoKey;
+    const counts = new Map<AttachmentKind, number>();
+    message.attachments.forEach((attachment, position) => {
+      const index = counts.get(attachment.kind) ?? 0;
+      counts.set(attachment.kind, index + 1);
+      media.push({
+        key: getAttachmentKey(message.id, position),
+        messageId: message.id,
+        timestamp: message.timestamp,
+        attachment,
+        index,
+        isEncrypted,
+        mediaCryptoKey,
+      });
+    });
+
+    extractLinks(message.content).forEach((url, position) => {
+      links.push({ key: `${message.id}-link-${position}`, messageId: message.id, timestamp: message.timestamp, url });
+    });
+  }
+
+  return { media, links };
+}
+
+export function filterGalleryMedia(media: GalleryMedia[], filter: Exclude<GalleryFilter, 'links'>): GalleryMedia[] {
+  return media.filter((item) => item.attachment.kind === FILTER_KINDS[filter]);
+}
+
+function getDayLabel(date: Date): string {
+  const today = new Date();
+  const yesterday = new Date(today);
+  yesterday.setDate(today.getDate() - 1);
+  if (date.toDateString() === today.toDateString()) return 'Today';
+  if (date.toDateString() === yesterday.toDateString()) return 'Yesterday';
+  return date.toLocaleDateString(undefined, {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    ...(date.getFullYear() === today.getFullYear() ? {} : { year: 'numeric' }),
+  });
+}
+
+// Items are expected newest first and keep their order within a day
+export function groupByDay<T extends { timestamp: bigint }>(items: T[]): GalleryDayGroup<T>[] {
+  const groups: GalleryDayGroup<T>[] = [];
+  for (const item of items) {
+    const label = getDayLabel(new Date(Number(item.timestamp) / 1_000_000));
+    const last = groups[groups.length - 1];
+    if (last && last.label === label) {
+      last.items.push(item);
+    } else {
+      groups.push({ label, items: [item] });
+    }
+  }
+  return groups;
+}
+
+// Name for an item downloaded from the album viewer
+export function getViewerFileName(item: ViewerItem): string {
+  if ('url' in item) return `media-${item.messageId}.png`;
+  return item.attachment.kind === AttachmentKind.video ? `video-${item.key}.mp4` : `image-${item.key}.png`;
+}
+
+// Name for a downloaded attachment; later attachments of the same kind in a message are numbered
+export function getDownloadFileName(item: GalleryMedia): string {
+  const { attachment, messageId, index } = item;
+  const suffix = index > 0 ? `-${index + 1}` : '';
+  switch (attachment.kind) {
+    case AttachmentKind.image:
+      return `image-${messageId}${suffix}.png`;
+    case AttachmentKind.video:
+      return `video-${messageId}${suffix}.mp4`;
+    case AttachmentKind.audio: {
+      const extension = AUDIO_EXTENSIONS[attachment.mimeType.split(';')[0]] ?? 'webm';
+      return `audio-${messageId}${suffix}.${extension}`;
+    }
+    case AttachmentKind.file:
+      return attachment.fileName ?? `file-${messageId}${suffix}`;
+  }
+}
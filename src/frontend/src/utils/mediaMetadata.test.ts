@@ -0,0 +1,162 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { isScrubbableMedia, scrubMediaMetadata } from './mediaMetadata';
+
+/**
+ * Fixtures are real encoder output: photo.jpg and photo.avif were written by
+ * sharp (libvips and libheif) with EXIF of an iPhone, GPS coordinates and, for
+ * the AVIF, an XMP packet; video.mp4 (H.264) and voice.ogg (Opus, with a comment
+ * long enough to span several pages) were written by ffmpeg.
+ */
+function readFixture(name: string): Uint8Array<ArrayBuffer> {
+  const file = readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url));
+  return new Uint8Array(file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength));
+}
+
+function contains(bytes: Uint8Array, text: string): boolean {
+  return Buffer.from(bytes).includes(text, 0, 'latin1');
+}
+
+// Top-level boxes of an ISO base media file, by type
+function topLevelBoxes(bytes: Uint8Array): Map<string, Uint8Array> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const boxes = new Map<string, Uint8Array>();
+  for (let offset = 0; offset + 8 <= bytes.length; offset += view.getUint32(offset)) {
+    const type = Buffer.from(bytes.subarray(offset + 4, offset + 8)).toString('latin1');
+    boxes.set(type, bytes.subarray(offset, offset + view.getUint32(offset)));
+  }
+  return boxes;
+}
+
+// Sequence numbers of the pages of an Ogg file, in file order
+function oggSequenceNumbers(bytes: Uint8Array): number[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const sequences: number[] = [];
+  let offset = 0;
+  while (offset + 27 <= bytes.length) {
+    const segmentCount = bytes[offset + 26];
+    const dataSize = bytes.subarray(offset + 27, offset + 27 + segmentCount).reduce((sum, size) => sum + size, 0);
+    sequences.push(view.getUint32(offset + 18, true));
+    offset += 27 + segmentCount + dataSize;
+  }
+  return sequences;
+}
+
+// The same HEIF file as an iPhone labels it: major brand heic, compatible with mif1 and heic
+function withHeicBrands(avif: Uint8Array<ArrayBuffer>): Uint8Array<ArrayBuffer> {
+  const heic = avif.slice();
+  heic.set(new TextEncoder().encode('heic'), 8);
+  heic.set(new TextEncoder().encode('mif1heicmiaf'), 16);
+  return heic;
+}
+
+describe('scrubMediaMetadata', () => {
+  it('removes EXIF from a JPEG', () => {
+    const photo = readFixture('photo.jpg');
+    expect(contains(photo, 'iPhone 15 Pro')).toBe(true);
+
+    const result = scrubMediaMetadata(photo);
+
+    expect(result.isScrubbed).toBe(true);
+    expect(result.removed).toEqual(expect.arrayContaining(['GPS location', 'device model', 'EXIF data']));
+    expect(contains(result.bytes, 'iPhone')).toBe(false);
+    expect(Array.from(result.bytes.subarray(-2))).toEqual([0xff, 0xd9]);
+  });
+
+  it('drops what follows the end of a JPEG, like a motion photo trailer', () => {
+    const photo = readFixture('photo.jpg');
+    const trailer = new Uint8Array(photo.length + readFixture('video.mp4').length);
+    trailer.set(photo);
+    trailer.set(readFixture('video.mp4'), photo.length);
+
+    const result = scrubMediaMetadata(trailer);
+
+    expect(result.isScrubbed).toBe(true);
+    expect(result.removed).toContain('other metadata');
+    expect(result.bytes).toEqual(scrubMediaMetadata(photo).bytes);
+  });
+
+  it('drops a secondary image appended to a JPEG', () => {
+    const photo = readFixture('photo.jpg');
+    const mpf = new Uint8Array(photo.length * 2);
+    mpf.set(photo);
+    mpf.set(photo, photo.length);
+
+    const result = scrubMediaMetadata(mpf);
+
+    expect(contains(result.bytes, 'iPhone')).toBe(false);
+    expect(result.bytes).toEqual(scrubMediaMetadata(photo).bytes);
+  });
+
+  it('zeroes the Exif and XMP items of an AVIF but keeps its image items', () => {
+    const photo = readFixture('photo.avif');
+    expect(contains(photo, 'iPhone 15 Pro')).toBe(true);
+    expect(contains(photo, 'SecretCam')).toBe(true);
+
+    const result = scrubMediaMetadata(photo);
+
+    expect(result.isScrubbed).toBe(true);
+    expect(result.removed).toEqual(expect.arrayContaining(['GPS location', 'device model', 'XMP data']));
+    expect(contains(result.bytes, 'iPhone')).toBe(false);
+    expect(contains(result.bytes, 'SecretCam')).toBe(false);
+    // Item info, locations and properties stay as they were, so the photo still decodes
+    expect(result.bytes.length).toBe(photo.length);
+    expect(topLevelBoxes(result.bytes).get('meta')).toEqual(topLevelBoxes(photo).get('meta'));
+  });
+
+  it('treats a file with HEIC brands as a photo, not a video', () => {
+    const photo = withHeicBrands(readFixture('photo.avif'));
+
+    const result = scrubMediaMetadata(photo);
+
+    expect(result.isScrubbed).toBe(true);
+    expect(contains(result.bytes, 'iPhone')).toBe(false);
+    expect(topLevelBoxes(result.bytes).get('meta')).toEqual(topLevelBoxes(photo).get('meta'));
+  });
+
+  it('leaves files of unknown ISO brands alone', () => {
+    const raw = readFixture('photo.avif');
+    raw.set(new TextEncoder().encode('crx '), 8);
+    raw.set(new TextEncoder().encode('crx crx crx '), 16);
+
+    expect(isScrubbableMedia(raw)).toBe(false);
+    expect(scrubMediaMetadata(raw)).toEqual({ bytes: raw, removed: [], isScrubbed: false });
+  });
+
+  it('blanks the user data of an MP4 in place', () => {
+    const video = readFixture('video.mp4');
+    expect(contains(video, '+51.5000')).toBe(true);
+
+    const result = scrubMediaMetadata(video);
+
+    expect(result.isScrubbed).toBe(true);
+    expect(result.removed).toContain('location');
+    expect(contains(result.bytes, '+51.5000')).toBe(false);
+    expect(result.bytes.length).toBe(video.length);
+    expect(topLevelBoxes(result.bytes).get('mdat')).toEqual(topLevelBoxes(video).get('mdat'));
+  });
+
+  it('replaces an Ogg comment header that spans several pages', () => {
+    const voice = readFixture('voice.ogg');
+    expect(contains(voice, 'Voice memo')).toBe(true);
+
+    const result = scrubMediaMetadata(voice);
+
+    expect(result.isScrubbed).toBe(true);
+    expect(result.removed).toEqual(expect.arrayContaining(['encoder tags', 'comments']));
+    expect(contains(result.bytes, 'Voice memo')).toBe(false);
+    expect(result.bytes.length).toBeLessThan(voice.length / 10);
+    // Pages after the merged header are renumbered without a gap
+    const sequences = oggSequenceNumbers(result.bytes);
+    expect(oggSequenceNumbers(voice).length).toBeGreaterThan(sequences.length);
+    expect(sequences).toEqual(sequences.map((_, index) => index));
+  });
+
+  it('reports a truncated file as not scrubbed', () => {
+    const voice = readFixture('voice.ogg');
+
+    const result = scrubMediaMetadata(voice.slice(0, 30000));
+
+    expect(result.isScrubbed).toBe(false);
+  });
+});
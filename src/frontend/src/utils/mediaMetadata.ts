@@ -0,0 +1,901 @@
+/**
+ * Removal of identifying metadata from media before it is uploaded.
+ *
+ * Images lose EXIF, XMP, IPTC and text chunks; only the EXIF orientation of a
+ * JPEG is kept so photos still display upright. Containers are scrubbed in
+ * place: MP4 metadata boxes become zeroed `free` boxes and WebM elements become
+ * Void elements of the same size, so sample offsets stay valid without
+ * remuxing. HEIC and AVIF photos keep their item structure and only have the
+ * data of their Exif and XMP items zeroed. Ogg streams get empty comment headers.
+ */
+
+export interface ScrubbedMedia {
+  bytes: Uint8Array<ArrayBuffer>;
+  // Kinds of metadata that were removed, e.g. "GPS location", for a summary to the sender
+  removed: string[];
+  // False when the format is unknown or the file could not be parsed; the bytes are then unchanged
+  isScrubbed: boolean;
+}
+
+const GPS_LOCATION = 'GPS location';
+const DEVICE_MODEL = 'device model';
+const CAPTURE_TIME = 'capture time';
+const CREATION_TIME = 'creation time';
+const EXIF_DATA = 'EXIF data';
+const XMP_DATA = 'XMP data';
+const IPTC_DATA = 'IPTC data';
+const COMMENTS = 'comments';
+const ENCODER_TAGS = 'encoder tags';
+const TITLE = 'title';
+const LOCATION = 'location';
+const OTHER_METADATA = 'other metadata';
+
+const textDecoder = new TextDecoder('latin1');
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return textDecoder.decode(bytes.subarray(offset, offset + length));
+}
+
+function startsWith(bytes: Uint8Array, prefix: string, offset = 0): boolean {
+  return offset + prefix.length <= bytes.length && readAscii(bytes, offset, prefix.length) === prefix;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+// ---- EXIF ----
+
+const EXIF_HEADER = 'Exif\0\0';
+const TAG_ORIENTATION = 0x0112;
+const EXIF_LABELS: Record<number, string> = {
+  0x010f: DEVICE_MODEL, // Make
+  0x0110: DEVICE_MODEL, // Model
+  0x0131: ENCODER_TAGS, // Software
+  0x0132: CAPTURE_TIME, // DateTime
+  0x8769: CAPTURE_TIME, // Exif IFD, which holds DateTimeOriginal
+  0x8825: GPS_LOCATION, // GPS IFD
+};
+
+/**
+ * Labels of the notable tags in IFD0 of a TIFF structure plus its orientation.
+ * Returns null for a structure that cannot be read; it is dropped all the same.
+ */
+function readExif(tiff: Uint8Array, removed: Set<string>): { orientation: number | null } | null {
+  removed.add(EXIF_DATA);
+  try {
+    return readExifEntries(tiff, removed);
+  } catch {
+    return null;
+  }
+}
+
+function readExifEntries(tiff: Uint8Array, removed: Set<string>): { orientation: number | null } | null {
+  if (tiff.length < 8) return null;
+  const littleEndian = startsWith(tiff, 'II');
+  if (!littleEndian && !startsWith(tiff, 'MM')) return null;
+
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  if (view.getUint16(2, littleEndian) !== 42) return null;
+
+  const ifdOffset = view.getUint32(4, littleEndian);
+  const entryCount = view.getUint16(ifdOffset, littleEndian);
+  let orientation: number | null = null;
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    const tag = view.getUint16(entry, littleEndian);
+    if (tag === TAG_ORIENTATION) {
+      orientation = view.getUint16(entry + 8, littleEndian);
+    } else if (EXIF_LABELS[tag]) {
+      removed.add(EXIF_LABELS[tag]);
+    }
+  }
+  return { orientation };
+}
+
+// APP1 segment holding nothing but the orientation, big-endian
+function createOrientationSegment(orientation: number): Uint8Array<ArrayBuffer> {
+  const segment = new Uint8Array(36);
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, 0xffe1);
+  view.setUint16(2, segment.length - 2);
+  segment.set(new TextEncoder().encode(EXIF_HEADER), 4);
+  segment.set([0x4d, 0x4d], 10);
+  view.setUint16(12, 42);
+  view.setUint32(14, 8);
+  view.setUint16(18, 1);
+  view.setUint16(20, TAG_ORIENTATION);
+  view.setUint16(22, 3); // SHORT
+  view.setUint32(24, 1);
+  view.setUint16(28, orientation);
+  // Remaining bytes: padding of the value and the offset of the next IFD, both zero
+  return segment;
+}
+
+// ---- JPEG ----
+
+const JPEG_SOS = 0xda;
+const JPEG_EOI = 0xd9;
+const JPEG_COM = 0xfe;
+const JPEG_APP0 = 0xe0;
+const JPEG_APP1 = 0xe1;
+const JPEG_APP2 = 0xe2;
+const JPEG_APP13 = 0xed;
+const JPEG_APP14 = 0xee;
+const JPEG_APP15 = 0xef;
+
+// JFIF, color profiles and Adobe color transforms affect how the image renders
+function isRenderingSegment(marker: number, payload: Uint8Array): boolean {
+  return (
+    marker === JPEG_APP0 || marker === JPEG_APP14 || (marker === JPEG_APP2 && startsWith(payload, 'ICC_PROFILE'))
+  );
+}
+
+// Offset of the marker that ends the entropy-coded data of a scan, or -1 if the file ends first
+function skipEntropyCodedData(bytes: Uint8Array, offset: number): number {
+  for (let i = offset; i + 1 < bytes.length; i++) {
+    const next = bytes[i + 1];
+    // Zero bytes stuff a literal 0xFF, and restart markers sit inside the scan
+    if (bytes[i] === 0xff && next !== 0 && !(next >= 0xd0 && next <= 0xd7)) return i;
+  }
+  return -1;
+}
+
+function scrubJpeg(bytes: Uint8Array, removed: Set<string>): Uint8Array<ArrayBuffer> | null {
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+  while (offset < bytes.length) {
+    if (bytes[offset] !== 0xff || offset + 1 >= bytes.length) return null;
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      // Fill byte before a marker
+      offset++;
+      continue;
+    }
+    if (marker === JPEG_EOI) {
+      // Whatever follows the image, like the extra images of an MPF file or the
+      // video of a motion photo, has metadata of its own and is dropped
+      if (bytes.subarray(offset + 2).some((byte) => byte !== 0)) removed.add(OTHER_METADATA);
+      parts.push(bytes.subarray(offset, offset + 2));
+      return concatBytes(parts);
+    }
+    if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      // Markers without a length
+      parts.push(bytes.subarray(offset, offset + 2));
+      offset += 2;
+      continue;
+    }
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const end = offset + 2 + length;
+    if (length < 2 || end > bytes.length) return null;
+    const payload = bytes.subarray(offset + 4, end);
+
+    if (marker === JPEG_APP1 && startsWith(payload, EXIF_HEADER)) {
+      const exif = readExif(payload.subarray(EXIF_HEADER.length), removed);
+      if (exif?.orientation && exif.orientation > 1 && exif.orientation <= 8) {
+        parts.push(createOrientationSegment(exif.orientation));
+      }
+    } else if (marker === JPEG_APP1 && startsWith(payload, 'http://ns.adobe.com/')) {
+      removed.add(XMP_DATA);
+    } else if (marker === JPEG_APP13) {
+      removed.add(IPTC_DATA);
+    } else if (marker === JPEG_COM) {
+      removed.add(COMMENTS);
+    } else if (marker >= JPEG_APP0 && marker <= JPEG_APP15 && !isRenderingSegment(marker, payload)) {
+      // Maker notes, embedded thumbnails and the like
+      removed.add(OTHER_METADATA);
+    } else {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+
+    if (marker === JPEG_SOS) {
+      // Entropy-coded data follows, which carries no metadata
+      const scanEnd = skipEntropyCodedData(bytes, offset);
+      if (scanEnd === -1) {
+        parts.push(bytes.subarray(offset));
+        return concatBytes(parts);
+      }
+      parts.push(bytes.subarray(offset, scanEnd));
+      offset = scanEnd;
+    }
+  }
+  return concatBytes(parts);
+}
+
+// ---- PNG ----
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+function scrubPng(bytes: Uint8Array, removed: Set<string>): Uint8Array<ArrayBuffer> | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE.length)];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = readAscii(bytes, offset + 4, 4);
+    const end = offset + 12 + length;
+    if (end > bytes.length) return null;
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'eXIf') {
+      readExif(data, removed);
+    } else if (type === 'iTXt' && startsWith(data, 'XML:com.adobe.xmp\0')) {
+      removed.add(XMP_DATA);
+    } else if (type === 'tEXt' || type === 'zTXt' || type === 'iTXt') {
+      removed.add(COMMENTS);
+    } else if (type === 'tIME') {
+      removed.add(CREATION_TIME);
+    } else {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+    if (type === 'IEND') break;
+  }
+  return concatBytes(parts);
+}
+
+// ---- WebP ----
+
+const WEBP_FLAG_XMP = 0x04;
+const WEBP_FLAG_EXIF = 0x08;
+
+function scrubWebp(bytes: Uint8Array, removed: Set<string>): Uint8Array<ArrayBuffer> | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = readAscii(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    // Chunks are padded to an even size
+    const end = offset + 8 + size + (size % 2);
+    if (offset + 8 + size > bytes.length) return null;
+    const data = bytes.subarray(offset + 8, offset + 8 + size);
+
+    if (type === 'EXIF') {
+      readExif(startsWith(data, EXIF_HEADER) ? data.subarray(EXIF_HEADER.length) : data, removed);
+    } else if (type === 'XMP ') {
+      removed.add(XMP_DATA);
+    } else {
+      const chunk = concatBytes([bytes.subarray(offset, Math.min(end, bytes.length))]);
+      if (type === 'VP8X' && size > 0) {
+        chunk[8] &= ~(WEBP_FLAG_EXIF | WEBP_FLAG_XMP);
+      }
+      chunks.push(chunk);
+    }
+    offset = end;
+  }
+
+  const header = concatBytes([bytes.subarray(0, 12)]);
+  const body = concatBytes(chunks);
+  new DataView(header.buffer).setUint32(4, 4 + body.length, true);
+  return concatBytes([header, body]);
+}
+
+// ---- GIF ----
+
+const GIF_EXTENSION = 0x21;
+const GIF_IMAGE = 0x2c;
+const GIF_TRAILER = 0x3b;
+const GIF_COMMENT_LABEL = 0xfe;
+const GIF_APPLICATION_LABEL = 0xff;
+// Application extensions that control looping rather than describe the file
+const GIF_LOOP_APPLICATIONS = ['NETSCAPE2.0', 'ANIMEXTS1.0'];
+
+// Offset just past a chain of data sub-blocks, or -1 if it runs past the end
+function skipGifSubBlocks(bytes: Uint8Array, offset: number): number {
+  while (offset < bytes.length) {
+    const size = bytes[offset];
+    offset += 1 + size;
+    if (size === 0) return offset;
+  }
+  return -1;
+}
+
+function gifColorTableSize(flags: number): number {
+  return flags & 0x80 ? 3 * 2 ** ((flags & 0x07) + 1) : 0;
+}
+
+function scrubGif(bytes: Uint8Array, removed: Set<string>): Uint8Array<ArrayBuffer> | null {
+  const headerEnd = 13 + gifColorTableSize(bytes[10]);
+  const parts: Uint8Array[] = [bytes.subarray(0, headerEnd)];
+  let offset = headerEnd;
+  while (offset < bytes.length) {
+    const start = offset;
+    const introducer = bytes[offset];
+    if (introducer === GIF_TRAILER) {
+      parts.push(bytes.subarray(offset, offset + 1));
+      return concatBytes(parts);
+    }
+
+    if (introducer === GIF_EXTENSION) {
+      const label = bytes[offset + 1];
+      offset = skipGifSubBlocks(bytes, offset + 2);
+      if (offset === -1) return null;
+      if (label === GIF_COMMENT_LABEL) {
+        removed.add(COMMENTS);
+        continue;
+      }
+      if (label === GIF_APPLICATION_LABEL && !GIF_LOOP_APPLICATIONS.includes(readAscii(bytes, start + 3, 11))) {
+        removed.add(readAscii(bytes, start + 3, 8) === 'XMP Data' ? XMP_DATA : OTHER_METADATA);
+        continue;
+      }
+    } else if (introducer === GIF_IMAGE) {
+      // Image descriptor, optional local color table, LZW code size, then image data
+      offset = skipGifSubBlocks(bytes, offset + 10 + gifColorTableSize(bytes[offset + 9]) + 1);
+      if (offset === -1) return null;
+    } else {
+      return null;
+    }
+    parts.push(bytes.subarray(start, offset));
+  }
+  return concatBytes(parts);
+}
+
+// ---- MP4 / QuickTime / HEIF ----
+
+// Brands of video and audio files, whose `meta` boxes only hold tags
+const MP4_BRANDS = new Set([
+  'isom', 'iso2', 'iso3', 'iso4', 'iso5', 'iso6', 'iso8', 'iso9', 'mp41', 'mp42', 'mp71', 'avc1', 'qt  ',
+  'M4V ', 'M4VH', 'M4VP', 'M4A ', 'M4B ', 'M4P ', '3gp4', '3gp5', '3gp6', '3gp7', '3g2a', '3g2b', '3g2c',
+  'dash', 'mmp4', 'f4v ', 'f4a ', 'MSNV', 'XAVC', 'NDAS', 'kddi', 'caqv', 'isml', 'piff',
+]);
+// Brands of HEIF images like HEIC and AVIF, whose top-level `meta` box holds the image itself
+const HEIF_BRANDS = new Set([
+  'mif1', 'mif2', 'msf1', 'miaf', 'heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'heif', 'avif', 'avis', 'avio',
+]);
+
+// Boxes whose children may hold metadata
+const MP4_CONTAINERS = new Set(['moov', 'trak', 'mdia']);
+// Boxes with creation and modification times right after their version and flags
+const MP4_TIMED_BOXES = new Set(['mvhd', 'tkhd', 'mdhd']);
+const MP4_XMP_UUID = 'be7acfcb97a942e89c71999491e3afac';
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+interface Mp4Box {
+  type: string;
+  start: number;
+  headerSize: number;
+  end: number;
+}
+
+// The box at `offset`, or null if it does not fit in its parent ending at `end`
+function readMp4Box(bytes: Uint8Array, offset: number, end: number): Mp4Box | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let size = view.getUint32(offset);
+  const type = readAscii(bytes, offset + 4, 4);
+  let headerSize = 8;
+  if (size === 1) {
+    size = Number(view.getBigUint64(offset + 8));
+    headerSize = 16;
+  } else if (size === 0) {
+    // Box extends to the end of its parent
+    size = end - offset;
+  }
+  if (size < headerSize || offset + size > end) return null;
+  return { type, start: offset, headerSize, end: offset + size };
+}
+
+// Turn a box into a zeroed `free` box of the same size, so no offsets change
+function blankMp4Box(bytes: Uint8Array, offset: number, headerSize: number, end: number): void {
+  bytes.set([0x66, 0x72, 0x65, 0x65], offset + 4);
+  bytes.fill(0, offset + headerSize, end);
+}
+
+function scrubMp4Boxes(bytes: Uint8Array, start: number, end: number, removed: Set<string>): boolean {
+  let offset = start;
+  while (offset + 8 <= end) {
+    const box = readMp4Box(bytes, offset, end);
+    if (!box) return false;
+    const { type, headerSize, end: boxEnd } = box;
+    const size = boxEnd - offset;
+
+    if (type === 'udta' || type === 'meta') {
+      const payload = readAscii(bytes, offset + headerSize, size - headerSize);
+      if (payload.includes('©xyz') || payload.includes('loci')) removed.add(LOCATION);
+      if (payload.includes('©too') || payload.includes('©swr') || payload.includes('©enc')) {
+        removed.add(ENCODER_TAGS);
+      }
+      removed.add(OTHER_METADATA);
+      blankMp4Box(bytes, offset, headerSize, boxEnd);
+    } else if (type === 'uuid' && toHex(bytes.subarray(offset + headerSize, offset + headerSize + 16)) === MP4_XMP_UUID) {
+      removed.add(XMP_DATA);
+      blankMp4Box(bytes, offset, headerSize, boxEnd);
+    } else if (MP4_TIMED_BOXES.has(type)) {
+      const version = bytes[offset + headerSize];
+      const timesStart = offset + headerSize + 4;
+      const timesEnd = timesStart + (version === 1 ? 16 : 8);
+      if (timesEnd > boxEnd) return false;
+      if (bytes.subarray(timesStart, timesEnd).some((byte) => byte !== 0)) {
+        removed.add(CREATION_TIME);
+        bytes.fill(0, timesStart, timesEnd);
+      }
+    } else if (MP4_CONTAINERS.has(type)) {
+      if (!scrubMp4Boxes(bytes, offset + headerSize, boxEnd, removed)) return false;
+    }
+    offset = boxEnd;
+  }
+  return true;
+}
+
+function scrubMp4(bytes: Uint8Array, removed: Set<string>): Uint8Array<ArrayBuffer> | null {
+  const scrubbed = concatBytes([bytes]);
+  return scrubMp4Boxes(scrubbed, 0, scrubbed.length, removed) ? scrubbed : null;
+}
+
+// Brands named by the `ftyp` box: the major brand first, then the compatible ones
+function readFtypBrands(bytes: Uint8Array): string[] {
+  const ftyp = bytes.length >= 16 ? readMp4Box(bytes, 0, bytes.length) : null;
+  if (!ftyp || ftyp.headerSize !== 8 || ftyp.end < 16) return [];
+  const brands = [readAscii(bytes, 8, 4)];
+  for (let offset = 16; offset + 4 <= ftyp.end; offset += 4) {
+    brands.push(readAscii(bytes, offset, 4));
+  }
+  return brands;
+}
+
+// Reads a big-endian integer of 0, 4 or 8 bytes, as used for iloc offsets and lengths
+function readSizedUint(view: DataView, offset: number, size: number): number {
+  if (size === 0) return 0;
+  if (size === 4) return view.getUint32(offset);
+  if (size === 8) return Number(view.getBigUint64(offset));
+  throw new RangeError(`Unsupported field size ${size}`);
+}
+
+// Null-terminated string of an item info entry, and the offset just past it
+function readCString(bytes: Uint8Array, offset: number, end: number): { value: string; next: number } {
+  const terminator = bytes.subarray(offset, end).indexOf(0);
+  const stringEnd = terminator === -1 ? end : offset + terminator;
+  return { value: readAscii(bytes, offset, stringEnd - offset), next: stringEnd + 1 };
+}
+
+// Labels of the items that are Exif or XMP metadata, by item ID
+function readHeifMetadataItems(bytes: Uint8Array, iinf: Mp4Box): Map<number, string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const items = new Map<number, string>();
+  const dataStart = iinf.start + iinf.headerSize;
+  let offset = dataStart + 4 + (bytes[dataStart] === 0 ? 2 : 4);
+  while (offset + 8 <= iinf.end) {
+    const infe = readMp4Box(bytes, offset, iinf.end);
+    if (!infe) throw new RangeError('Item info entry runs past its parent');
+    const infeStart = infe.start + infe.headerSize;
+    const version = bytes[infeStart];
+    if (infe.type === 'infe' && version >= 2) {
+      const itemId = version === 2 ? view.getUint16(infeStart + 4) : view.getUint32(infeStart + 4);
+      const typeOffset = infeStart + 4 + (version === 2 ? 2 : 4) + 2;
+      const itemType = readAscii(bytes, typeOffset, 4);
+      if (itemType === 'Exif') {
+        items.set(itemId, EXIF_DATA);
+      } else if (itemType === 'mime') {
+        const name = readCString(bytes, typeOffset + 4, infe.end);
+        const contentType = readCString(bytes, name.next, infe.end).value;
+        if (contentType.startsWith('application/rdf+xml')) items.set(itemId, XMP_DATA);
+      }
+    }
+    offset = infe.end;
+  }
+  return items;
+}
+
+/**
+ * File ranges of the data of the given items, following the item location box.
+ * Returns null for data the locations cannot be resolved to, such as items
+ * built from other items.
+ */
+function readHeifItemExtents(
+  bytes: Uint8Array,
+  iloc: Mp4Box,
+  idat: Mp4Box | null,
+  itemIds: Set<number>
+): Map<number, [number, number][]> | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const dataStart = iloc.start + iloc.headerSize;
+  const version = bytes[dataStart];
+  const offsetSize = bytes[dataStart + 4] >> 4;
+  const lengthSize = bytes[dataStart + 4] & 0x0f;
+  const baseOffsetSize = bytes[dataStart + 5] >> 4;
+  const indexSize = version === 1 || version === 2 ? bytes[dataStart + 5] & 0x0f : 0;
+  let offset = dataStart + 6;
+  const itemCount = version < 2 ? view.getUint16(offset) : view.getUint32(offset);
+  offset += version < 2 ? 2 : 4;
+
+  const extents = new Map<number, [number, number][]>();
+  for (let i = 0; i < itemCount; i++) {
+    const itemId = version < 2 ? view.getUint16(offset) : view.getUint32(offset);
+    offset += version < 2 ? 2 : 4;
+    let constructionMethod = 0;
+    if (version === 1 || version === 2) {
+      constructionMethod = view.getUint16(offset) & 0x0f;
+      offset += 2;
+    }
+    // Data reference index, then the base offset
+    const baseOffset = readSizedUint(view, offset + 2, baseOffsetSize);
+    offset += 2 + baseOffsetSize;
+    const extentCount = view.getUint16(offset);
+    offset += 2;
+
+    const ranges: [number, number][] = [];
+    for (let j = 0; j < extentCount; j++) {
+      offset += indexSize;
+      const extentOffset = readSizedUint(view, offset, offsetSize);
+      const extentLength = readSizedUint(view, offset + offsetSize, lengthSize);
+      offset += offsetSize + lengthSize;
+      ranges.push([baseOffset + extentOffset, extentLength]);
+    }
+    if (offset > iloc.end) return null;
+    if (!itemIds.has(itemId)) continue;
+
+    // Offsets are into the file, or into the item data box; other methods cannot be zeroed here
+    const origin = constructionMethod === 0 ? 0 : constructionMethod === 1 && idat ? idat.start + idat.headerSize : -1;
+    if (origin === -1) return null;
+    const limit = constructionMethod === 0 ? bytes.length : (idat as Mp4Box).end;
+    const fileRanges: [number, number][] = [];
+    for (const [start, length] of ranges) {
+      // A length of zero means "to the end", which is never just metadata
+      if (length === 0 || origin + start + length > limit) return null;
+      fileRanges.push([origin + start, origin + start + length]);
+    }
+    extents.set(itemId, fileRanges);
+  }
+  return extents;
+}
+
+// Zero the data of the Exif and XMP items of a HEIF `meta` box, leaving the image items and their properties
+function scrubHeifItems(bytes: Uint8Array, meta: Mp4Box, removed: Set<string>): boolean {
+  const children = new Map<string, Mp4Box>();
+  // A full box: version and flags come before the children
+  let offset = meta.start + meta.headerSize + 4;
+  while (offset + 8 <= meta.end) {
+    const child = readMp4Box(bytes, offset, meta.end);
+    if (!child) return false;
+    if (!children.has(child.type)) children.set(child.type, child);
+    offset = child.end;
+  }
+
+  const iinf = children.get('iinf');
+  const iloc = children.get('iloc');
+  const items = iinf ? readHeifMetadataItems(bytes, iinf) : new Map<number, string>();
+  if (items.size === 0) return true;
+  if (!iloc) return false;
+  const extents = readHeifItemExtents(bytes, iloc, children.get('idat') ?? null, new Set(items.keys()));
+  if (!extents) return false;
+
+  for (const [itemId, label] of items) {
+    const ranges = extents.get(itemId) ?? [];
+    if (label === EXIF_DATA && ranges.length > 0) {
+      // Exif items start with the offset of the TIFF header, which follows an optional "Exif\0\0"
+      const data = concatBytes(ranges.map(([start, end]) => bytes.subarray(start, end)));
+      const tiffOffset = data.length >= 4 ? new DataView(data.buffer).getUint32(0) : 0;
+      readExif(data.subarray(4 + tiffOffset), removed);
+    } else {
+      removed.add(label);
+    }
+    for (const [start, end] of ranges) {
+      bytes.fill(0, start, end);
+    }
+  }
+  return true;
+}
+
+function scrubHeif(bytes: Uint8Array, removed: Set<string>): Uint8Array<ArrayBuffer> | null {
+  const scrubbed = concatBytes([bytes]);
+  let offset = 0;
+  while (offset + 8 <= scrubbed.length) {
+    const box = readMp4Box(scrubbed, offset, scrubbed.length);
+    if (!box) return null;
+    if (box.type === 'meta') {
+      if (!scrubHeifItems(scrubbed, box, removed)) return null;
+    } else if (!scrubMp4Boxes(scrubbed, box.start, box.end, removed)) {
+      return null;
+    }
+    offset = box.end;
+  }
+  return scrubbed;
+}
+
+// ---- WebM / Matroska ----
+
+const EBML_VOID = 0xec;
+const EBML_SEGMENT = 0x18538067;
+const EBML_CLUSTER = 0x1f43b675;
+const EBML_INFO = 0x1549a966;
+const EBML_TRACKS = 0x1654ae6b;
+const EBML_TRACK_ENTRY = 0xae;
+const EBML_TAGS = 0x1254c367;
+const EBML_LABELS: Record<number, string> = {
+  0x4461: CREATION_TIME, // DateUTC
+  0x4d80: ENCODER_TAGS, // MuxingApp
+  0x5741: ENCODER_TAGS, // WritingApp
+  0x7ba9: TITLE, // Title
+  0x536e: TITLE, // Track name
+  [EBML_TAGS]: OTHER_METADATA,
+};
+
+interface EbmlElement {
+  id: number;
+  start: number;
+  dataStart: number;
+  // Null for an element of unknown size, which extends to the end of its parent
+  end: number | null;
+}
+
+function readEbmlElement(bytes: Uint8Array, offset: number): EbmlElement | null {
+  const idLength = Math.clz32(bytes[offset]) - 23;
+  if (idLength < 1 || idLength > 4) return null;
+  let id = 0;
+  for (let i = 0; i < idLength; i++) id = id * 256 + bytes[offset + i];
+
+  const sizeOffset = offset + idLength;
+  const sizeLength = Math.clz32(bytes[sizeOffset]) - 23;
+  if (sizeLength < 1 || sizeLength > 8 || sizeOffset + sizeLength > bytes.length) return null;
+  let size = bytes[sizeOffset] & (0xff >> sizeLength);
+  let isUnknown = size === 0xff >> sizeLength;
+  for (let i = 1; i < sizeLength; i++) {
+    size = size * 256 + bytes[sizeOffset + i];
+    isUnknown &&= bytes[sizeOffset + i] === 0xff;
+  }
+
+  const dataStart = sizeOffset + sizeLength;
+  return { id, start: offset, dataStart, end: isUnknown ? null : dataStart + size };
+}
+
+// Overwrite an element with a Void element of the same total size
+function voidEbmlElement(bytes: Uint8Array, start: number, end: number): void {
+  const sizeLength = Math.min(8, end - start - 1);
+  let dataSize = end - start - 1 - sizeLength;
+  bytes[start] = EBML_VOID;
+  for (let i = sizeLength; i >= 1; i--) {
+    bytes[start + i] = dataSize % 256;
+    dataSize = Math.floor(dataSize / 256);
+  }
+  bytes[start + 1] |= 0x80 >> (sizeLength - 1);
+  bytes.fill(0, start + 1 + sizeLength, end);
+}
+
+function scrubEbmlChildren(bytes: Uint8Array, start: number, end: number, removed: Set<string>): boolean {
+  let offset = start;
+  while (offset < end) {
+    const element = readEbmlElement(bytes, offset);
+    if (!element) return false;
+    if (element.id === EBML_CLUSTER && element.end === null) {
+      // Media data of unknown size follows; metadata elements all come before it
+      return true;
+    }
+    const elementEnd = element.end ?? end;
+    if (elementEnd > end) return false;
+
+    if (EBML_LABELS[element.id] && elementEnd - element.start >= 2) {
+      removed.add(EBML_LABELS[element.id]);
+      voidEbmlElement(bytes, element.start, elementEnd);
+    } else if (
+      element.id === EBML_SEGMENT ||
+      element.id === EBML_INFO ||
+      element.id === EBML_TRACKS ||
+      element.id === EBML_TRACK_ENTRY
+    ) {
+      if (!scrubEbmlChildren(bytes, element.dataStart, elementEnd, removed)) return false;
+    } else if (element.end === null) {
+      return true;
+    }
+    offset = elementEnd;
+  }
+  return true;
+}
+
+function scrubWebm(bytes: Uint8Array, removed: Set<string>): Uint8Array<ArrayBuffer> | null {
+  const scrubbed = concatBytes([bytes]);
+  return scrubEbmlChildren(scrubbed, 0, scrubbed.length, removed) ? scrubbed : null;
+}
+
+// ---- Ogg ----
+
+const OGG_CONTINUED_PACKET = 0x01;
+
+const OGG_CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+function oggCrc(page: Uint8Array): number {
+  let crc = 0;
+  for (const byte of page) {
+    crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  }
+  return crc;
+}
+
+function commentHeaderSignature(packet: Uint8Array): string | null {
+  return startsWith(packet, 'OpusTags') ? 'OpusTags' : startsWith(packet, '\x03vorbis') ? '\x03vorbis' : null;
+}
+
+// Comment header with an empty vendor string and no comments, or null if `packet` is none
+function emptyCommentHeader(packet: Uint8Array, removed: Set<string>): Uint8Array<ArrayBuffer> | null {
+  const signature = commentHeaderSignature(packet);
+  if (!signature) return null;
+
+  const view = new DataView(packet.buffer, packet.byteOffset, packet.byteLength);
+  const vendorLength = view.getUint32(signature.length, true);
+  if (vendorLength > 0) removed.add(ENCODER_TAGS);
+  if (view.getUint32(signature.length + 4 + vendorLength, true) > 0) removed.add(COMMENTS);
+
+  // Vorbis ends its comment header with a framing bit
+  const header = new Uint8Array(signature.length + 8 + (signature === 'OpusTags' ? 0 : 1));
+  header.set(new TextEncoder().encode(signature));
+  if (signature !== 'OpusTags') header[header.length - 1] = 1;
+  return header;
+}
+
+// Recomputes the checksum of a page that was built or changed
+function withOggCrc(page: Uint8Array<ArrayBuffer>): Uint8Array<ArrayBuffer> {
+  const pageView = new DataView(page.buffer);
+  pageView.setUint32(22, 0);
+  pageView.setUint32(22, oggCrc(page), true);
+  return page;
+}
+
+function sum(values: Uint8Array): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+/**
+ * Replaces the comment header of each stream with an empty one. The header is
+ * the first packet on the second page, and with cover art or long tags it goes
+ * on over the following pages; those pages are merged into one that holds the
+ * empty header and whatever followed the old one, and the stream's later pages
+ * are renumbered to close the gap.
+ */
+function scrubOgg(bytes: Uint8Array, removed: Set<string>): Uint8Array<ArrayBuffer> | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const pages: Uint8Array[] = [];
+  // Comment headers whose last page has not been read yet, by stream serial number
+  const openComments = new Map<number, { firstPage: Uint8Array; parts: Uint8Array[] }>();
+  // Pages each stream lost to merged comment headers
+  const mergedPages = new Map<number, number>();
+  let offset = 0;
+  while (offset + 27 <= bytes.length) {
+    if (!startsWith(bytes, 'OggS', offset)) return null;
+    const segmentCount = bytes[offset + 26];
+    const lacing = bytes.subarray(offset + 27, offset + 27 + segmentCount);
+    const dataStart = offset + 27 + segmentCount;
+    const end = dataStart + sum(lacing);
+    if (end > bytes.length) return null;
+
+    const page = bytes.subarray(offset, end);
+    const serial = view.getUint32(offset + 14, true);
+    const sequence = view.getUint32(offset + 18, true);
+    const isContinued = (bytes[offset + 5] & OGG_CONTINUED_PACKET) !== 0;
+    // Segments of the first packet that ends on this page, or 0 if it goes on over the next page
+    const firstPacketSegments = lacing.findIndex((value) => value < 255) + 1;
+    const firstPacketEnd = dataStart + sum(lacing.subarray(0, firstPacketSegments || segmentCount));
+
+    const openComment = openComments.get(serial);
+    const isCommentStart =
+      sequence === 1 && !isContinued && commentHeaderSignature(bytes.subarray(dataStart, end)) !== null;
+
+    if (openComment || isCommentStart) {
+      if (openComment && !isContinued) return null;
+      const comment = openComment ?? { firstPage: page, parts: [] };
+      comment.parts.push(bytes.subarray(dataStart, firstPacketEnd));
+      if (openComment) mergedPages.set(serial, (mergedPages.get(serial) ?? 0) + 1);
+      if (firstPacketSegments === 0) {
+        openComments.set(serial, comment);
+        offset = end;
+        continue;
+      }
+      openComments.delete(serial);
+
+      const header = emptyCommentHeader(concatBytes(comment.parts), removed);
+      if (!header) return null;
+      const rest = lacing.subarray(firstPacketSegments);
+      // Flags and sequence number of the first page, granule position of the last
+      pages.push(
+        withOggCrc(
+          concatBytes([
+            comment.firstPage.subarray(0, 6),
+            page.subarray(6, 14),
+            comment.firstPage.subarray(14, 26),
+            new Uint8Array([1 + rest.length, header.length]),
+            rest,
+            header,
+            bytes.subarray(firstPacketEnd, end),
+          ])
+        )
+      );
+    } else if (mergedPages.has(serial)) {
+      const renumbered = concatBytes([page]);
+      new DataView(renumbered.buffer).setUint32(18, sequence - (mergedPages.get(serial) ?? 0), true);
+      pages.push(withOggCrc(renumbered));
+    } else {
+      pages.push(page);
+    }
+    offset = end;
+  }
+  // A comment header cut off by the end of the file cannot be replaced
+  if (openComments.size > 0) return null;
+  return concatBytes(pages);
+}
+
+// ---- Entry point ----
+
+type MediaFormat = 'jpeg' | 'png' | 'webp' | 'gif' | 'mp4' | 'heif' | 'webm' | 'ogg';
+
+// HEIF photos and MP4 video share a container; the brands tell them apart, with the major brand deciding first
+function detectIsoMediaFormat(bytes: Uint8Array): MediaFormat | null {
+  const brands = readFtypBrands(bytes);
+  if (brands.length === 0) return null;
+  if (MP4_BRANDS.has(brands[0])) return 'mp4';
+  if (brands.some((brand) => HEIF_BRANDS.has(brand))) return 'heif';
+  if (brands.some((brand) => MP4_BRANDS.has(brand))) return 'mp4';
+  return null;
+}
+
+// Sniff the format from magic bytes; file names and MIME types are not trusted
+function detectFormat(bytes: Uint8Array): MediaFormat | null {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (PNG_SIGNATURE.every((byte, index) => bytes[index] === byte)) return 'png';
+  if (startsWith(bytes, 'RIFF') && startsWith(bytes, 'WEBP', 8)) return 'webp';
+  if (startsWith(bytes, 'GIF87a') || startsWith(bytes, 'GIF89a')) return 'gif';
+  if (startsWith(bytes, 'ftyp', 4)) return detectIsoMediaFormat(bytes);
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return 'webm';
+  if (startsWith(bytes, 'OggS')) return 'ogg';
+  return null;
+}
+
+const SCRUBBERS: Record<MediaFormat, (bytes: Uint8Array, removed: Set<string>) => Uint8Array<ArrayBuffer> | null> = {
+  jpeg: scrubJpeg,
+  png: scrubPng,
+  webp: scrubWebp,
+  gif: scrubGif,
+  mp4: scrubMp4,
+  heif: scrubHeif,
+  webm: scrubWebm,
+  ogg: scrubOgg,
+};
+
+// Whether the bytes are in one of the formats metadata can be removed from
+export function isScrubbableMedia(bytes: Uint8Array): boolean {
+  return detectFormat(bytes) !== null;
+}
+
+export function scrubMediaMetadata(bytes: Uint8Array<ArrayBuffer>): ScrubbedMedia {
+  const format = detectFormat(bytes);
+  if (!format) return { bytes, removed: [], isScrubbed: false };
+
+  const removed = new Set<string>();
+  let scrubbed: Uint8Array<ArrayBuffer> | null = null;
+  try {
+    scrubbed = SCRUBBERS[format](bytes, removed);
+  } catch (error) {
+    // DataView reads past the end of a truncated file throw a RangeError
+    console.warn(`Failed to scrub ${format} metadata:`, error);
+  }
+  if (!scrubbed) return { bytes, removed: [], isScrubbed: false };
+  return { bytes: scrubbed, removed: Array.from(removed), isScrubbed: true };
+}
+
+/**
+ * Summary for the sender, e.g. "Removed GPS location, device model and EXIF data",
+ * or null when there was nothing to remove.
+ */
+export function describeRemovedMetadata(removed: string[]): string | null {
+  if (removed.length === 0) return null;
+  if (removed.length === 1) return `Removed ${removed[0]}`;
+  return `Removed ${removed.slice(0, -1).join(', ')} and ${removed[removed.length - 1]}`;
+}
@@ -0,0 +1,64 @@
+/**
+ * Helpers for per-room message retention. The backend stores the TTL in
+ * nanoseconds; the UI works in milliseconds.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+export const MESSAGE_RETENTION_OPTIONS = [
+  { label: '5 minutes', ms: 5 * MINUTE_MS },
+  { label: '1 hour', ms: HOUR_MS },
+  { label: '24 hours', ms: DAY_MS },
+  { label: '3 days', ms: 3 * DAY_MS },
+  { label: '7 days', ms: 7 * DAY_MS },
+] as const;
+
+export const DEFAULT_RETENTION_MS = DAY_MS;
+
+// Warn in the last tenth of a message's lifetime, but never more than an hour ahead
+const MAX_EXPIRY_WARNING_MS = HOUR_MS;
+
+export function retentionToTTL(ms: number): bigint {
+  return BigInt(ms) * BigInt(1_000_000);
+}
+
+export function ttlToMs(ttl: bigint): number {
+  return Number(ttl / BigInt(1_000_000));
+}
+
+export function formatRetention(ms: number): string {
+  const option = MESSAGE_RETENTION_OPTIONS.find((candidate) => candidate.ms === ms);
+  return option ? option.label : formatTimeRemaining(ms);
+}
+
+// Wall-clock time in milliseconds at which a message stops being served
+export function getMessageExpiresAt(timestamp: bigint, ttl: bigint): number {
+  return ttlToMs(timestamp + ttl);
+}
+
+// Send time before which messages of a room have expired, in nanoseconds like message timestamps
+export function getExpiryCutoff(ttl: bigint): bigint {
+  return retentionToTTL(Date.now()) - ttl;
+}
+
+export function getExpiryWarningMs(ttl: bigint): number {
+  return Math.min(ttlToMs(ttl) / 10, MAX_EXPIRY_WARNING_MS);
+}
+
+/**
+ * Compact countdown using the two largest units, e.g. "2d 3h", "4m 10s", "45s".
+ */
+export function formatTimeRemaining(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  if (hours > 0) return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+  if (minutes > 0) return seconds > 0 ? `${minutes}m ${seconds}s` : `${minutes}m`;
+  return `${seconds}s`;
+}
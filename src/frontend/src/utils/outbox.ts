@@ -0,0 +1,201 @@
+import type { Attachment, backendInterface, MessageView, SelfDestruct } from '../backend';
+import { ExternalBlob } from '../backend';
+import { createLocalDatabase } from './indexedDb';
+import { isTransientError, retryWithBackoff } from './retry';
+import { createUploadProgressTracker, type UploadProgress } from './uploadProgress';
+
+/**
+ * Durable outbox of sent messages the backend has not confirmed yet, kept in
+ * IndexedDB so they survive reloads and lost connections.
+ *
+ * Entries are keyed by the message nonce. The backend deduplicates `sendMessage`
+ * on the nonce, so replaying an entry that did reach the canister returns the
+ * existing message instead of posting it twice. Content and media are stored
+ * exactly as they are sent, i.e. already sealed in encrypted rooms.
+ */
+
+const STORE_NAME = 'messages';
+
+const outboxDb = createLocalDatabase('chat-outbox', 1, (db) => {
+  const store = db.createObjectStore(STORE_NAME, { keyPath: 'nonce' });
+  store.createIndex('roomId', 'roomId');
+});
+
+// An attachment with the bytes to upload in place of its blob
+export type OutboxAttachment = Omit<Attachment, 'blob'> & { bytes: Uint8Array<ArrayBuffer> };
+
+export interface OutboxEntry {
+  nonce: string;
+  roomId: string;
+  nickname: string;
+  content: string;
+  replyToId: bigint | null;
+  attachments: OutboxAttachment[];
+  mediaKey: string | null;
+  selfDestruct: SelfDestruct | null;
+  // Milliseconds since the epoch, used to order entries and to place them in the room
+  createdAt: number;
+}
+
+/**
+ * Thrown by a send that failed after its message was written to the outbox;
+ * the message stays pending and is retried later.
+ */
+export class MessageQueuedError extends Error {
+  // True when the browser was offline or had no actor; such messages are replayed on reconnect
+  readonly isWaitingForConnection: boolean;
+
+  constructor(message: string, isWaitingForConnection: boolean) {
+    super(message);
+    this.name = 'MessageQueuedError';
+    this.isWaitingForConnection = isWaitingForConnection;
+  }
+}
+
+// Thrown by a send that was cancelled while it was uploading
+export class MessageCancelledError extends Error {
+  constructor() {
+    super('Message cancelled');
+    this.name = 'MessageCancelledError';
+  }
+}
+
+export async function putOutboxEntry(entry: OutboxEntry): Promise<void> {
+  await outboxDb.request(STORE_NAME, 'readwrite', (store) => store.put(entry));
+}
+
+export function getOutboxEntry(nonce: string): Promise<OutboxEntry | undefined> {
+  return outboxDb.request(STORE_NAME, 'readonly', (store) => store.get(nonce) as IDBRequest<OutboxEntry | undefined>);
+}
+
+// Pending entries of a room, oldest first
+export async function getOutboxEntries(roomId: string): Promise<OutboxEntry[]> {
+  const entries = await outboxDb.request(STORE_NAME, 'readonly', (store) =>
+    store.index('roomId').getAll(roomId) as IDBRequest<OutboxEntry[]>
+  );
+  return entries.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function deleteOutboxEntry(nonce: string): Promise<void> {
+  await outboxDb.request(STORE_NAME, 'readwrite', (store) => store.delete(nonce));
+}
+
+function toAttachments(entry: OutboxEntry): Attachment[] {
+  return entry.attachments.map(({ bytes, ...attachment }) => ({ ...attachment, blob: ExternalBlob.fromBytes(bytes) }));
+}
+
+export function hasOutboxMedia(entry: OutboxEntry): boolean {
+  return entry.attachments.length > 0;
+}
+
+// Total size of the media an entry uploads
+export function getOutboxMediaSize(entry: OutboxEntry): number {
+  return entry.attachments.reduce((sum, attachment) => sum + attachment.bytes.byteLength, 0);
+}
+
+/**
+ * Attachments of an entry ready for upload: cancellable through `signal`,
+ * resumable under the nonce after a reload, and with their upload progress
+ * combined into one report across all of their bytes.
+ */
+function toUploadAttachments(
+  entry: OutboxEntry,
+  signal: AbortSignal,
+  onUploadProgress?: (progress: UploadProgress) => void
+): Attachment[] {
+  const attachments = toAttachments(entry);
+  attachments.forEach(({ blob }, index) => blob.withAbortSignal(signal).withResumeKey(`${entry.nonce}/${index}`));
+  if (!onUploadProgress) return attachments;
+
+  const totalBytes = getOutboxMediaSize(entry);
+  const track = createUploadProgressTracker(totalBytes);
+  const uploaded = attachments.map(() => 0);
+  attachments.forEach(({ blob }, index) => {
+    blob.withUploadProgress((percentage) => {
+      uploaded[index] = (entry.attachments[index].bytes.byteLength * percentage) / 100;
+      onUploadProgress(track(uploaded.reduce((sum, bytes) => sum + bytes, 0) / totalBytes));
+    });
+  });
+  return attachments;
+}
+
+// Sends in progress by nonce, so a replay joins a send that is already running
+const inFlight = new Map<string, { send: Promise<bigint>; controller: AbortController }>();
+
+/**
+ * Send an outbox entry, retrying transient failures, and remove it from the
+ * outbox once the backend has assigned a message id. Media is uploaded before
+ * the call itself; `onUploadProgress` reports it across all of its bytes.
+ * A send that joins one already in flight keeps the first caller's callback.
+ */
+export function sendOutboxEntry(
+  actor: backendInterface,
+  entry: OutboxEntry,
+  onUploadProgress?: (progress: UploadProgress) => void
+): Promise<bigint> {
+  const pending = inFlight.get(entry.nonce);
+  if (pending) return pending.send;
+
+  const controller = new AbortController();
+  const send = retryWithBackoff(
+    () =>
+      actor.sendMessage(
+        entry.roomId,
+        entry.content,
+        entry.nickname,
+        entry.replyToId,
+        toUploadAttachments(entry, controller.signal, onUploadProgress),
+        entry.mediaKey,
+        entry.selfDestruct,
+        entry.nonce
+      ),
+    {
+      maxAttempts: 3,
+      initialDelayMs: 200,
+      maxDelayMs: 2000,
+      shouldRetry: (error) => !controller.signal.aborted && isTransientError(error),
+    }
+  )
+    .then(
+      async (messageId) => {
+        await deleteOutboxEntry(entry.nonce).catch((error) =>
+          console.warn('[outbox] Failed to remove sent message:', error)
+        );
+        return messageId;
+      },
+      (error) => {
+        throw controller.signal.aborted ? new MessageCancelledError() : error;
+      }
+    )
+    .finally(() => inFlight.delete(entry.nonce));
+
+  inFlight.set(entry.nonce, { send, controller });
+  return send;
+}
+
+/**
+ * Abort the media upload of a send in progress. Once the upload finished the
+ * backend call can no longer be stopped, so the message may still be sent.
+ */
+export function abortOutboxSend(nonce: string): void {
+  inFlight.get(nonce)?.controller.abort();
+}
+
+// The entry as an unconfirmed message of its room, still sealed like a fetched one
+export function outboxEntryToMessage(entry: OutboxEntry, id: bigint, owner: string): MessageView {
+  return {
+    id,
+    content: entry.content,
+    timestamp: BigInt(entry.createdAt) * BigInt(1_000_000),
+    nickname: entry.nickname,
+    replyToId: entry.replyToId ?? undefined,
+    attachments: toAttachments(entry),
+    mediaKey: entry.mediaKey ?? undefined,
+    isEdited: false,
+    reactions: [],
+    owner,
+    nonce: entry.nonce,
+    selfDestruct: entry.selfDestruct ?? undefined,
+    isConsumed: false,
+  };
+}
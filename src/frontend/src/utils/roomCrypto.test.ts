@@ -0,0 +1,194 @@
+import { readFileSync } from 'fs';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AttachmentKind, ExternalBlob, type Attachment, type MessageView } from '../backend';
+import {
+  WrongPassphraseError,
+  clearRoomKey,
+  createRoomEncryption,
+  decryptMessage,
+  encryptContent,
+  sealAttachmentDetails,
+  unlockRoom,
+  wrapMediaKey,
+} from './roomCrypto';
+
+/**
+ * room-envelope.json is a message as an earlier build stored it: the room's salt
+ * and key check, its content and wrapped media key, and the sealed details of a
+ * PDF and a photo. Opening it guards the envelope format against silent changes.
+ */
+interface RecordedRoom {
+  roomId: string;
+  passphrase: string;
+  encryption: { salt: string; keyCheck: string };
+  message: { content: string; mediaKey: string };
+  attachments: Array<{ blobHash: string; mimeType: string; fileName: string }>;
+}
+
+const recorded: RecordedRoom = JSON.parse(
+  readFileSync(new URL('./__fixtures__/room-envelope.json', import.meta.url), 'utf8')
+);
+
+function blobAt(hash: string): ExternalBlob {
+  return ExternalBlob.fromURL(`https://blob.example/v1/blob/?blob_hash=${encodeURIComponent(hash)}&owner_id=o&project_id=p`);
+}
+
+function recordedAttachments(): Attachment[] {
+  return recorded.attachments.map((attachment) => ({
+    blob: blobAt(attachment.blobHash),
+    kind: AttachmentKind.file,
+    size: 1000n,
+    mimeType: attachment.mimeType,
+    fileName: attachment.fileName,
+  }));
+}
+
+function messageWith(fields: Partial<MessageView>): MessageView {
+  return {
+    id: 1n,
+    content: '',
+    nickname: 'Ada',
+    owner: 'anon-1',
+    attachments: [],
+    isEdited: false,
+    isConsumed: false,
+    timestamp: 0n,
+    reactions: [],
+    ...fields,
+  };
+}
+
+function withFlippedLastByte(envelope: string): string {
+  const [prefix, version, iv, ciphertext] = envelope.split(':');
+  const bytes = Uint8Array.from(atob(ciphertext), (char) => char.charCodeAt(0));
+  bytes[bytes.length - 1] ^= 0x01;
+  return [prefix, version, iv, btoa(String.fromCharCode(...bytes))].join(':');
+}
+
+describe('room envelopes', () => {
+  beforeEach(() => clearRoomKey(recorded.roomId));
+
+  it('opens a recorded message with the room passphrase', async () => {
+    await unlockRoom(recorded.roomId, recorded.passphrase, recorded.encryption);
+
+    const message = await decryptMessage(
+      recorded.roomId,
+      messageWith({ ...recorded.message, attachments: recordedAttachments() })
+    );
+
+    expect(message.contentState).toBe('decrypted');
+    expect(message.content).toBe('Meet at the library at 7 🙂');
+    expect(message.mediaCryptoKey).toBeDefined();
+    expect(message.attachments.map(({ mimeType, fileName }) => ({ mimeType, fileName }))).toEqual([
+      { mimeType: 'application/pdf', fileName: 'minutes.pdf' },
+      { mimeType: 'image/jpeg', fileName: 'shelf.jpg' },
+    ]);
+  });
+
+  it('refuses a wrong passphrase before any message is opened', async () => {
+    await expect(unlockRoom(recorded.roomId, 'correct horse battery', recorded.encryption)).rejects.toBeInstanceOf(
+      WrongPassphraseError
+    );
+  });
+
+  it('reports altered content as tampered', async () => {
+    await unlockRoom(recorded.roomId, recorded.passphrase, recorded.encryption);
+
+    const message = await decryptMessage(
+      recorded.roomId,
+      messageWith({ content: withFlippedLastByte(recorded.message.content) })
+    );
+
+    expect(message.contentState).toBe('tampered');
+    expect(message.content).toBe('');
+  });
+
+  it('reports content copied from another room as tampered', async () => {
+    await createRoomEncryption('poetry-club', recorded.passphrase);
+
+    const message = await decryptMessage('poetry-club', messageWith({ content: recorded.message.content }));
+
+    expect(message.contentState).toBe('tampered');
+    clearRoomKey('poetry-club');
+  });
+
+  it('reports a malformed envelope as undecryptable', async () => {
+    await unlockRoom(recorded.roomId, recorded.passphrase, recorded.encryption);
+
+    const message = await decryptMessage(recorded.roomId, messageWith({ content: 'e2ee:v0:abc' }));
+
+    expect(message.contentState).toBe('undecryptable');
+  });
+
+  it('hides content and attachment details while the room is locked', async () => {
+    const message = await decryptMessage(
+      recorded.roomId,
+      messageWith({ ...recorded.message, attachments: recordedAttachments() })
+    );
+
+    expect(message.contentState).toBe('undecryptable');
+    expect(message.content).toBe('');
+    expect(message.attachments.every((attachment) => attachment.mimeType === '' && !attachment.fileName)).toBe(true);
+  });
+
+  it('does not open attachment details moved to another blob or position', async () => {
+    await unlockRoom(recorded.roomId, recorded.passphrase, recorded.encryption);
+    const [pdf, photo] = recordedAttachments();
+
+    const swappedBlobs = await decryptMessage(
+      recorded.roomId,
+      messageWith({ ...recorded.message, attachments: [{ ...pdf, blob: photo.blob }, { ...photo, blob: pdf.blob }] })
+    );
+    const swappedPositions = await decryptMessage(
+      recorded.roomId,
+      messageWith({ ...recorded.message, attachments: [photo, pdf] })
+    );
+
+    for (const message of [swappedBlobs, swappedPositions]) {
+      expect(message.contentState).toBe('decrypted');
+      expect(message.attachments.map(({ mimeType, fileName }) => ({ mimeType, fileName }))).toEqual([
+        { mimeType: '', fileName: undefined },
+        { mimeType: '', fileName: undefined },
+      ]);
+    }
+  });
+
+  it('opens details sealed before their blob was uploaded', async () => {
+    await unlockRoom(recorded.roomId, recorded.passphrase, recorded.encryption);
+    const mediaKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    const blob = ExternalBlob.fromBytes(new Uint8Array(readFileSync(new URL('./__fixtures__/notes.pdf', import.meta.url))));
+
+    const attachments = await sealAttachmentDetails(mediaKey, [
+      { blob, kind: AttachmentKind.file, size: 1299n, mimeType: 'application/pdf', fileName: 'notes.pdf' },
+    ]);
+    const message = await decryptMessage(
+      recorded.roomId,
+      messageWith({ content: recorded.message.content, mediaKey: await wrapMediaKey(recorded.roomId, mediaKey), attachments })
+    );
+
+    expect(attachments[0].fileName).not.toContain('notes');
+    expect(message.attachments[0]).toMatchObject({ mimeType: 'application/pdf', fileName: 'notes.pdf' });
+  });
+
+  it('seals new content that only its own room opens', async () => {
+    await createRoomEncryption('garden', 'tulips in spring');
+
+    const content = await encryptContent('garden', 'Watering on Sunday');
+    const message = await decryptMessage('garden', messageWith({ content }));
+
+    expect(content).not.toContain('Watering');
+    expect(message).toMatchObject({ content: 'Watering on Sunday', contentState: 'decrypted' });
+    clearRoomKey('garden');
+  });
+
+  it('marks plaintext in an encrypted room and leaves plain rooms alone', async () => {
+    await unlockRoom(recorded.roomId, recorded.passphrase, recorded.encryption);
+
+    const legacy = await decryptMessage(recorded.roomId, messageWith({ content: 'hello' }));
+    const plain = await decryptMessage('open-room', messageWith({ content: 'hello' }));
+
+    expect(legacy.contentState).toBe('legacyPlaintext');
+    expect(await encryptContent('open-room', 'hello')).toBe('hello');
+    expect(plain.contentState).toBeUndefined();
+  });
+});
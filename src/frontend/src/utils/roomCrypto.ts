@@ -0,0 +1,319 @@
+import type { Attachment, ExternalBlob, MessageView, RoomEncryption } from '../backend';
+import { StorageClient } from './StorageClient';
+
+/**
+ * End-to-end encryption for passphrase-protected rooms.
+ *
+ * The passphrase is stretched with PBKDF2 using the room's random salt, then HKDF
+ * splits the result into an AES-GCM content key and a key check value. Only the
+ * salt and key check are stored in the room settings, so members can verify a
+ * passphrase without the canister ever seeing it or any plaintext.
+ */
+
+// Encrypted content envelope: `e2ee:v1:<base64 iv>:<base64 ciphertext>`
+export const ENCRYPTED_CONTENT_PREFIX = 'e2ee:';
+const ENVELOPE_VERSION = 'v1';
+
+const PBKDF2_ITERATIONS = 310_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+// How a message's content relates to the room key, set when it is decrypted
+export type MessageContentState =
+  | 'decrypted'
+  | 'tampered'
+  | 'undecryptable'
+  | 'legacyPlaintext';
+
+export interface DecryptedMessageView extends MessageView {
+  contentState?: MessageContentState;
+  // Unwrapped key of the message's encrypted media, if it could be unwrapped
+  mediaCryptoKey?: CryptoKey;
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('Incorrect passphrase for this room.');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+interface RoomKeyMaterial {
+  contentKey: CryptoKey;
+  keyCheck: string;
+}
+
+// Unlocked room keys for this session; cleared when leaving the room
+const roomKeys = new Map<string, CryptoKey>();
+
+export function getRoomKey(roomId: string): CryptoKey | undefined {
+  return roomKeys.get(roomId);
+}
+
+export function clearRoomKey(roomId: string): void {
+  roomKeys.delete(roomId);
+}
+
+export function isEncryptedContent(content: string): boolean {
+  return content.startsWith(ENCRYPTED_CONTENT_PREFIX);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function deriveRoomKeyMaterial(passphrase: string, roomId: string, salt: string): Promise<RoomKeyMaterial> {
+  const encoder = new TextEncoder();
+  const passphraseKey = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const stretched = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations: PBKDF2_ITERATIONS },
+    passphraseKey,
+    256
+  );
+
+  const masterKey = await crypto.subtle.importKey('raw', stretched, 'HKDF', false, ['deriveKey', 'deriveBits']);
+  const hkdfParams = (purpose: string) => ({
+    name: 'HKDF',
+    hash: 'SHA-256',
+    salt: encoder.encode(roomId),
+    info: encoder.encode(`securechat/${purpose}`),
+  });
+
+  const contentKey = await crypto.subtle.deriveKey(
+    hkdfParams('content'),
+    masterKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+  const keyCheck = await crypto.subtle.deriveBits(hkdfParams('key-check'), masterKey, 256);
+
+  return { contentKey, keyCheck: toBase64(new Uint8Array(keyCheck)) };
+}
+
+/**
+ * Create encryption settings for a new room and unlock it for this session.
+ */
+export async function createRoomEncryption(roomId: string, passphrase: string): Promise<RoomEncryption> {
+  const salt = toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+  const { contentKey, keyCheck } = await deriveRoomKeyMaterial(passphrase, roomId, salt);
+  roomKeys.set(roomId, contentKey);
+  return { salt, keyCheck };
+}
+
+/**
+ * Derive the room key from a passphrase and unlock the room for this session.
+ * Throws WrongPassphraseError if the passphrase does not match the room's key check.
+ */
+export async function unlockRoom(roomId: string, passphrase: string, encryption: RoomEncryption): Promise<void> {
+  const { contentKey, keyCheck } = await deriveRoomKeyMaterial(passphrase, roomId, encryption.salt);
+  if (keyCheck !== encryption.keyCheck) {
+    throw new WrongPassphraseError();
+  }
+  roomKeys.set(roomId, contentKey);
+}
+
+/**
+ * Encrypt message content with the room key if the room is encrypted; content of
+ * plain rooms is returned unchanged. The room id is bound as additional data so a
+ * ciphertext cannot be replayed into another room.
+ */
+export async function encryptContent(roomId: string, plaintext: string): Promise<string> {
+  const key = roomKeys.get(roomId);
+  if (!key) return plaintext;
+  return sealText(key, plaintext, roomId);
+}
+
+async function sealText(key: CryptoKey, plaintext: string, additionalData: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(additionalData) },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+  return `${ENCRYPTED_CONTENT_PREFIX}${ENVELOPE_VERSION}:${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+// Plaintext of a sealed envelope, or undefined if it does not open with `key`
+async function openText(key: CryptoKey, sealed: string, additionalData: string): Promise<string | undefined> {
+  const [, version, iv, ciphertext] = sealed.split(':');
+  if (version !== ENVELOPE_VERSION || !iv || !ciphertext) return undefined;
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(iv), additionalData: new TextEncoder().encode(additionalData) },
+      key,
+      fromBase64(ciphertext)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    return undefined;
+  }
+}
+
+// Storage hash of a blob: read from its URL once stored, otherwise computed from its bytes
+async function getBlobHash(blob: ExternalBlob): Promise<string> {
+  return StorageClient.parseDirectURL(blob.getDirectURL()) ?? (await StorageClient.computeBlobHash(await blob.getBytes()));
+}
+
+// Sealed details only open for the attachment at the same position with the same blob
+function attachmentDetailsData(field: 'mime-type' | 'file-name', index: number, blobHash: string): string {
+  return `${field}/${index}/${blobHash}`;
+}
+
+/**
+ * Seal the file names and mime types of a message's attachments with its media
+ * key, so encrypted rooms do not store them in plaintext. Sizes, dimensions and
+ * durations stay readable, as the sealed blobs give them away anyway.
+ */
+export async function sealAttachmentDetails(mediaKey: CryptoKey, attachments: Attachment[]): Promise<Attachment[]> {
+  return Promise.all(
+    attachments.map(async (attachment, index) => {
+      const blobHash = await getBlobHash(attachment.blob);
+      const seal = (value: string, field: 'mime-type' | 'file-name') =>
+        sealText(mediaKey, value, attachmentDetailsData(field, index, blobHash));
+      return {
+        ...attachment,
+        mimeType: await seal(attachment.mimeType, 'mime-type'),
+        fileName: attachment.fileName === undefined ? undefined : await seal(attachment.fileName, 'file-name'),
+      };
+    })
+  );
+}
+
+// Details that cannot be opened are left out, so the file is shown under a generic label
+async function openAttachmentDetails(mediaKey: CryptoKey | undefined, attachments: Attachment[]): Promise<Attachment[]> {
+  return Promise.all(
+    attachments.map(async (attachment, index) => {
+      let blobHash: string | undefined;
+      const open = async (value: string, field: 'mime-type' | 'file-name'): Promise<string | undefined> => {
+        if (!isEncryptedContent(value)) return value;
+        if (!mediaKey) return undefined;
+        blobHash ??= await getBlobHash(attachment.blob).catch(() => undefined);
+        return blobHash === undefined ? undefined : openText(mediaKey, value, attachmentDetailsData(field, index, blobHash));
+      };
+      return {
+        ...attachment,
+        mimeType: (await open(attachment.mimeType, 'mime-type')) ?? '',
+        fileName: attachment.fileName === undefined ? undefined : await open(attachment.fileName, 'file-name'),
+      };
+    })
+  );
+}
+
+/**
+ * Wrap a per-message media key with the room key. The additional data binds the
+ * wrapped key to the room, like message content.
+ */
+export async function wrapMediaKey(roomId: string, mediaKey: CryptoKey): Promise<string> {
+  const key = roomKeys.get(roomId);
+  if (!key) {
+    throw new Error('Room is locked');
+  }
+
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const rawKey = await crypto.subtle.exportKey('raw', mediaKey);
+  const wrapped = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(`${roomId}/media-key`) },
+    key,
+    rawKey
+  );
+  return `${ENCRYPTED_CONTENT_PREFIX}${ENVELOPE_VERSION}:${toBase64(iv)}:${toBase64(new Uint8Array(wrapped))}`;
+}
+
+async function unwrapMediaKey(roomId: string, key: CryptoKey, wrappedKey: string): Promise<CryptoKey | undefined> {
+  const [, version, iv, ciphertext] = wrappedKey.split(':');
+  if (version !== ENVELOPE_VERSION || !iv || !ciphertext) return undefined;
+
+  try {
+    const rawKey = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(iv), additionalData: new TextEncoder().encode(`${roomId}/media-key`) },
+      key,
+      fromBase64(ciphertext)
+    );
+    // Edits reseal the details of the attachments they keep
+    return await crypto.subtle.importKey('raw', rawKey, 'AES-GCM', false, ['encrypt', 'decrypt']);
+  } catch {
+    return undefined;
+  }
+}
+
+async function decryptContent(
+  roomId: string,
+  key: CryptoKey,
+  content: string
+): Promise<{ content: string; contentState: MessageContentState }> {
+  const [, version, iv, ciphertext] = content.split(':');
+  if (version !== ENVELOPE_VERSION || !iv || !ciphertext) {
+    return { content: '', contentState: 'undecryptable' };
+  }
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(iv), additionalData: new TextEncoder().encode(roomId) },
+      key,
+      fromBase64(ciphertext)
+    );
+    return { content: new TextDecoder().decode(plaintext), contentState: 'decrypted' };
+  } catch (error) {
+    // The passphrase was checked on unlock, so failed AES-GCM authentication means the ciphertext
+    // was altered, or written by someone who never had the room key
+    const state: MessageContentState =
+      error instanceof DOMException && error.name === 'OperationError' ? 'tampered' : 'undecryptable';
+    return { content: '', contentState: state };
+  }
+}
+
+/**
+ * Replace a message's content with its plaintext and record the outcome in
+ * `contentState`, and unwrap the key of its encrypted media to open the names
+ * and types of its attachments. Messages of plain rooms pass through untouched.
+ */
+export async function decryptMessage(roomId: string, message: MessageView): Promise<DecryptedMessageView> {
+  const key = roomKeys.get(roomId);
+  const encrypted = isEncryptedContent(message.content);
+
+  // Self-destructing messages carry no content once consumed, nor for recipients before they open them
+  if (message.isConsumed || (message.selfDestruct && !message.content)) {
+    return message;
+  }
+  if (!encrypted) {
+    return key ? { ...message, contentState: 'legacyPlaintext' } : message;
+  }
+  if (!key) {
+    return {
+      ...message,
+      content: '',
+      contentState: 'undecryptable',
+      attachments: await openAttachmentDetails(undefined, message.attachments),
+    };
+  }
+
+  const [decrypted, mediaCryptoKey] = await Promise.all([
+    decryptContent(roomId, key, message.content),
+    message.mediaKey ? unwrapMediaKey(roomId, key, message.mediaKey) : undefined,
+  ]);
+  return {
+    ...message,
+    ...decrypted,
+    attachments: await openAttachmentDetails(mediaCryptoKey, message.attachments),
+    ...(mediaCryptoKey ? { mediaCryptoKey } : {}),
+  };
+}
+
+export function decryptMessages(roomId: string, messages: MessageView[]): Promise<DecryptedMessageView[]> {
+  return Promise.all(messages.map((message) => decryptMessage(roomId, message)));
+}
@@ -0,0 +1,35 @@
+import type { MessageView, SelfDestruct } from '../backend';
+
+/**
+ * Helpers for view-once and timed self-destructing messages.
+ */
+
+export const SELF_DESTRUCT_OPTIONS: { label: string; value: SelfDestruct }[] = [
+  { label: 'View once', value: { __kind__: 'viewOnce', viewOnce: null } },
+  { label: '10 seconds after opening', value: { __kind__: 'afterSeconds', afterSeconds: BigInt(10) } },
+  { label: '30 seconds after opening', value: { __kind__: 'afterSeconds', afterSeconds: BigInt(30) } },
+  { label: '1 minute after opening', value: { __kind__: 'afterSeconds', afterSeconds: BigInt(60) } },
+];
+
+export function isSameSelfDestruct(a: SelfDestruct | null | undefined, b: SelfDestruct | null | undefined): boolean {
+  if (!a || !b) return !a && !b;
+  if (a.__kind__ === 'viewOnce' || b.__kind__ === 'viewOnce') return a.__kind__ === b.__kind__;
+  return a.afterSeconds === b.afterSeconds;
+}
+
+export function describeSelfDestruct(selfDestruct: SelfDestruct): string {
+  return selfDestruct.__kind__ === 'viewOnce'
+    ? 'View once'
+    : `Disappears ${selfDestruct.afterSeconds}s after opening`;
+}
+
+/**
+ * Wall-clock time in milliseconds at which a timed message stops being readable,
+ * counted from its first view; null for view-once or unopened messages.
+ */
+export function getSelfDestructAt(message: MessageView, openedAt: number | null): number | null {
+  if (message.selfDestruct?.__kind__ !== 'afterSeconds') return null;
+  const firstViewedAt = message.firstViewedAt !== undefined ? Number(message.firstViewedAt / BigInt(1_000_000)) : openedAt;
+  if (firstViewedAt === null) return null;
+  return firstViewedAt + Number(message.selfDestruct.afterSeconds) * 1000;
+}
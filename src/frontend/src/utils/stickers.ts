@@ -0,0 +1,69 @@
+/**
+ * Helpers for the sticker library. Stickers are uploaded to blob storage once
+ * and kept for a lifetime their owner picks; the backend takes lifetimes in
+ * nanoseconds, like message retention.
+ */
+
+import type { Sticker } from '../backend';
+import { sniffMimeType, SNIFF_LENGTH } from './fileTypes';
+import { retentionToTTL, ttlToMs } from './messageExpiry';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// A null lifetime keeps the sticker until its owner removes it
+export const STICKER_LIFETIME_OPTIONS: ReadonlyArray<{ label: string; ms: number | null }> = [
+  { label: '1 day', ms: DAY_MS },
+  { label: '7 days', ms: 7 * DAY_MS },
+  { label: '30 days', ms: 30 * DAY_MS },
+  { label: '1 year', ms: 365 * DAY_MS },
+  { label: 'Until removed', ms: null },
+];
+
+export const DEFAULT_STICKER_LIFETIME_MS: number | null = 30 * DAY_MS;
+
+// Largest sticker accepted after downscaling
+export const MAX_STICKER_SIZE = 2 * 1024 * 1024;
+
+export const STICKER_MIME_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+export function stickerLifetimeToTTL(ms: number | null): bigint | null {
+  return ms === null ? null : retentionToTTL(ms);
+}
+
+// Wall-clock time in milliseconds at which the sticker is deleted, or null if it is kept
+export function getStickerExpiresAt(sticker: Sticker): number | null {
+  return sticker.expiresAt === undefined ? null : ttlToMs(sticker.expiresAt);
+}
+
+// Stickers used to be kept as base64 in this browser only, for 24 hours
+const LEGACY_STICKERS_STORAGE_KEY = 'customStickers';
+const LEGACY_STICKER_TTL_MS = DAY_MS;
+
+export interface LegacySticker {
+  id: string;
+  file: Blob;
+}
+
+export function readLegacyStickers(): LegacySticker[] {
+  try {
+    const stored = localStorage.getItem(LEGACY_STICKERS_STORAGE_KEY);
+    if (!stored) return [];
+    const expiryTime = Date.now() - LEGACY_STICKER_TTL_MS;
+    return (JSON.parse(stored) as Array<{ id: string; bytes: string; timestamp: number }>)
+      .filter((sticker) => sticker.timestamp > expiryTime)
+      .map((sticker) => {
+        const bytes = Uint8Array.from(atob(sticker.bytes), (char) => char.charCodeAt(0));
+        // The type was not saved, so it is taken from the bytes
+        const type = sniffMimeType(bytes.subarray(0, SNIFF_LENGTH), '');
+        return { id: sticker.id, file: new Blob([bytes], { type }) };
+      });
+  } catch (error) {
+    console.error('Error loading stickers saved on this device:', error);
+    return [];
+  }
+}
+
+export function clearLegacyStickers() {
+  localStorage.removeItem(LEGACY_STICKERS_STORAGE_KEY);
+}
@@ -0,0 +1,159 @@
+import { getFileExtension } from './fileTypes';
+
+/**
+ * Minimal syntax highlighting for text file previews. Splits source into
+ * comments, strings, numbers and keywords with one regular expression per
+ * language; anything it does not know is left as plain text. Tokens are
+ * rendered as text nodes, so file contents never reach the DOM as markup.
+ */
+
+export type TokenType = 'plain' | 'comment' | 'string' | 'number' | 'keyword' | 'tag';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+interface Grammar {
+  comments: RegExp[];
+  strings: RegExp[];
+  keywords: string[];
+  tags?: boolean;
+}
+
+const NUMBER = /\b(?:0x[\da-f]+|\d+(?:\.\d+)?(?:e[+-]?\d+)?)\b/;
+const DOUBLE_QUOTED = /"(?:[^"\\\n]|\\.)*"/;
+const SINGLE_QUOTED = /'(?:[^'\\\n]|\\.)*'/;
+const BACKTICK_QUOTED = /`(?:[^`\\]|\\.)*`/;
+const LINE_COMMENT = /\/\/[^\n]*/;
+const BLOCK_COMMENT = /\/\*[\s\S]*?(?:\*\/|$)/;
+const HASH_COMMENT = /#[^\n]*/;
+
+const C_LIKE_KEYWORDS = [
+  'abstract', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default',
+  'delete', 'do', 'else', 'enum', 'export', 'extends', 'false', 'final', 'finally', 'fn', 'for',
+  'func', 'function', 'go', 'if', 'impl', 'implements', 'import', 'in', 'instanceof', 'interface',
+  'let', 'match', 'mut', 'new', 'null', 'package', 'private', 'protected', 'pub', 'public', 'return',
+  'static', 'struct', 'super', 'switch', 'this', 'throw', 'trait', 'true', 'try', 'type', 'typeof',
+  'use', 'var', 'void', 'while', 'yield',
+];
+
+const GRAMMARS: Record<string, Grammar> = {
+  cLike: {
+    comments: [LINE_COMMENT, BLOCK_COMMENT],
+    strings: [DOUBLE_QUOTED, SINGLE_QUOTED, BACKTICK_QUOTED],
+    keywords: C_LIKE_KEYWORDS,
+  },
+  python: {
+    comments: [HASH_COMMENT],
+    strings: [/"""[\s\S]*?(?:"""|$)/, /'''[\s\S]*?(?:'''|$)/, DOUBLE_QUOTED, SINGLE_QUOTED],
+    keywords: [
+      'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif',
+      'else', 'except', 'False', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is',
+      'lambda', 'None', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'True', 'try', 'while',
+      'with', 'yield',
+    ],
+  },
+  shell: {
+    comments: [HASH_COMMENT],
+    strings: [DOUBLE_QUOTED, SINGLE_QUOTED],
+    keywords: [
+      'case', 'do', 'done', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function', 'if', 'in',
+      'local', 'return', 'then', 'until', 'while', 'true', 'false', 'null',
+    ],
+  },
+  sql: {
+    comments: [/--[^\n]*/, BLOCK_COMMENT],
+    strings: [SINGLE_QUOTED, DOUBLE_QUOTED],
+    keywords: [
+      'select', 'from', 'where', 'insert', 'into', 'values', 'update', 'set', 'delete', 'create',
+      'table', 'drop', 'alter', 'join', 'left', 'right', 'inner', 'outer', 'on', 'group', 'by',
+      'order', 'having', 'limit', 'and', 'or', 'not', 'null', 'as', 'primary', 'key', 'index',
+    ],
+  },
+  json: {
+    comments: [],
+    strings: [DOUBLE_QUOTED],
+    keywords: ['true', 'false', 'null'],
+  },
+  css: {
+    comments: [BLOCK_COMMENT],
+    strings: [DOUBLE_QUOTED, SINGLE_QUOTED],
+    keywords: ['important', 'media', 'import', 'keyframes', 'from', 'to'],
+  },
+  markup: {
+    comments: [/<!--[\s\S]*?(?:-->|$)/],
+    strings: [DOUBLE_QUOTED, SINGLE_QUOTED],
+    keywords: [],
+    tags: true,
+  },
+};
+
+const LANGUAGES: Record<string, keyof typeof GRAMMARS> = {
+  js: 'cLike', jsx: 'cLike', mjs: 'cLike', cjs: 'cLike', ts: 'cLike', tsx: 'cLike',
+  java: 'cLike', kt: 'cLike', c: 'cLike', h: 'cLike', cpp: 'cLike', hpp: 'cLike', cs: 'cLike',
+  go: 'cLike', rs: 'cLike', swift: 'cLike', php: 'cLike', mo: 'cLike', dart: 'cLike', scala: 'cLike',
+  py: 'python',
+  sh: 'shell', bash: 'shell', zsh: 'shell', yml: 'shell', yaml: 'shell', toml: 'shell', ini: 'shell',
+  conf: 'shell', env: 'shell', rb: 'shell', r: 'shell', pl: 'shell', dockerfile: 'shell',
+  sql: 'sql',
+  json: 'json',
+  css: 'css', scss: 'css', less: 'css',
+  html: 'markup', htm: 'markup', xml: 'markup', svg: 'markup', vue: 'markup',
+};
+
+const compiled = new Map<Grammar, RegExp>();
+
+// One alternation with a capture group per token type, tried left to right
+function compile(grammar: Grammar): RegExp {
+  let pattern = compiled.get(grammar);
+  if (!pattern) {
+    const source = (patterns: RegExp[]) => patterns.map((part) => part.source).join('|') || '(?!)';
+    const keywords = grammar.keywords.length > 0 ? `\\b(?:${grammar.keywords.join('|')})\\b` : '(?!)';
+    const tags = grammar.tags ? '<\\/?[A-Za-z][\\w:-]*|\\/?>' : '(?!)';
+    pattern = new RegExp(
+      `(${source(grammar.comments)})|(${source(grammar.strings)})|(${NUMBER.source})|(${keywords})|(${tags})`,
+      grammar === GRAMMARS.sql ? 'gi' : 'g'
+    );
+    compiled.set(grammar, pattern);
+  }
+  pattern.lastIndex = 0;
+  return pattern;
+}
+
+const GROUP_TYPES: TokenType[] = ['comment', 'string', 'number', 'keyword', 'tag'];
+
+/**
+ * Whether a file gets highlighted; other text files are previewed as plain text.
+ */
+export function isHighlightable(fileName: string): boolean {
+  const extension = getFileExtension(fileName) || fileName.toLowerCase();
+  return extension in LANGUAGES;
+}
+
+export function highlightSource(text: string, fileName: string): Token[] {
+  const extension = getFileExtension(fileName) || fileName.toLowerCase();
+  const language = LANGUAGES[extension];
+  if (!language) return [{ type: 'plain', text }];
+
+  const tokens: Token[] = [];
+  const pattern = compile(GRAMMARS[language]);
+  let position = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    if (match.index > position) {
+      tokens.push({ type: 'plain', text: text.slice(position, match.index) });
+    }
+    const group = match.slice(1).findIndex((value) => value !== undefined);
+    tokens.push({ type: GROUP_TYPES[group], text: match[0] });
+    position = match.index + match[0].length;
+  }
+  if (position < text.length) {
+    tokens.push({ type: 'plain', text: text.slice(position) });
+  }
+  return tokens;
+}
@@ -0,0 +1,57 @@
+import { formatTimeRemaining } from './messageExpiry';
+
+/**
+ * Progress of a media upload in bytes, with an estimate of the time left once
+ * enough of the upload has been measured.
+ */
+export interface UploadProgress {
+  percentage: number;
+  bytesUploaded: number;
+  totalBytes: number;
+  // Milliseconds left at the current rate, or null while it cannot be estimated yet
+  remainingMs: number | null;
+}
+
+// Rates measured over less than this are too noisy to show
+const MIN_ESTIMATE_WINDOW_MS = 1000;
+
+/**
+ * Track an upload of `totalBytes` from fractions of it as reported by the
+ * storage client. Bytes already stored when tracking starts, i.e. chunks of a
+ * resumed upload, are not counted towards the rate.
+ */
+export function createUploadProgressTracker(totalBytes: number): (fraction: number) => UploadProgress {
+  const startedAt = Date.now();
+  let initialBytes: number | null = null;
+
+  return (fraction) => {
+    const bytesUploaded = Math.min(totalBytes, Math.round(totalBytes * fraction));
+    initialBytes ??= bytesUploaded;
+
+    const elapsedMs = Date.now() - startedAt;
+    const measuredBytes = bytesUploaded - initialBytes;
+    const remainingMs =
+      elapsedMs >= MIN_ESTIMATE_WINDOW_MS && measuredBytes > 0
+        ? ((totalBytes - bytesUploaded) / measuredBytes) * elapsedMs
+        : null;
+
+    return {
+      percentage: totalBytes > 0 ? Math.round((bytesUploaded / totalBytes) * 100) : 100,
+      bytesUploaded,
+      totalBytes,
+      remainingMs,
+    };
+  };
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return bytes + ' B';
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+  return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+}
+
+// Bytes transferred and time left, e.g. "4.2 MB of 10.0 MB · 12s left"
+export function describeUploadProgress(progress: UploadProgress): string {
+  const transferred = `${formatFileSize(progress.bytesUploaded)} of ${formatFileSize(progress.totalBytes)}`;
+  return progress.remainingMs === null ? transferred : `${transferred} · ${formatTimeRemaining(progress.remainingMs)} left`;
+}
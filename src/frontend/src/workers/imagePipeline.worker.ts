@@ -0,0 +1,35 @@
+import type { ImagePipelineRequest, ImagePipelineResponse } from '../utils/imagePipeline';
+
+async function processImage({ id, bytes, type, options }: ImagePipelineRequest): Promise<ImagePipelineResponse> {
+  // Decoding applies the EXIF orientation, so the re-encoded image is upright without it
+  const bitmap = await createImageBitmap(new Blob([bytes], { type }));
+  const scale = Math.min(1, options.maxDimension / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new Error('2D canvas is not available');
+  }
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const output = await canvas.convertToBlob({ type: options.format, quality: options.quality });
+  // Re-encoding an image that did not need resizing is only worth it if it gets smaller
+  if (scale === 1 && output.size >= bytes.byteLength) {
+    return { id, bytes, type };
+  }
+  return { id, bytes: await output.arrayBuffer(), type: output.type };
+}
+
+self.onmessage = async (event: MessageEvent<ImagePipelineRequest>) => {
+  let response: ImagePipelineResponse;
+  try {
+    response = await processImage(event.data);
+  } catch (error) {
+    response = { id: event.data.id, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response, { transfer: 'bytes' in response ? [response.bytes] : [] });
+};
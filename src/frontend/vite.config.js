@@ -41,6 +41,7 @@ export default defineConfig({
         environment('all', { prefix: 'DFX_' }),
         environment(['II_URL']),
         environment(['STORAGE_GATEWAY_URL']),
+        environment({ GIF_PROVIDER: null, TENOR_API_KEY: null, GIPHY_API_KEY: null, GIF_INDEX_URL: null }),
         react()
     ],
     resolve: {